@@ -0,0 +1,41 @@
+import { createLocalJWKSet, exportJWK, generateKeyPair, KeyLike, SignJWT } from "jose";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createTokenVerifier } from "./auth";
+
+let privateKey: KeyLike;
+let keySet: ReturnType<typeof createLocalJWKSet>;
+
+beforeAll(async () => {
+  const pair = await generateKeyPair("EdDSA");
+  privateKey = pair.privateKey;
+  keySet = createLocalJWKSet({ keys: [{ ...(await exportJWK(pair.publicKey)), kid: "k1", alg: "EdDSA" }] });
+});
+
+const bearer = async (jti: string, issuer = "auth-service") =>
+  `Bearer ${await new SignJWT({ roles: ["user"] })
+    .setProtectedHeader({ alg: "EdDSA", kid: "k1" })
+    .setSubject("p1")
+    .setJti(jti)
+    .setIssuer(issuer)
+    .setExpirationTime("1m")
+    .sign(privateKey)}`;
+
+describe("createTokenVerifier", () => {
+  it("rejects denylisted token ids and accepts the rest", async () => {
+    const verify = createTokenVerifier(keySet, { isDenied: async (jti) => jti === "revoked" });
+    expect(await verify(await bearer("revoked"))).toBeNull();
+    expect((await verify(await bearer("live")))?.sub).toBe("p1");
+    expect(await verify(await bearer("live", "someone-else"))).toBeNull();
+    expect(await verify("Bearer not-a-jwt")).toBeNull();
+    expect(await verify(undefined)).toBeNull();
+  });
+
+  it("fails open when the denylist is unreachable", async () => {
+    const verify = createTokenVerifier(keySet, {
+      isDenied: async () => {
+        throw new Error("redis down");
+      },
+    });
+    expect((await verify(await bearer("any")))?.sub).toBe("p1");
+  });
+});
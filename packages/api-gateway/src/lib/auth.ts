@@ -0,0 +1,49 @@
+import { createRemoteJWKSet, jwtVerify, JWTVerifyGetKey } from "jose";
+import type { GatewayUser } from "./routes";
+
+export interface TokenDenylist {
+  isDenied(jti: string): Promise<boolean>;
+}
+
+// Written by auth-service on logout and refresh-token reuse; expires with the access token.
+export const denylistKey = (jti: string) => `denylist:jti:${jti}`;
+
+export function redisTokenDenylist(redis: { exists(key: string): Promise<number> }): TokenDenylist {
+  return {
+    async isDenied(jti) {
+      return (await redis.exists(denylistKey(jti))) > 0;
+    },
+  };
+}
+
+// Caches auth-service's public keys; an unknown `kid` triggers a refetch (at most every 30s).
+export function createJwksKeySet(jwksUrl: string) {
+  return createRemoteJWKSet(new URL(jwksUrl), { cacheMaxAge: 10 * 60 * 1000, cooldownDuration: 30 * 1000 });
+}
+
+/**
+ * Verifies a bearer header and rejects tokens whose id has been revoked. A denylist outage
+ * fails open (logged): access tokens are short-lived, and taking every route down with Redis
+ * would be worse.
+ */
+export function createTokenVerifier(keySet: JWTVerifyGetKey, denylist?: TokenDenylist) {
+  return async (authHeader: string | undefined): Promise<GatewayUser | null> => {
+    if (!authHeader?.startsWith("Bearer ")) return null;
+    let payload: GatewayUser;
+    try {
+      payload = (await jwtVerify(authHeader.slice(7), keySet, { issuer: "auth-service" })).payload as GatewayUser;
+    } catch {
+      return null;
+    }
+    if (payload.jti && denylist) {
+      try {
+        if (await denylist.isDenied(payload.jti)) return null;
+      } catch (err) {
+        console.error("[denylist] lookup failed", err);
+      }
+    }
+    return payload;
+  };
+}
+
+export type TokenVerifier = ReturnType<typeof createTokenVerifier>;
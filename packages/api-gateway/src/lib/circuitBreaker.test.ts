@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createCircuitBreaker, defaultBreakerOptions } from "./circuitBreaker";
+
+const options = { ...defaultBreakerOptions, minRequests: 4, openMs: 10_000, halfOpenMaxCalls: 2 };
+
+describe("createCircuitBreaker", () => {
+  it("opens on error rate and fails fast until the open period ends", () => {
+    const breaker = createCircuitBreaker(options);
+    const now = 1_000_000;
+    for (const failed of [false, true, true, false]) {
+      expect(breaker.tryAcquire(now)).toBe(true);
+      breaker.record({ failed, latencyMs: 20 }, now);
+    }
+    expect(breaker.state).toBe("open");
+    expect(breaker.tryAcquire(now + 5_000)).toBe(false);
+    expect(breaker.snapshot(now + 5_000).retryAfterMs).toBe(5_000);
+  });
+
+  it("closes after successful half-open probes and reopens when a probe fails", () => {
+    const breaker = createCircuitBreaker(options);
+    const now = 1_000_000;
+    breaker.forceOpen("health check failed", now);
+
+    const later = now + options.openMs;
+    expect(breaker.tryAcquire(later)).toBe(true);
+    expect(breaker.tryAcquire(later)).toBe(true);
+    expect(breaker.state).toBe("half_open");
+    // Probe budget is spent until the in-flight probes report back.
+    expect(breaker.tryAcquire(later)).toBe(false);
+    breaker.record({ failed: false, latencyMs: 10 }, later);
+    breaker.record({ failed: false, latencyMs: 10 }, later);
+    expect(breaker.state).toBe("closed");
+
+    breaker.forceOpen("again", later);
+    expect(breaker.tryAcquire(later + options.openMs)).toBe(true);
+    breaker.record({ failed: true, latencyMs: 10 }, later + options.openMs);
+    expect(breaker.snapshot(later + options.openMs)).toMatchObject({ state: "open", openReason: "half-open probe failed" });
+  });
+
+  it("frees probe slots released without an outcome", () => {
+    const breaker = createCircuitBreaker(options);
+    const later = 1_000_000 + options.openMs;
+    breaker.forceOpen("health check failed", 1_000_000);
+    expect(breaker.tryAcquire(later)).toBe(true);
+    expect(breaker.tryAcquire(later)).toBe(true);
+    expect(breaker.tryAcquire(later)).toBe(false);
+    // Both probes' clients disconnected before the upstream answered.
+    breaker.release();
+    breaker.release();
+    expect(breaker.state).toBe("half_open");
+    expect(breaker.tryAcquire(later)).toBe(true);
+  });
+
+  it("opens when most calls are slow even if they succeed", () => {
+    const breaker = createCircuitBreaker(options);
+    const now = 1_000_000;
+    for (let i = 0; i < 4; i += 1) {
+      breaker.tryAcquire(now);
+      breaker.record({ failed: false, latencyMs: options.slowCallMs + 1 }, now);
+    }
+    expect(breaker.state).toBe("open");
+  });
+});
@@ -0,0 +1,143 @@
+export type BreakerState = "closed" | "open" | "half_open";
+
+export interface BreakerOptions {
+  // Rolling window the error/slow rates are computed over.
+  windowMs: number;
+  // Calls needed in the window before the breaker may trip.
+  minRequests: number;
+  // Fraction of failed calls (0..1) that opens the breaker.
+  errorRateThreshold: number;
+  // Calls slower than this count towards the slow-call rate.
+  slowCallMs: number;
+  // Fraction of slow calls (0..1) that opens the breaker.
+  slowCallRateThreshold: number;
+  // How long the breaker stays open before letting probes through.
+  openMs: number;
+  // Probe calls allowed (and needed to succeed) while half-open.
+  halfOpenMaxCalls: number;
+}
+
+export const defaultBreakerOptions: BreakerOptions = {
+  windowMs: 30_000,
+  minRequests: 10,
+  errorRateThreshold: 0.5,
+  slowCallMs: 5_000,
+  slowCallRateThreshold: 0.8,
+  openMs: 30_000,
+  halfOpenMaxCalls: 3,
+};
+
+type Outcome = { at: number; failed: boolean; slow: boolean };
+
+export function createCircuitBreaker(options: BreakerOptions = defaultBreakerOptions) {
+  let state: BreakerState = "closed";
+  let outcomes: Outcome[] = [];
+  let openedAt: number | null = null;
+  let openReason: string | null = null;
+  let halfOpenInFlight = 0;
+  let halfOpenSuccesses = 0;
+
+  const prune = (now: number) => {
+    outcomes = outcomes.filter((o) => now - o.at <= options.windowMs);
+  };
+
+  const open = (now: number, reason: string) => {
+    state = "open";
+    openedAt = now;
+    openReason = reason;
+    halfOpenInFlight = 0;
+    halfOpenSuccesses = 0;
+  };
+
+  const close = () => {
+    state = "closed";
+    openedAt = null;
+    openReason = null;
+    outcomes = [];
+    halfOpenInFlight = 0;
+    halfOpenSuccesses = 0;
+  };
+
+  const stats = (now: number) => {
+    prune(now);
+    const requests = outcomes.length;
+    const failures = outcomes.filter((o) => o.failed).length;
+    const slow = outcomes.filter((o) => o.slow).length;
+    return {
+      requests,
+      failures,
+      slow,
+      errorRate: requests ? failures / requests : 0,
+      slowCallRate: requests ? slow / requests : 0,
+    };
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+
+    // Returns false when the call should fail fast; callers that get true must report the outcome
+    // with record(), or call release() when the call ends without one.
+    tryAcquire(now = Date.now()): boolean {
+      if (state === "open") {
+        if (openedAt !== null && now - openedAt >= options.openMs) {
+          state = "half_open";
+        } else {
+          return false;
+        }
+      }
+      if (state === "half_open") {
+        if (halfOpenInFlight >= options.halfOpenMaxCalls) return false;
+        halfOpenInFlight += 1;
+      }
+      return true;
+    },
+
+    record(result: { failed: boolean; latencyMs: number }, now = Date.now()) {
+      const slow = result.latencyMs >= options.slowCallMs;
+      if (state === "half_open") {
+        halfOpenInFlight = Math.max(0, halfOpenInFlight - 1);
+        if (result.failed || slow) {
+          open(now, result.failed ? "half-open probe failed" : "half-open probe was slow");
+          return;
+        }
+        halfOpenSuccesses += 1;
+        if (halfOpenSuccesses >= options.halfOpenMaxCalls) close();
+        return;
+      }
+      if (state === "open") return;
+      outcomes.push({ at: now, failed: result.failed, slow });
+      const current = stats(now);
+      if (current.requests < options.minRequests) return;
+      if (current.errorRate >= options.errorRateThreshold) {
+        open(now, `error rate ${Math.round(current.errorRate * 100)}% over ${current.requests} calls`);
+      } else if (current.slowCallRate >= options.slowCallRateThreshold) {
+        open(now, `slow-call rate ${Math.round(current.slowCallRate * 100)}% over ${current.requests} calls`);
+      }
+    },
+
+    // A call that ended with no outcome (the client went away first): frees its half-open probe
+    // slot without counting for or against the upstream.
+    release() {
+      if (state === "half_open") halfOpenInFlight = Math.max(0, halfOpenInFlight - 1);
+    },
+
+    // Active health checks can trip the breaker without waiting for user traffic to fail.
+    forceOpen(reason: string, now = Date.now()) {
+      if (state !== "open") open(now, reason);
+    },
+
+    snapshot(now = Date.now()) {
+      return {
+        state,
+        openedAt: openedAt === null ? null : new Date(openedAt).toISOString(),
+        openReason,
+        retryAfterMs: state === "open" && openedAt !== null ? Math.max(0, options.openMs - (now - openedAt)) : 0,
+        window: stats(now),
+      };
+    },
+  };
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
@@ -0,0 +1,78 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { mergeDocuments, OpenApiDocument, renderDocsPage } from "./docs";
+import { loadRouteTable } from "./routes";
+
+const table = loadRouteTable(path.resolve(__dirname, "../../config/routes.json"), {});
+
+const doc = (paths: OpenApiDocument["paths"], schemas: Record<string, any> = {}): OpenApiDocument => ({
+  openapi: "3.0.3",
+  info: { title: "svc", version: "1" },
+  paths,
+  components: { schemas },
+});
+
+describe("mergeDocuments", () => {
+  it("exposes service paths under their public prefixes with route annotations", () => {
+    const merged = mergeDocuments(table, [
+      {
+        upstream: "stats",
+        document: doc({
+          "/games/{appId}/summary": { get: { tags: ["games"], responses: {} } },
+          "/spotlight/{appId}": { get: { responses: {} } },
+        }),
+      },
+      {
+        upstream: "auth",
+        document: doc({
+          "/auth/steam/login": { get: { responses: {} } },
+          "/auth/admin/users": { get: { responses: {} } },
+          "/refresh": { post: { responses: {} } },
+        }),
+      },
+      { upstream: "live", document: null, error: "connect ECONNREFUSED" },
+    ]);
+
+    expect(merged.paths["/stats/games/{appId}/summary"].get).toMatchObject({
+      tags: ["stats: games"],
+      security: [{ bearerAuth: [] }],
+      "x-gateway-route": "stats",
+    });
+    expect(merged.paths["/stats/spotlight/{appId}"].get["x-gateway-route"]).toBe("stats-spotlight");
+    expect(merged.paths["/auth/steam/login"].get.security).toBeUndefined();
+    expect(merged.paths["/auth/admin/users"].get).toMatchObject({ "x-gateway-route": "auth-admin", "x-required-scopes": ["users:manage"] });
+    // Not reachable through the /auth route, so not documented.
+    expect(merged.paths["/refresh"]).toBeUndefined();
+    expect(merged.paths["/admin/upstreams"]).toBeDefined();
+    expect(merged.info.description).toContain("live (connect ECONNREFUSED)");
+  });
+
+  it("namespaces schemas two services define differently", () => {
+    const merged = mergeDocuments(table, [
+      { upstream: "stats", document: doc({}, { Item: { type: "object" } }) },
+      {
+        upstream: "metadata",
+        document: doc(
+          { "/games/{appId}": { get: { responses: { "200": { content: { "application/json": { schema: { $ref: "#/components/schemas/Item" } } } } } } } },
+          { Item: { type: "string" } },
+        ),
+      },
+    ]);
+    expect(merged.components?.schemas?.["metadata.Item"]).toEqual({ type: "string" });
+    expect(merged.paths["/metadata/games/{appId}"].get.responses["200"].content["application/json"].schema.$ref).toBe(
+      "#/components/schemas/metadata.Item",
+    );
+  });
+});
+
+describe("renderDocsPage", () => {
+  it("loads every CDN asset from a pinned release with an integrity hash", () => {
+    const tags = renderDocsPage("/docs/openapi.json").match(/<(link|script) [^>]*https:[^>]*>/g) || [];
+    expect(tags).toHaveLength(2);
+    for (const tag of tags) {
+      expect(tag).toMatch(/swagger-ui-dist@\d+\.\d+\.\d+\//);
+      expect(tag).toMatch(/integrity="sha384-[A-Za-z0-9+/]{64}"/);
+      expect(tag).toContain('crossorigin="anonymous"');
+    }
+  });
+});
@@ -0,0 +1,219 @@
+import { matchRoute, RouteConfig } from "./routes";
+
+type Json = Record<string, any>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string }[];
+  paths: Record<string, Record<string, Json>>;
+  components?: { schemas?: Record<string, Json>; securitySchemes?: Record<string, Json> };
+  [key: string]: unknown;
+}
+
+export interface DocsOptions {
+  // How long a merged document is served before the services are asked again.
+  cacheMs: number;
+  fetchTimeoutMs: number;
+}
+
+const errorRef = { $ref: "#/components/schemas/Error" };
+const errorResponse = (description: string) => ({ description, content: { "application/json": { schema: errorRef } } });
+const adminOperation = (summary: string, scope: string, parameters: Json[] = []) => ({
+  tags: ["gateway"],
+  summary,
+  security: [{ bearerAuth: [] }],
+  "x-required-scopes": [scope],
+  parameters,
+  responses: {
+    "200": { description: "OK", content: { "application/json": { schema: { type: "object", additionalProperties: true } } } },
+    "401": errorResponse("Missing or invalid token"),
+    "403": errorResponse(`Token lacks the ${scope} scope`),
+  },
+});
+
+// Endpoints the gateway answers itself rather than proxying.
+export const gatewayPaths: Record<string, Record<string, Json>> = {
+  "/health": {
+    get: { tags: ["gateway"], summary: "Liveness", responses: { "200": { description: "Gateway is up" } } },
+  },
+  "/admin/usage": {
+    get: adminOperation("Per-route and per-user request counts, errors and latency", "usage:read", [
+      { name: "from", in: "query", schema: { type: "string" } },
+      { name: "to", in: "query", schema: { type: "string" } },
+      { name: "route", in: "query", schema: { type: "string" } },
+      { name: "steamId", in: "query", schema: { type: "string" } },
+      { name: "statusClass", in: "query", schema: { type: "integer", minimum: 1, maximum: 5 } },
+      { name: "top", in: "query", schema: { type: "integer", minimum: 1, maximum: 100 } },
+    ]),
+  },
+  "/admin/routes": { get: adminOperation("Effective gateway route table", "gateway:read") },
+  "/admin/upstreams": { get: adminOperation("Circuit breaker and health-check state per upstream", "gateway:read") },
+};
+
+/**
+ * Maps a path from a service's own document to the public path the gateway exposes it under,
+ * by undoing the route's `^/prefix` rewrite. Returns null when no route reaches it.
+ */
+export function publicPath(route: RouteConfig, servicePath: string): string | null {
+  const rewrites = Object.entries(route.pathRewrite || {});
+  if (!rewrites.length) return servicePath === route.prefix || servicePath.startsWith(`${route.prefix}/`) ? servicePath : null;
+  for (const [pattern, replacement] of rewrites) {
+    if (pattern !== `^${route.prefix}`) continue;
+    if (replacement && servicePath !== replacement && !servicePath.startsWith(`${replacement}/`)) continue;
+    return `${route.prefix}${servicePath.slice(replacement.length)}`;
+  }
+  return null;
+}
+
+function rewriteRefs(value: any, renames: Map<string, string>): any {
+  if (Array.isArray(value)) return value.map((v) => rewriteRefs(v, renames));
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => {
+      if (key === "$ref" && typeof v === "string") {
+        const name = v.replace("#/components/schemas/", "");
+        return [key, renames.has(name) ? `#/components/schemas/${renames.get(name)}` : v];
+      }
+      return [key, rewriteRefs(v, renames)];
+    }),
+  );
+}
+
+const templated = (path: string) => path.replace(/\{[^}]+\}/g, "x");
+
+/**
+ * Merges the per-service documents under the gateway's public prefixes. Each operation is
+ * annotated with what the route table enforces (auth, roles, scopes), and schemas that two
+ * services define differently are namespaced by upstream.
+ */
+export function mergeDocuments(
+  table: RouteConfig[],
+  documents: { upstream: string; document: OpenApiDocument | null; error?: string }[],
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = { ...gatewayPaths };
+  const schemas: Record<string, Json> = {
+    Error: { type: "object", required: ["error"], properties: { error: { type: "string" }, message: { type: "string" }, requestId: { type: "string" } } },
+  };
+  const unavailable: string[] = [];
+
+  for (const { upstream, document, error } of documents) {
+    if (!document) {
+      unavailable.push(`${upstream} (${error || "no document"})`);
+      continue;
+    }
+    const renames = new Map<string, string>();
+    for (const [name, schema] of Object.entries(document.components?.schemas || {})) {
+      if (schemas[name] && JSON.stringify(schemas[name]) !== JSON.stringify(schema)) {
+        renames.set(name, `${upstream}.${name}`);
+      }
+    }
+    for (const [name, schema] of Object.entries(document.components?.schemas || {})) {
+      schemas[renames.get(name) || name] = rewriteRefs(schema, renames);
+    }
+
+    const routes = table.filter((route) => (route.upstream || route.name) === upstream);
+    for (const [servicePath, item] of Object.entries(document.paths)) {
+      for (const route of routes) {
+        const exposed = publicPath(route, servicePath);
+        // Only document paths that actually reach this upstream through the gateway.
+        const owner = exposed && matchRoute(table, templated(exposed));
+        if (!exposed || !owner || (owner.upstream || owner.name) !== upstream) continue;
+        paths[exposed] = Object.fromEntries(
+          Object.entries(rewriteRefs(item, renames) as Record<string, Json>).map(([method, operation]) => [
+            method,
+            {
+              ...operation,
+              tags: operation.tags?.length ? operation.tags.map((tag: string) => `${upstream}: ${tag}`) : [upstream],
+              ...(owner.auth ? { security: [{ bearerAuth: [] }] } : {}),
+              "x-gateway-route": owner.name,
+              ...(owner.roles ? { "x-required-roles": owner.roles } : {}),
+              ...(owner.scopes ? { "x-required-scopes": owner.scopes } : {}),
+            },
+          ]),
+        );
+        break;
+      }
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "SteamDashboard API",
+      version: "0.1.0",
+      description: unavailable.length
+        ? `Public API behind the gateway. Missing from this build of the document: ${unavailable.join(", ")}.`
+        : "Public API behind the gateway.",
+    },
+    servers: [{ url: "/" }],
+    paths: Object.fromEntries(Object.entries(paths).sort(([a], [b]) => a.localeCompare(b))),
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } },
+      schemas,
+    },
+  };
+}
+
+/**
+ * Fetches /openapi.json from every upstream and caches the merged result. A service that is
+ * down is listed in the description and retried on the next refresh.
+ */
+export function createDocsAggregator(table: RouteConfig[], options: DocsOptions) {
+  const upstreams = new Map<string, string>();
+  for (const route of table) upstreams.set(route.upstream || route.name, route.target);
+  let cached: { document: OpenApiDocument; expiresAt: number } | null = null;
+  let pending: Promise<OpenApiDocument> | null = null;
+
+  const fetchDocument = async (upstream: string, target: string) => {
+    try {
+      const resp = await fetch(new URL("/openapi.json", target), { signal: AbortSignal.timeout(options.fetchTimeoutMs) });
+      if (!resp.ok) throw new Error(`openapi.json returned ${resp.status}`);
+      return { upstream, document: (await resp.json()) as OpenApiDocument };
+    } catch (err) {
+      return { upstream, document: null, error: (err as Error).message };
+    }
+  };
+
+  const refresh = async () => {
+    const documents = await Promise.all(Array.from(upstreams.entries()).map(([upstream, target]) => fetchDocument(upstream, target)));
+    const document = mergeDocuments(table, documents);
+    cached = { document, expiresAt: Date.now() + options.cacheMs };
+    return document;
+  };
+
+  return {
+    async document() {
+      if (cached && cached.expiresAt > Date.now()) return cached.document;
+      pending ??= refresh().finally(() => (pending = null));
+      return pending;
+    },
+  };
+}
+
+// Pinned to one release with Subresource Integrity, so a changed or compromised file on the CDN is
+// refused instead of running on the docs page. Bump all three together (hashes: sha384 of the
+// files in the npm package).
+const swaggerUi = {
+  base: "https://unpkg.com/swagger-ui-dist@5.33.0",
+  css: "sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW",
+  bundle: "sha384-YDALVcy8kj8yltLBVi1vBiBAUqdxvus673gM8XKwiy6aDUJFXivF/KCufekjYbVf",
+};
+
+export function renderDocsPage(specUrl: string) {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>SteamDashboard API</title>
+    <link rel="stylesheet" href="${swaggerUi.base}/swagger-ui.css" integrity="${swaggerUi.css}" crossorigin="anonymous" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${swaggerUi.base}/swagger-ui-bundle.js" integrity="${swaggerUi.bundle}" crossorigin="anonymous"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: "#swagger-ui", persistAuthorization: true });
+    </script>
+  </body>
+</html>`;
+}
@@ -0,0 +1,87 @@
+import type express from "express";
+import { describe, expect, it, vi } from "vitest";
+import { consume, createRateLimiter, defaultRateLimitRules, matchRule, RateLimitStore, roleFor } from "./rateLimit";
+
+function memoryStore(): RateLimitStore {
+  const counts = new Map<string, number>();
+  return {
+    async increment(key) {
+      const next = (counts.get(key) || 0) + 1;
+      counts.set(key, next);
+      return next;
+    },
+  };
+}
+
+describe("matchRule", () => {
+  it("prefers the most specific prefix", () => {
+    expect(matchRule(defaultRateLimitRules, "/stats/players/123/friends")?.prefix).toBe("/stats/players");
+    expect(matchRule(defaultRateLimitRules, "/stats/games/570/summary")?.prefix).toBe("/stats");
+    expect(matchRule(defaultRateLimitRules, "/statsfoo")).toBeNull();
+  });
+
+  it("budgets public /auth calls per address and admin calls per user", () => {
+    expect(matchRule(defaultRateLimitRules, "/auth/steam/login")).toMatchObject({ keyBy: "ip", limits: { anonymous: 30 } });
+    expect(matchRule(defaultRateLimitRules, "/auth/admin/users")).toMatchObject({ keyBy: "user", limits: { admin: 60 } });
+  });
+});
+
+describe("consume", () => {
+  it("rejects once the role budget is spent and reports reset time", async () => {
+    const store = memoryStore();
+    const rule = { prefix: "/stats", keyBy: "user" as const, windowSeconds: 60, limits: { user: 2, admin: 5 } };
+    const now = 1_000_000;
+
+    const first = await consume(store, rule, "user", "sub:a", now);
+    const second = await consume(store, rule, "user", "sub:a", now);
+    const third = await consume(store, rule, "user", "sub:a", now);
+    expect(first?.remaining).toBe(1);
+    expect(second?.allowed).toBe(true);
+    expect(third?.allowed).toBe(false);
+    expect(third?.resetSeconds).toBe(20);
+
+    const admin = await consume(store, rule, "admin", "sub:b", now);
+    expect(admin?.limit).toBe(5);
+    expect(await consume(store, rule, "anonymous", "ip:1", now)).toBeNull();
+  });
+
+  it("maps roles to budgets", () => {
+    expect(roleFor(undefined)).toBe("anonymous");
+    expect(roleFor(["user"])).toBe("user");
+    expect(roleFor(["user", "admin"])).toBe("admin");
+  });
+});
+
+describe("createRateLimiter", () => {
+  const rules = [{ prefix: "/auth", keyBy: "ip" as const, windowSeconds: 60, limits: { anonymous: 1 } }];
+  const run = async (store: RateLimitStore, storeTimeoutMs?: number) => {
+    const limiter = createRateLimiter({ store, rules, storeTimeoutMs });
+    const req = { path: "/auth/login", ip: "203.0.113.7" } as express.Request;
+    const res = { set: vi.fn(), status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const next = vi.fn();
+    await limiter(req, res as unknown as express.Response, next);
+    return { res, next };
+  };
+
+  it("lets requests through when the store throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { next, res } = await run({ increment: () => Promise.reject(new Error("ECONNREFUSED")) });
+    expect(next).toHaveBeenCalledOnce();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("lets requests through when the store never answers", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { next, res } = await run({ increment: () => new Promise<number>(() => {}) }, 20);
+    expect(next).toHaveBeenCalledOnce();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("rejects over-limit requests with 429", async () => {
+    const store = memoryStore();
+    await run(store);
+    const { next, res } = await run(store);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(429);
+  });
+});
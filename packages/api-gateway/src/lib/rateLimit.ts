@@ -0,0 +1,145 @@
+import type express from "express";
+
+export type RateLimitRole = "anonymous" | "user" | "admin";
+
+export interface RateLimitRule {
+  // Path prefix as seen by the gateway (before any proxy rewrite), e.g. "/stats/players"
+  prefix: string;
+  // "user" keys by the JWT `sub`, "ip" by the client address (for unauthenticated routes like /auth/*)
+  keyBy: "user" | "ip";
+  windowSeconds: number;
+  limits: Partial<Record<RateLimitRole, number>>;
+}
+
+export interface RateLimitStore {
+  increment(key: string, windowSeconds: number): Promise<number>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+export const defaultRateLimitRules: RateLimitRule[] = [
+  // /auth is public at the gateway (no req.user), so every caller there is anonymous.
+  { prefix: "/auth", keyBy: "ip", windowSeconds: 60, limits: { anonymous: 30 } },
+  { prefix: "/auth/admin", keyBy: "user", windowSeconds: 60, limits: { user: 30, admin: 60 } },
+  { prefix: "/stats/live/dota/featured", keyBy: "user", windowSeconds: 60, limits: { user: 20, admin: 120 } },
+  { prefix: "/stats/players", keyBy: "user", windowSeconds: 60, limits: { user: 30, admin: 120 } },
+  { prefix: "/stats/spotlight", keyBy: "user", windowSeconds: 60, limits: { user: 60, admin: 240 } },
+  { prefix: "/stats", keyBy: "user", windowSeconds: 60, limits: { user: 120, admin: 600 } },
+  { prefix: "/metadata", keyBy: "user", windowSeconds: 60, limits: { user: 120, admin: 600 } },
+  { prefix: "/live", keyBy: "user", windowSeconds: 60, limits: { user: 60, admin: 240 } },
+];
+
+export function parseRateLimitRules(raw: string | undefined): RateLimitRule[] {
+  if (!raw) return defaultRateLimitRules;
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error("RATE_LIMIT_RULES must be a JSON array");
+  }
+  return parsed.map((rule: any) => ({
+    prefix: String(rule.prefix),
+    keyBy: rule.keyBy === "ip" ? "ip" : "user",
+    windowSeconds: Number(rule.windowSeconds) || 60,
+    limits: rule.limits || {},
+  }));
+}
+
+// Longest matching prefix wins so specific budgets (e.g. /stats/players) override broad ones (/stats).
+export function matchRule(rules: RateLimitRule[], path: string): RateLimitRule | null {
+  let best: RateLimitRule | null = null;
+  for (const rule of rules) {
+    if (path !== rule.prefix && !path.startsWith(`${rule.prefix}/`)) continue;
+    if (!best || rule.prefix.length > best.prefix.length) best = rule;
+  }
+  return best;
+}
+
+export function roleFor(roles: string[] | undefined): RateLimitRole {
+  if (!roles || roles.length === 0) return "anonymous";
+  return roles.includes("admin") ? "admin" : "user";
+}
+
+export async function consume(
+  store: RateLimitStore,
+  rule: RateLimitRule,
+  role: RateLimitRole,
+  identity: string,
+  now = Date.now(),
+): Promise<RateLimitDecision | null> {
+  const limit = rule.limits[role];
+  if (limit === undefined) return null;
+  const windowMs = rule.windowSeconds * 1000;
+  const windowIndex = Math.floor(now / windowMs);
+  const resetSeconds = Math.max(1, Math.ceil(((windowIndex + 1) * windowMs - now) / 1000));
+  const count = await store.increment(`ratelimit:${rule.prefix}:${role}:${identity}:${windowIndex}`, rule.windowSeconds);
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetSeconds,
+  };
+}
+
+// Fixed-window counters in Redis so every gateway replica shares the same budget.
+export function redisRateLimitStore(redis: {
+  multi(): { incr(key: string): any; expire(key: string, seconds: number): any; exec(): Promise<unknown[]> };
+}): RateLimitStore {
+  return {
+    async increment(key, windowSeconds) {
+      const [count] = await redis.multi().incr(key).expire(key, windowSeconds + 1).exec();
+      return Number(count);
+    },
+  };
+}
+
+// A store that neither answers nor fails (e.g. a client queueing commands while Redis reconnects).
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`rate limit store did not answer within ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function createRateLimiter(options: {
+  store: RateLimitStore;
+  rules: RateLimitRule[];
+  onLimited?: (rule: RateLimitRule, role: RateLimitRole) => void;
+  // How long a request waits on the store before it is let through unlimited.
+  storeTimeoutMs?: number;
+}) {
+  const { store, rules, onLimited, storeTimeoutMs = 500 } = options;
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const rule = matchRule(rules, req.path);
+    if (!rule) return next();
+    const user = (req as any).user as { sub?: string; roles?: string[] } | undefined;
+    const role = roleFor(user?.roles);
+    const identity = rule.keyBy === "ip" || !user?.sub ? `ip:${req.ip}` : `sub:${user.sub}`;
+    let decision: RateLimitDecision | null;
+    try {
+      decision = await withTimeout(consume(store, rule, role, identity), storeTimeoutMs);
+    } catch (err) {
+      // Fail open: a Redis outage or stall should not take the whole API down with it.
+      console.error("[rate-limit] store error", err);
+      return next();
+    }
+    if (!decision) return next();
+    res.set("X-RateLimit-Limit", String(decision.limit));
+    res.set("X-RateLimit-Remaining", String(decision.remaining));
+    res.set("X-RateLimit-Reset", String(decision.resetSeconds));
+    if (!decision.allowed) {
+      onLimited?.(rule, role);
+      res.set("Retry-After", String(decision.resetSeconds));
+      return res.status(429).json({
+        error: "rate_limited",
+        message: `Too many requests to ${rule.prefix}; retry in ${decision.resetSeconds}s`,
+        retryAfter: decision.resetSeconds,
+      });
+    }
+    next();
+  };
+}
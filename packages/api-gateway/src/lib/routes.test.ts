@@ -0,0 +1,220 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import express from "express";
+import { defaultBreakerOptions } from "./circuitBreaker";
+import { createRouteGuard, createRouteProxy, GatewayUser, interpolateEnv, loadRouteTable, matchRoute, parseRouteTable } from "./routes";
+import { createUpstreamRegistry } from "./upstreams";
+
+describe("route table", () => {
+  it("loads the shipped config with env-provided targets", () => {
+    const table = loadRouteTable(path.resolve(__dirname, "../../config/routes.json"), {
+      STATS_SERVICE_URL: "http://game-stats-service:4004",
+    });
+    expect(matchRoute(table, "/stats/spotlight/570")?.name).toBe("stats-spotlight");
+    expect(matchRoute(table, "/stats/games/570/summary")?.target).toBe("http://game-stats-service:4004");
+    expect(matchRoute(table, "/auth/steam/login")?.auth).toBe(false);
+    expect(matchRoute(table, "/metadata")?.name).toBe("metadata");
+    expect(matchRoute(table, "/metadatax")).toBeNull();
+    expect(matchRoute(table, "/stats/players/me/stats")?.scopes).toEqual(["stats:read"]);
+    expect(matchRoute(table, "/stats/cache/games/570")?.scopes).toEqual(["cache:purge"]);
+    expect(matchRoute(table, "/auth/admin/users")?.scopes).toEqual(["users:manage"]);
+  });
+
+  it("expands env defaults", () => {
+    expect(interpolateEnv("${MISSING:-http://localhost:1}", {})).toBe("http://localhost:1");
+    expect(interpolateEnv("${SET:-x}", { SET: "http://svc" })).toBe("http://svc");
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => parseRouteTable({ routes: [{ prefix: "stats", target: "http://x", auth: true }] })).toThrow(/prefix/);
+    expect(() => parseRouteTable({ routes: [{ prefix: "/x", target: "${NOPE}", auth: true }] }, {})).toThrow(/target/);
+    expect(() => parseRouteTable({ routes: [{ prefix: "/x", target: "http://x" }] })).toThrow(/auth/);
+  });
+});
+
+describe("route guard", () => {
+  const table = parseRouteTable({
+    routes: [
+      { prefix: "/open", target: "http://svc", auth: false },
+      { prefix: "/any", target: "http://svc", auth: true },
+      { prefix: "/purge", target: "http://svc", auth: true, scopes: ["cache:purge"] },
+    ],
+  });
+
+  // Runs the guard for `path` with a token that verifies to `user` (or fails when null).
+  const guard = async (path: string, user: GatewayUser | null) => {
+    const run = createRouteGuard(table, async () => user);
+    const result = { status: 0, body: null as any, next: false };
+    const res = {
+      locals: {},
+      status(code: number) {
+        result.status = code;
+        return this;
+      },
+      json(body: unknown) {
+        result.body = body;
+        return this;
+      },
+    } as unknown as express.Response;
+    await run({ path, headers: {} } as express.Request, res, () => {
+      result.next = true;
+    });
+    return result;
+  };
+
+  it("lets any verified token through routes without scopes", async () => {
+    expect((await guard("/open/x", null)).next).toBe(true);
+    expect((await guard("/any/x", { sub: "p1" })).next).toBe(true);
+    expect((await guard("/any/x", null)).status).toBe(401);
+  });
+
+  it("rejects tokens missing a route's scopes and names them", async () => {
+    const denied = await guard("/purge/x", { sub: "p1", roles: ["admin"], scopes: ["stats:read"] });
+    expect(denied.status).toBe(403);
+    expect(denied.body).toMatchObject({ error: "forbidden", missingScopes: ["cache:purge"] });
+    expect((await guard("/purge/x", { sub: "p1", scopes: ["cache:purge"] })).next).toBe(true);
+  });
+});
+
+describe("route proxy", () => {
+  const listen = (server: http.Server) =>
+    new Promise<number>((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+
+  it("hands a half-open probe back when its client disconnects first", async () => {
+    // An upstream that never answers, so only the client can end the call.
+    const upstreamServer = http.createServer(() => undefined);
+    const upstreamPort = await listen(upstreamServer);
+    const table = parseRouteTable({ routes: [{ prefix: "/svc", target: `http://127.0.0.1:${upstreamPort}`, auth: false }] });
+    const upstreams = createUpstreamRegistry(table, { ...defaultBreakerOptions, openMs: 0, halfOpenMaxCalls: 1 });
+    const app = express();
+    app.use(createRouteGuard(table, async () => null));
+    app.use(createRouteProxy(table, upstreams));
+    const gateway = http.createServer(app);
+    const port = await listen(gateway);
+    const breaker = upstreams.get(table[0])!.breaker;
+    breaker.forceOpen("test");
+
+    try {
+      await new Promise<void>((resolve) => {
+        const req = http.get(`http://127.0.0.1:${port}/svc/slow`);
+        req.on("error", () => resolve());
+        setTimeout(() => req.destroy(), 100);
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(breaker.state).toBe("half_open");
+      expect(breaker.tryAcquire()).toBe(true);
+    } finally {
+      gateway.closeAllConnections();
+      upstreamServer.closeAllConnections();
+      await Promise.all([new Promise((r) => gateway.close(r)), new Promise((r) => upstreamServer.close(r))]);
+    }
+  });
+
+  // A gateway in front of one upstream; `close` tears both down.
+  const startGateway = async (route: Record<string, unknown>, handler: http.RequestListener) => {
+    const upstreamServer = http.createServer(handler);
+    const upstreamPort = await listen(upstreamServer);
+    const table = parseRouteTable({ routes: [{ prefix: "/svc", target: `http://127.0.0.1:${upstreamPort}`, auth: false, ...route }] });
+    const upstreams = createUpstreamRegistry(table, defaultBreakerOptions);
+    const app = express();
+    app.use(createRouteGuard(table, async () => null));
+    app.use(createRouteProxy(table, upstreams));
+    const gateway = http.createServer(app);
+    const port = await listen(gateway);
+    const close = async () => {
+      gateway.closeAllConnections();
+      upstreamServer.closeAllConnections();
+      await Promise.all([new Promise((r) => gateway.close(r)), new Promise((r) => upstreamServer.close(r))]);
+    };
+    return { port, breaker: upstreams.get(table[0])!.breaker, close };
+  };
+
+  // Sends `chunks` as a chunked body (no Content-Length) and resolves with the response.
+  const send = (port: number, method: string, chunks: string[] = []) =>
+    new Promise<{ status: number; body: any }>((resolve, reject) => {
+      const req = http.request({ port, host: "127.0.0.1", method, path: "/svc/upload" }, (res) => {
+        let raw = "";
+        res.on("data", (chunk) => (raw += chunk));
+        res.on("end", () => resolve({ status: res.statusCode || 0, body: raw ? JSON.parse(raw) : null }));
+      });
+      req.on("error", reject);
+      for (const chunk of chunks) req.write(chunk);
+      req.end();
+    });
+
+  it("rejects chunked bodies on routes that take none", async () => {
+    const upstream = vi.fn((_req: http.IncomingMessage, res: http.ServerResponse) => res.end("{}"));
+    const gateway = await startGateway({ maxBodyBytes: 0 }, upstream);
+    try {
+      expect((await send(gateway.port, "POST", ["x"])).status).toBe(413);
+      expect(upstream).not.toHaveBeenCalled();
+    } finally {
+      await gateway.close();
+    }
+  });
+
+  it("cuts off a chunked body once it passes the limit, without blaming the upstream", async () => {
+    let uploaded = 0;
+    const gateway = await startGateway({ maxBodyBytes: 10 }, (req, res) => {
+      req.on("data", (chunk) => (uploaded += chunk.length));
+      req.on("end", () => res.end("{}"));
+    });
+    try {
+      const response = await send(gateway.port, "POST", ["12345678", "12345678"]);
+      expect(response).toEqual({ status: 413, body: { error: "payload_too_large", limit: 10 } });
+      expect(uploaded).toBeLessThanOrEqual(10);
+      expect(gateway.breaker.snapshot().state).toBe("closed");
+      expect((await send(gateway.port, "POST", ["12345"])).status).toBe(200);
+    } finally {
+      await gateway.close();
+    }
+  });
+
+  it("answers 504 only when the route's timeout fired", async () => {
+    const slow = await startGateway({ timeoutMs: 50 }, () => undefined);
+    const reset = await startGateway({ timeoutMs: 5_000 }, (req) => req.socket.destroy());
+    try {
+      expect((await send(slow.port, "GET")).body).toMatchObject({ error: "upstream_timeout" });
+      const dropped = await send(reset.port, "GET");
+      expect(dropped.status).toBe(502);
+      expect(dropped.body).toMatchObject({ error: "bad_gateway" });
+    } finally {
+      await Promise.all([slow.close(), reset.close()]);
+    }
+  });
+
+  it("forwards only the resolved client address in X-Forwarded-For", async () => {
+    let forwardedFor: string | undefined;
+    const upstreamServer = http.createServer((req, res) => {
+      forwardedFor = req.headers["x-forwarded-for"] as string | undefined;
+      res.end("ok");
+    });
+    const upstreamPort = await listen(upstreamServer);
+    const table = parseRouteTable({
+      routes: [{ prefix: "/auth", target: `http://127.0.0.1:${upstreamPort}`, auth: false, xfwd: true }],
+    });
+    const app = express();
+    app.set("trust proxy", 1);
+    app.use(createRouteGuard(table, async () => null));
+    app.use(createRouteProxy(table, createUpstreamRegistry(table, defaultBreakerOptions)));
+    const gateway = http.createServer(app);
+    const port = await listen(gateway);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        http
+          .get(`http://127.0.0.1:${port}/auth/me`, { headers: { "x-forwarded-for": "10.9.9.9, 198.51.100.4" } }, (res) => {
+            res.resume();
+            res.on("end", () => resolve());
+          })
+          .on("error", reject);
+      });
+      expect(forwardedFor).toBe("198.51.100.4");
+    } finally {
+      gateway.closeAllConnections();
+      await Promise.all([new Promise((r) => gateway.close(r)), new Promise((r) => upstreamServer.close(r))]);
+    }
+  });
+});
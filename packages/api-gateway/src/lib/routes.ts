@@ -0,0 +1,253 @@
+import fs from "fs";
+import type express from "express";
+import { createProxyMiddleware, RequestHandler } from "http-proxy-middleware";
+import type { JWTPayload } from "jose";
+import type { TokenVerifier } from "./auth";
+import type { UpstreamRegistry } from "./upstreams";
+
+export interface RouteConfig {
+  name: string;
+  // Path prefix as seen by the gateway; longest matching prefix wins.
+  prefix: string;
+  target: string;
+  // Upstream service name for circuit breaking and health checks; defaults to `name`.
+  upstream?: string;
+  healthPath?: string;
+  pathRewrite?: Record<string, string>;
+  changeOrigin?: boolean;
+  // Send X-Forwarded-* upstream. X-Forwarded-For carries only the client address the gateway
+  // resolved, so the upstream trusts one hop (the gateway) and never sees client-written entries.
+  xfwd?: boolean;
+  auth: boolean;
+  // Caller needs at least one of these roles (when set). Prefer scopes; roles are coarse.
+  roles?: string[];
+  // Caller needs every one of these scopes (when set), e.g. "stats:read".
+  scopes?: string[];
+  // Upstream response timeout; omit for streaming routes (SSE).
+  timeoutMs?: number;
+  // Max request body in bytes; 0 rejects any body, omit for no limit.
+  maxBodyBytes?: number;
+}
+
+export type GatewayUser = JWTPayload & { steamId?: string; roles?: string[]; scopes?: string[] };
+
+// Expands ${VAR} and ${VAR:-default} so targets can follow the same env vars as docker-compose.
+export function interpolateEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => env[name] || fallback || "");
+}
+
+export function parseRouteTable(raw: unknown, env: NodeJS.ProcessEnv = process.env): RouteConfig[] {
+  const routes = (raw as { routes?: unknown })?.routes;
+  if (!Array.isArray(routes)) {
+    throw new Error("route table must contain a `routes` array");
+  }
+  const seen = new Set<string>();
+  return routes.map((route: any, index: number) => {
+    const where = `routes[${index}]`;
+    if (typeof route?.prefix !== "string" || !route.prefix.startsWith("/")) {
+      throw new Error(`${where}.prefix must be a path starting with "/"`);
+    }
+    if (seen.has(route.prefix)) {
+      throw new Error(`${where}.prefix ${route.prefix} is declared twice`);
+    }
+    seen.add(route.prefix);
+    if (typeof route.target !== "string" || !route.target) {
+      throw new Error(`${where}.target is required`);
+    }
+    if (typeof route.auth !== "boolean") {
+      throw new Error(`${where}.auth must be true or false`);
+    }
+    const target = interpolateEnv(route.target, env);
+    if (!/^https?:\/\//.test(target)) {
+      throw new Error(`${where}.target resolved to "${target}", expected an http(s) URL`);
+    }
+    return {
+      name: String(route.name || route.prefix),
+      prefix: route.prefix.replace(/\/+$/, "") || "/",
+      target,
+      upstream: route.upstream === undefined ? undefined : String(route.upstream),
+      healthPath: route.healthPath === undefined ? undefined : String(route.healthPath),
+      pathRewrite: route.pathRewrite,
+      changeOrigin: route.changeOrigin ?? true,
+      xfwd: route.xfwd ?? false,
+      auth: route.auth,
+      roles: Array.isArray(route.roles) ? route.roles.map(String) : undefined,
+      scopes: Array.isArray(route.scopes) ? route.scopes.map(String) : undefined,
+      timeoutMs: route.timeoutMs === undefined ? undefined : Number(route.timeoutMs),
+      maxBodyBytes: route.maxBodyBytes === undefined ? undefined : Number(route.maxBodyBytes),
+    };
+  });
+}
+
+export function loadRouteTable(file: string, env: NodeJS.ProcessEnv = process.env): RouteConfig[] {
+  return parseRouteTable(JSON.parse(fs.readFileSync(file, "utf8")), env);
+}
+
+export function matchRoute(table: RouteConfig[], path: string): RouteConfig | null {
+  let best: RouteConfig | null = null;
+  for (const route of table) {
+    if (path !== route.prefix && !path.startsWith(`${route.prefix}/`)) continue;
+    if (!best || route.prefix.length > best.prefix.length) best = route;
+  }
+  return best;
+}
+
+// Scopes from `required` that the token does not carry.
+export function missingScopes(user: GatewayUser, required: string[]): string[] {
+  const granted = user.scopes || [];
+  return required.filter((scope) => !granted.includes(scope));
+}
+
+export function getRoute(res: express.Response): RouteConfig | undefined {
+  return res.locals.gatewayRoute as RouteConfig | undefined;
+}
+
+/**
+ * Resolves the route for the request and enforces auth, role/scope requirements and the
+ * body size limit declared for it. Unmatched paths fall through untouched.
+ */
+export function createRouteGuard(table: RouteConfig[], verifyToken: TokenVerifier) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const route = matchRoute(table, req.path);
+    if (!route) return next();
+    res.locals.gatewayRoute = route;
+
+    if (route.maxBodyBytes !== undefined) {
+      // A chunked body has no declared length; the proxy counts it as it streams (see createRouteProxy).
+      const length = Number(req.headers["content-length"] || 0);
+      const chunkedWhenNone = route.maxBodyBytes === 0 && req.headers["transfer-encoding"] !== undefined;
+      if (length > route.maxBodyBytes || chunkedWhenNone) {
+        return res.status(413).json({ error: "payload_too_large", limit: route.maxBodyBytes });
+      }
+    }
+
+    if (!route.auth) return next();
+    const payload = await verifyToken(req.headers.authorization);
+    if (!payload) {
+      return res.status(401).json({ error: "unauthorized" });
+    }
+    const roles = payload.roles || [];
+    if (route.roles && !route.roles.some((role) => roles.includes(role))) {
+      return res.status(403).json({ error: "forbidden", route: route.name });
+    }
+    const missing = missingScopes(payload, route.scopes || []);
+    if (missing.length) {
+      return res.status(403).json({ error: "forbidden", route: route.name, missingScopes: missing });
+    }
+    (req as any).user = payload;
+    next();
+  };
+}
+
+export function createRouteProxy(table: RouteConfig[], upstreams: UpstreamRegistry) {
+  const proxies = new Map<string, RequestHandler>();
+  for (const route of table) {
+    const upstream = upstreams.get(route);
+    proxies.set(
+      route.prefix,
+      createProxyMiddleware({
+        target: route.target,
+        changeOrigin: route.changeOrigin,
+        xfwd: route.xfwd,
+        pathRewrite: route.pathRewrite,
+        proxyTimeout: route.timeoutMs,
+        on: {
+          proxyReq: (proxyReq, req, res) => {
+            const clientIp = (req as any).clientIp as string | undefined;
+            if (route.xfwd && clientIp) proxyReq.setHeader("x-forwarded-for", clientIp);
+            // http-proxy aborts on proxyTimeout with a plain ECONNRESET; remember that it was the timer.
+            if (route.timeoutMs !== undefined) proxyReq.on("timeout", () => ((req as any).upstreamTimedOut = true));
+            const limit = route.maxBodyBytes;
+            if (limit === undefined) return;
+            // Registered before http-proxy pipes the body, so every chunk is counted.
+            let received = 0;
+            req.on("data", (chunk: Buffer) => {
+              received += chunk.length;
+              if (received <= limit || (req as any).bodyTooLarge) return;
+              (req as any).bodyTooLarge = true;
+              req.unpipe(proxyReq);
+              proxyReq.destroy();
+              const response = res as express.Response;
+              if (response.headersSent) return;
+              response.set("Connection", "close");
+              response.status(413).json({ error: "payload_too_large", limit });
+            });
+          },
+          // Time to response headers, so long-lived SSE streams are not counted as slow calls.
+          proxyRes: (proxyRes, req) => {
+            const startedAt = (req as any).upstreamStartedAt as number | undefined;
+            (req as any).upstreamReported = true;
+            upstream?.breaker.record({
+              failed: (proxyRes.statusCode || 0) >= 500,
+              latencyMs: startedAt ? Date.now() - startedAt : 0,
+            });
+          },
+          error: (err, req, res) => {
+            // We cut the upstream call off ourselves; the upstream did nothing wrong (the slot is
+            // handed back when the response closes).
+            if ((req as any).bodyTooLarge) return;
+            const startedAt = (req as any).upstreamStartedAt as number | undefined;
+            (req as any).upstreamReported = true;
+            upstream?.breaker.record({ failed: true, latencyMs: startedAt ? Date.now() - startedAt : 0 });
+            const timedOut = Boolean((req as any).upstreamTimedOut);
+            // Websocket upgrades hand us a raw socket; there is no response to write to.
+            if (!("headersSent" in res) || res.headersSent) return;
+            (res as express.Response).status(timedOut ? 504 : 502).json({
+              error: timedOut ? "upstream_timeout" : "bad_gateway",
+              upstream: route.name,
+              message: err.message,
+            });
+          },
+        },
+      }),
+    );
+  }
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const route = getRoute(res);
+    const proxy = route && proxies.get(route.prefix);
+    if (!route || !proxy) return next();
+    const upstream = upstreams.get(route);
+    if (upstream && !upstream.breaker.tryAcquire()) {
+      const snapshot = upstream.breaker.snapshot();
+      const retryAfter = Math.max(1, Math.ceil(snapshot.retryAfterMs / 1000));
+      res.set("Retry-After", String(retryAfter));
+      return res.status(503).json({
+        error: "upstream_unavailable",
+        upstream: upstream.name,
+        state: snapshot.state,
+        reason: snapshot.openReason,
+        retryAfter,
+      });
+    }
+    (req as any).upstreamStartedAt = Date.now();
+    // Read before http-proxy appends to X-Forwarded-For, which would change what req.ip resolves to.
+    (req as any).clientIp = req.ip;
+    if (upstream) {
+      // A client that disconnects before the upstream answers surfaces as http-proxy's
+      // `econnreset`, not `proxyRes` or `error`; hand the acquired slot back regardless.
+      res.on("close", () => {
+        if (!(req as any).upstreamReported) upstream.breaker.release();
+      });
+    }
+    return proxy(req, res, next);
+  };
+}
+
+// Shape served at /admin/routes: everything that is enforced, nothing secret.
+export function describeRouteTable(table: RouteConfig[]) {
+  return table
+    .slice()
+    .sort((a, b) => a.prefix.localeCompare(b.prefix))
+    .map((route) => ({
+      name: route.name,
+      prefix: route.prefix,
+      target: route.target,
+      upstream: route.upstream || route.name,
+      pathRewrite: route.pathRewrite || null,
+      auth: route.auth,
+      roles: route.roles || null,
+      scopes: route.scopes || null,
+      timeoutMs: route.timeoutMs ?? null,
+      maxBodyBytes: route.maxBodyBytes ?? null,
+    }));
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { resolveStoreLocale, steamLanguage } from "./storeLocale";
+
+describe("steamLanguage", () => {
+  it("maps preference codes and passes Steam names through", () => {
+    expect(steamLanguage("de")).toBe("german");
+    expect(steamLanguage("pt-BR")).toBe("brazilian");
+    expect(steamLanguage("fr-CA")).toBe("french");
+    expect(steamLanguage("schinese")).toBe("schinese");
+    expect(steamLanguage("xx")).toBeNull();
+  });
+});
+
+describe("resolveStoreLocale", () => {
+  it("lets query parameters override the preference headers", () => {
+    const result = resolveStoreLocale({ cc: "fr" }, { country: "DE", language: "de" });
+    expect(result).toEqual({ ok: true, locale: { cc: "FR", language: "german" } });
+  });
+
+  it("leaves the locale empty when nothing is given", () => {
+    expect(resolveStoreLocale({}, {})).toEqual({ ok: true, locale: {} });
+  });
+
+  it("rejects values it cannot map", () => {
+    expect(resolveStoreLocale({ cc: "DEU" }, {}).ok).toBe(false);
+    expect(resolveStoreLocale({}, { language: "klingon" }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import type express from "express";
+
+// Headers the gateway forwards to services, already normalised: an ISO 3166 country code
+// for `cc` and a Steam store language name for `l`.
+export const storeCountryHeader = "x-store-country";
+export const storeLanguageHeader = "x-store-language";
+
+// ISO 639 codes (as saved in preferences) to the names the Steam store API takes.
+export const steamLanguages: Record<string, string> = {
+  ar: "arabic",
+  bg: "bulgarian",
+  cs: "czech",
+  da: "danish",
+  de: "german",
+  el: "greek",
+  en: "english",
+  es: "spanish",
+  "es-419": "latam",
+  fi: "finnish",
+  fr: "french",
+  hu: "hungarian",
+  id: "indonesian",
+  it: "italian",
+  ja: "japanese",
+  ko: "koreana",
+  nl: "dutch",
+  no: "norwegian",
+  pl: "polish",
+  pt: "portuguese",
+  "pt-br": "brazilian",
+  ro: "romanian",
+  ru: "russian",
+  sv: "swedish",
+  th: "thai",
+  tr: "turkish",
+  uk: "ukrainian",
+  vi: "vietnamese",
+  zh: "schinese",
+  "zh-cn": "schinese",
+  "zh-tw": "tchinese",
+};
+
+const steamLanguageNames = new Set(Object.values(steamLanguages));
+
+export interface StoreLocale {
+  cc?: string;
+  language?: string;
+}
+
+export type StoreLocaleResult = { ok: true; locale: StoreLocale } | { ok: false; message: string };
+
+// "pt-BR" → "brazilian", "pt" → "portuguese", and Steam's own names pass through.
+export function steamLanguage(value: string): string | null {
+  const lower = value.trim().toLowerCase();
+  if (steamLanguageNames.has(lower)) return lower;
+  return steamLanguages[lower] || steamLanguages[lower.split("-")[0]] || null;
+}
+
+/**
+ * Picks the store country and language for a request: the `cc` and `l` query parameters win
+ * over the X-Store-Country / X-Store-Language headers the web app sets from preferences.
+ * Anything given but not understood is an error rather than a silent fallback to US prices.
+ */
+export function resolveStoreLocale(query: { cc?: unknown; l?: unknown }, headers: { country?: unknown; language?: unknown }): StoreLocaleResult {
+  const pick = (...values: unknown[]) => values.find((v) => typeof v === "string" && v.trim() !== "") as string | undefined;
+  const country = pick(query.cc, headers.country);
+  const language = pick(query.l, headers.language);
+  const locale: StoreLocale = {};
+  if (country !== undefined) {
+    if (!/^[A-Za-z]{2}$/.test(country.trim())) return { ok: false, message: `unknown store country "${country}"` };
+    locale.cc = country.trim().toUpperCase();
+  }
+  if (language !== undefined) {
+    const name = steamLanguage(language);
+    if (!name) return { ok: false, message: `unknown store language "${language}"` };
+    locale.language = name;
+  }
+  return { ok: true, locale };
+}
+
+/** Replaces the client's locale headers with the resolved ones before the request is proxied. */
+export function storeLocaleMiddleware() {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const result = resolveStoreLocale(req.query as Record<string, unknown>, {
+      country: req.headers[storeCountryHeader],
+      language: req.headers[storeLanguageHeader],
+    });
+    if (!result.ok) return res.status(400).json({ error: "invalid_locale", message: result.message });
+    delete req.headers[storeCountryHeader];
+    delete req.headers[storeLanguageHeader];
+    if (result.locale.cc) req.headers[storeCountryHeader] = result.locale.cc;
+    if (result.locale.language) req.headers[storeLanguageHeader] = result.locale.language;
+    next();
+  };
+}
@@ -0,0 +1,127 @@
+import { BreakerOptions, CircuitBreaker, createCircuitBreaker, defaultBreakerOptions } from "./circuitBreaker";
+import type { RouteConfig } from "./routes";
+
+export interface Upstream {
+  name: string;
+  target: string;
+  healthPath: string;
+  breaker: CircuitBreaker;
+  healthy: boolean | null;
+  lastHealthCheckAt: number | null;
+  lastHealthError: string | null;
+  consecutiveHealthFailures: number;
+}
+
+export interface HealthCheckOptions {
+  intervalMs: number;
+  timeoutMs: number;
+  // Consecutive failed checks before the breaker is forced open.
+  failureThreshold: number;
+}
+
+export const defaultHealthCheckOptions: HealthCheckOptions = {
+  intervalMs: 10_000,
+  timeoutMs: 2_000,
+  failureThreshold: 3,
+};
+
+export function breakerOptionsFromEnv(env: NodeJS.ProcessEnv): BreakerOptions {
+  const num = (name: string, fallback: number) => (env[name] ? Number(env[name]) : fallback);
+  return {
+    windowMs: num("BREAKER_WINDOW_MS", defaultBreakerOptions.windowMs),
+    minRequests: num("BREAKER_MIN_REQUESTS", defaultBreakerOptions.minRequests),
+    errorRateThreshold: num("BREAKER_ERROR_RATE", defaultBreakerOptions.errorRateThreshold),
+    slowCallMs: num("BREAKER_SLOW_CALL_MS", defaultBreakerOptions.slowCallMs),
+    slowCallRateThreshold: num("BREAKER_SLOW_CALL_RATE", defaultBreakerOptions.slowCallRateThreshold),
+    openMs: num("BREAKER_OPEN_MS", defaultBreakerOptions.openMs),
+    halfOpenMaxCalls: num("BREAKER_HALF_OPEN_CALLS", defaultBreakerOptions.halfOpenMaxCalls),
+  };
+}
+
+/**
+ * One breaker and health checker per upstream service. Routes that share an `upstream`
+ * name (e.g. /stats and /stats/spotlight) share a breaker.
+ */
+export function createUpstreamRegistry(
+  table: RouteConfig[],
+  breakerOptions: BreakerOptions = defaultBreakerOptions,
+  healthOptions: HealthCheckOptions = defaultHealthCheckOptions,
+) {
+  const upstreams = new Map<string, Upstream>();
+  for (const route of table) {
+    const name = route.upstream || route.name;
+    const existing = upstreams.get(name);
+    if (existing) {
+      if (existing.target !== route.target) {
+        throw new Error(`upstream ${name} is declared with two targets: ${existing.target} and ${route.target}`);
+      }
+      continue;
+    }
+    upstreams.set(name, {
+      name,
+      target: route.target,
+      healthPath: route.healthPath || "/health",
+      breaker: createCircuitBreaker(breakerOptions),
+      healthy: null,
+      lastHealthCheckAt: null,
+      lastHealthError: null,
+      consecutiveHealthFailures: 0,
+    });
+  }
+
+  const check = async (upstream: Upstream) => {
+    upstream.lastHealthCheckAt = Date.now();
+    try {
+      const resp = await fetch(new URL(upstream.healthPath, upstream.target), {
+        signal: AbortSignal.timeout(healthOptions.timeoutMs),
+      });
+      if (!resp.ok) throw new Error(`health check returned ${resp.status}`);
+      upstream.healthy = true;
+      upstream.lastHealthError = null;
+      upstream.consecutiveHealthFailures = 0;
+    } catch (err) {
+      upstream.consecutiveHealthFailures += 1;
+      upstream.lastHealthError = (err as Error).message;
+      if (upstream.consecutiveHealthFailures >= healthOptions.failureThreshold) {
+        upstream.healthy = false;
+        upstream.breaker.forceOpen(`${upstream.consecutiveHealthFailures} failed health checks`);
+      }
+    }
+  };
+
+  return {
+    get(route: RouteConfig) {
+      return upstreams.get(route.upstream || route.name);
+    },
+
+    list() {
+      return Array.from(upstreams.values());
+    },
+
+    checkAll() {
+      return Promise.all(Array.from(upstreams.values()).map(check));
+    },
+
+    startHealthChecks() {
+      this.checkAll().catch(() => undefined);
+      const timer = setInterval(() => {
+        this.checkAll().catch(() => undefined);
+      }, healthOptions.intervalMs);
+      timer.unref();
+    },
+
+    describe() {
+      return Array.from(upstreams.values()).map((u) => ({
+        name: u.name,
+        target: u.target,
+        healthy: u.healthy,
+        lastHealthCheckAt: u.lastHealthCheckAt === null ? null : new Date(u.lastHealthCheckAt).toISOString(),
+        lastHealthError: u.lastHealthError,
+        consecutiveHealthFailures: u.consecutiveHealthFailures,
+        breaker: u.breaker.snapshot(),
+      }));
+    },
+  };
+}
+
+export type UpstreamRegistry = ReturnType<typeof createUpstreamRegistry>;
@@ -0,0 +1,86 @@
+import { EventEmitter } from "events";
+import type express from "express";
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { createUsageRecorder, routeTemplate, usageRoute } from "./usage";
+
+describe("routeTemplate", () => {
+  it("collapses numeric and generated ids but keeps route words", () => {
+    expect(routeTemplate("/stats/players/76561198000000000/friends")).toBe("/stats/players/:id/friends");
+    expect(routeTemplate("/live/dota/matches/demo-3/stream")).toBe("/live/dota/matches/:id/stream");
+    expect(routeTemplate("/auth/me/sessions/V1StGXR8_Z5jdHi6B-myT")).toBe("/auth/me/sessions/:id");
+    expect(routeTemplate("/auth/me/sessions/3f2b8c1e-9d4a-4f6b-8e2a-1c5d7e9f0a2b")).toBe("/auth/me/sessions/:id");
+    expect(routeTemplate("/metadata/recommendations/me")).toBe("/metadata/recommendations/me");
+    expect(routeTemplate("/metadata/admin/catalog-sync/relist")).toBe("/metadata/admin/catalog-sync/relist");
+  });
+});
+
+describe("usageRoute", () => {
+  const stats = { name: "stats" };
+
+  it("names answered calls by route entry and template", () => {
+    expect(usageRoute(stats, "/stats/games/570/summary", 200)).toBe("stats /stats/games/:id/summary");
+    expect(usageRoute({ name: "auth" }, "/auth/steam/login", 302)).toBe("auth /auth/steam/login");
+  });
+
+  it("keeps made-up paths out of the labels", () => {
+    expect(usageRoute(undefined, "/nowhere/x1", 404)).toBe("unmatched");
+    expect(usageRoute({ name: "auth" }, "/auth/zq7", 404)).toBe("unmatched");
+    expect(usageRoute(stats, "/stats/k3j", 401)).toBe("stats");
+    expect(usageRoute(stats, "/stats/games/abc/summary", 400)).toBe("stats");
+    expect(usageRoute(stats, "/stats/games/570/summary", 502)).toBe("stats");
+  });
+});
+
+describe("createUsageRecorder", () => {
+  const call = (recorder: ReturnType<typeof createUsageRecorder>, path: string, statusCode = 200) => {
+    const req = { path, method: "GET" } as express.Request;
+    const name = path.split("/")[1];
+    const res = Object.assign(new EventEmitter(), { statusCode, locals: { gatewayRoute: name === "nowhere" ? undefined : { name } } });
+    recorder.middleware(req, res as unknown as express.Response, () => undefined);
+    res.emit("finish");
+  };
+  const counts = (params: unknown[]) => {
+    const [, routes, , , , requests] = params as [number[], string[], string[], string[], number[], number[]];
+    return Object.fromEntries(routes.map((route, i) => [route, requests[i]]));
+  };
+
+  it("writes the whole batch in one statement", async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+    const recorder = createUsageRecorder({ query } as unknown as Pool);
+    call(recorder, "/stats/games/570/summary");
+    call(recorder, "/stats/games/730/summary");
+    call(recorder, "/metadata/games");
+
+    await recorder.flush();
+    expect(query).toHaveBeenCalledOnce();
+    expect(counts(query.mock.calls[0][1])).toEqual({ "stats /stats/games/:id/summary": 2, "metadata /metadata/games": 1 });
+    await recorder.flush();
+    expect(query).toHaveBeenCalledOnce();
+  });
+
+  it("keeps a failed batch and merges it with later calls", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const query = vi.fn().mockRejectedValueOnce(new Error("connection terminated")).mockResolvedValue({ rows: [] });
+    const recorder = createUsageRecorder({ query } as unknown as Pool);
+    call(recorder, "/metadata/games");
+    call(recorder, "/metadata/games");
+    await recorder.flush();
+
+    call(recorder, "/metadata/games");
+    call(recorder, "/metadata/wishlist");
+    await recorder.flush();
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(counts(query.mock.calls[1][1])).toEqual({ "metadata /metadata/games": 3, "metadata /metadata/wishlist": 1 });
+  });
+
+  it("records unmatched calls and 404s under one label", async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+    const recorder = createUsageRecorder({ query } as unknown as Pool);
+    call(recorder, "/nowhere/a1", 404);
+    call(recorder, "/nowhere/b2", 404);
+    call(recorder, "/auth/c3", 404);
+    await recorder.flush();
+    expect(counts(query.mock.calls[0][1])).toEqual({ unmatched: 3 });
+  });
+});
@@ -0,0 +1,286 @@
+import type express from "express";
+import type { Pool } from "pg";
+import { getRoute } from "./routes";
+
+type UsageKey = {
+  bucket: number;
+  route: string;
+  method: string;
+  steamId: string;
+  statusCode: number;
+};
+
+type UsageTally = UsageKey & {
+  requests: number;
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+};
+
+export interface UsageFilters {
+  from: Date;
+  to: Date;
+  route?: string;
+  steamId?: string;
+  statusClass?: number;
+  top: number;
+}
+
+const hourMs = 60 * 60 * 1000;
+
+export async function ensureUsageSchema(pool: Pool) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS gateway_usage_hourly (
+      bucket TIMESTAMPTZ NOT NULL,
+      route TEXT NOT NULL,
+      method TEXT NOT NULL,
+      steam_id TEXT NOT NULL DEFAULT '',
+      status_code INTEGER NOT NULL,
+      request_count BIGINT NOT NULL DEFAULT 0,
+      total_latency_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+      max_latency_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+      PRIMARY KEY (bucket, route, method, steam_id, status_code)
+    );
+  `);
+  await pool.query(`CREATE INDEX IF NOT EXISTS gateway_usage_hourly_steam_id_idx ON gateway_usage_hourly (steam_id, bucket);`);
+}
+
+// Generated ids (nanoid session/family ids, UUIDs, hashes): long, and never all lowercase words
+// the way route segments are.
+const opaqueId = /^(?=.*[\d_A-Z])[\w-]{16,}$/;
+
+// Collapse ids in the path so usage rolls up per endpoint rather than per game/player/match/session.
+export function routeTemplate(path: string): string {
+  return path
+    .split("/")
+    .map((segment) => (/^\d+$/.test(segment) || /^demo-\d+$/.test(segment) || opaqueId.test(segment) ? ":id" : segment))
+    .join("/");
+}
+
+// Label for calls that matched no route or got a 404, whatever path they made up.
+export const unmatchedRoute = "unmatched";
+
+/**
+ * Names a call for usage rollups: the route table entry plus the path template. Only calls that
+ * were answered below 400 are known endpoints; failed ones count under the entry alone, so paths
+ * a caller invents cannot add labels.
+ */
+export function usageRoute(route: { name: string } | undefined, path: string, statusCode: number): string {
+  if (!route || statusCode === 404) return unmatchedRoute;
+  return statusCode < 400 ? `${route.name} ${routeTemplate(path)}` : route.name;
+}
+
+/**
+ * Tallies proxied calls in memory and periodically upserts them into hourly buckets,
+ * so each request costs a map lookup instead of a Postgres round trip.
+ */
+export function createUsageRecorder(pool: Pool, flushIntervalMs = 10_000) {
+  let pending = new Map<string, UsageTally>();
+
+  const tallyKey = (t: UsageKey) => `${t.bucket}|${t.route}|${t.method}|${t.steamId}|${t.statusCode}`;
+
+  const merge = (into: Map<string, UsageTally>, entry: UsageTally) => {
+    const key = tallyKey(entry);
+    const tally = into.get(key);
+    if (!tally) {
+      into.set(key, { ...entry });
+      return;
+    }
+    tally.requests += entry.requests;
+    tally.totalLatencyMs += entry.totalLatencyMs;
+    tally.maxLatencyMs = Math.max(tally.maxLatencyMs, entry.maxLatencyMs);
+  };
+
+  const record = (entry: UsageKey & { latencyMs: number }) => {
+    const { latencyMs, ...rest } = entry;
+    merge(pending, { ...rest, requests: 1, totalLatencyMs: latencyMs, maxLatencyMs: latencyMs });
+  };
+
+  // One statement per batch, so a failure writes nothing and the whole batch can go back into
+  // `pending` (merged with whatever was recorded meanwhile) for the next flush.
+  const flush = async () => {
+    if (!pending.size) return;
+    const batch = Array.from(pending.values());
+    pending = new Map();
+    try {
+      await pool.query(
+        `INSERT INTO gateway_usage_hourly (bucket, route, method, steam_id, status_code, request_count, total_latency_ms, max_latency_ms)
+         SELECT to_timestamp(bucket / 1000.0), route, method, steam_id, status_code, request_count, total_latency_ms, max_latency_ms
+         FROM unnest($1::bigint[], $2::text[], $3::text[], $4::text[], $5::int[], $6::bigint[], $7::float8[], $8::float8[])
+           AS t(bucket, route, method, steam_id, status_code, request_count, total_latency_ms, max_latency_ms)
+         ON CONFLICT (bucket, route, method, steam_id, status_code) DO UPDATE SET
+           request_count = gateway_usage_hourly.request_count + EXCLUDED.request_count,
+           total_latency_ms = gateway_usage_hourly.total_latency_ms + EXCLUDED.total_latency_ms,
+           max_latency_ms = GREATEST(gateway_usage_hourly.max_latency_ms, EXCLUDED.max_latency_ms);`,
+        [
+          batch.map((t) => t.bucket),
+          batch.map((t) => t.route),
+          batch.map((t) => t.method),
+          batch.map((t) => t.steamId),
+          batch.map((t) => t.statusCode),
+          batch.map((t) => t.requests),
+          batch.map((t) => t.totalLatencyMs),
+          batch.map((t) => t.maxLatencyMs),
+        ],
+      );
+    } catch (err) {
+      console.error("[usage] failed to flush usage buckets; keeping them for the next flush", err);
+      for (const t of batch) merge(pending, t);
+    }
+  };
+
+  const middleware = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const startedAt = process.hrtime.bigint();
+    res.on("finish", () => {
+      const user = (req as any).user as { steamId?: string } | undefined;
+      const now = Date.now();
+      record({
+        bucket: Math.floor(now / hourMs) * hourMs,
+        route: usageRoute(getRoute(res), req.path, res.statusCode),
+        method: req.method,
+        steamId: user?.steamId || "",
+        statusCode: res.statusCode,
+        latencyMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+      });
+    });
+    next();
+  };
+
+  const start = () => {
+    const timer = setInterval(() => {
+      flush().catch(() => undefined);
+    }, flushIntervalMs);
+    timer.unref();
+  };
+
+  return { middleware, flush, start };
+}
+
+export function parseUsageFilters(query: Record<string, unknown>): UsageFilters {
+  const parseDate = (value: unknown, fallback: Date) => {
+    if (!value) return fallback;
+    const raw = String(value);
+    const date = /^\d+$/.test(raw) ? new Date(Number(raw)) : new Date(raw);
+    return Number.isNaN(date.getTime()) ? fallback : date;
+  };
+  const to = parseDate(query.to, new Date());
+  const from = parseDate(query.from, new Date(to.getTime() - 24 * hourMs));
+  const statusClassRaw = query.statusClass ? String(query.statusClass).charAt(0) : "";
+  const statusClass = /^[1-5]$/.test(statusClassRaw) ? Number(statusClassRaw) : undefined;
+  const top = Math.min(100, Math.max(1, Number(query.top) || 10));
+  return {
+    from,
+    to,
+    route: query.route ? String(query.route) : undefined,
+    steamId: query.steamId ? String(query.steamId) : undefined,
+    statusClass,
+    top,
+  };
+}
+
+export async function queryUsage(pool: Pool, filters: UsageFilters) {
+  const clauses = ["bucket >= date_trunc('hour', $1::timestamptz)", "bucket <= $2"];
+  const params: unknown[] = [filters.from, filters.to];
+  if (filters.route) {
+    params.push(filters.route);
+    clauses.push(`route = $${params.length}`);
+  }
+  if (filters.steamId) {
+    params.push(filters.steamId);
+    clauses.push(`steam_id = $${params.length}`);
+  }
+  if (filters.statusClass) {
+    params.push(filters.statusClass);
+    clauses.push(`status_code / 100 = $${params.length}`);
+  }
+  const where = clauses.join(" AND ");
+  const aggregates = `
+    SUM(request_count)::bigint AS requests,
+    SUM(CASE WHEN status_code >= 500 THEN request_count ELSE 0 END)::bigint AS errors,
+    SUM(total_latency_ms) / NULLIF(SUM(request_count), 0) AS avg_latency_ms,
+    MAX(max_latency_ms) AS max_latency_ms`;
+  params.push(filters.top);
+  const limit = `$${params.length}`;
+
+  const [totals, series, routes, users, statuses] = await Promise.all([
+    pool.query(`SELECT ${aggregates} FROM gateway_usage_hourly WHERE ${where}`, params.slice(0, -1)),
+    pool.query(
+      `SELECT bucket, ${aggregates} FROM gateway_usage_hourly WHERE ${where} GROUP BY bucket ORDER BY bucket`,
+      params.slice(0, -1),
+    ),
+    pool.query(
+      `SELECT route, ${aggregates} FROM gateway_usage_hourly WHERE ${where} GROUP BY route ORDER BY requests DESC LIMIT ${limit}`,
+      params,
+    ),
+    pool.query(
+      `SELECT steam_id, ${aggregates} FROM gateway_usage_hourly WHERE ${where} AND steam_id <> '' GROUP BY steam_id ORDER BY requests DESC LIMIT ${limit}`,
+      params,
+    ),
+    pool.query(
+      `SELECT (status_code / 100) || 'xx' AS status_class, ${aggregates} FROM gateway_usage_hourly WHERE ${where} GROUP BY 1 ORDER BY 1`,
+      params.slice(0, -1),
+    ),
+  ]);
+
+  const mapRow = (row: any) => ({
+    requests: Number(row.requests || 0),
+    errors: Number(row.errors || 0),
+    avgLatencyMs: row.avg_latency_ms == null ? null : Math.round(Number(row.avg_latency_ms) * 10) / 10,
+    maxLatencyMs: row.max_latency_ms == null ? null : Math.round(Number(row.max_latency_ms) * 10) / 10,
+  });
+
+  return {
+    range: { from: filters.from.toISOString(), to: filters.to.toISOString() },
+    filters: { route: filters.route || null, steamId: filters.steamId || null, statusClass: filters.statusClass || null },
+    totals: mapRow(totals.rows[0] || {}),
+    series: series.rows.map((row: any) => ({ bucket: new Date(row.bucket).toISOString(), ...mapRow(row) })),
+    topRoutes: routes.rows.map((row: any) => ({ route: row.route, ...mapRow(row) })),
+    topUsers: users.rows.map((row: any) => ({ steamId: row.steam_id, ...mapRow(row) })),
+    statusClasses: statuses.rows.map((row: any) => ({ statusClass: row.status_class, ...mapRow(row) })),
+  };
+}
+
+// Hourly rows attributed to one user, for account data exports.
+export async function usageForSteamId(pool: Pool, steamId: string) {
+  const res = await pool.query(
+    `SELECT bucket, route, method, status_code, request_count FROM gateway_usage_hourly WHERE steam_id = $1 ORDER BY bucket, route`,
+    [steamId],
+  );
+  return res.rows.map((row: any) => ({
+    bucket: new Date(row.bucket).toISOString(),
+    route: row.route,
+    method: row.method,
+    statusCode: row.status_code,
+    requests: Number(row.request_count),
+  }));
+}
+
+// Folds a deleted user's rows into the anonymous ('') ones, so route totals stay correct.
+export async function anonymizeUsage(pool: Pool, steamId: string) {
+  const db = await pool.connect();
+  try {
+    await db.query("BEGIN");
+    const moved = await db.query(
+      `DELETE FROM gateway_usage_hourly WHERE steam_id = $1
+       RETURNING bucket, route, method, status_code, request_count, total_latency_ms, max_latency_ms`,
+      [steamId],
+    );
+    for (const row of moved.rows) {
+      await db.query(
+        `INSERT INTO gateway_usage_hourly (bucket, route, method, steam_id, status_code, request_count, total_latency_ms, max_latency_ms)
+         VALUES ($1, $2, $3, '', $4, $5, $6, $7)
+         ON CONFLICT (bucket, route, method, steam_id, status_code) DO UPDATE SET
+           request_count = gateway_usage_hourly.request_count + EXCLUDED.request_count,
+           total_latency_ms = gateway_usage_hourly.total_latency_ms + EXCLUDED.total_latency_ms,
+           max_latency_ms = GREATEST(gateway_usage_hourly.max_latency_ms, EXCLUDED.max_latency_ms);`,
+        [row.bucket, row.route, row.method, row.status_code, row.request_count, row.total_latency_ms, row.max_latency_ms],
+      );
+    }
+    await db.query("COMMIT");
+    return moved.rowCount ?? 0;
+  } catch (err) {
+    await db.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  } finally {
+    db.release();
+  }
+}
@@ -0,0 +1,244 @@
+import { createHash } from "crypto";
+import type { Pool } from "pg";
+
+export interface AccountHook {
+  // Key the service's data appears under in exports and tombstones, e.g. "stats".
+  name: string;
+  // Service base URL; it implements GET and DELETE `/internal/accounts/:steamId[/export]`.
+  url: string;
+}
+
+export type HookOutcome = { service: string; status: "ok"; result: unknown } | { service: string; status: "failed"; error: string };
+
+export interface Tombstone {
+  id: number;
+  steamIdHash: string;
+  requestedAt: string;
+  completedAt: string | null;
+  services: Record<string, HookOutcome>;
+}
+
+/**
+ * Parses `ACCOUNT_DATA_HOOKS`: comma-separated `name=baseUrl` pairs, one per service that keeps
+ * data about users (e.g. `stats=http://game-stats-service:4004`).
+ */
+export function parseAccountHooks(value: string): AccountHook[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, url] = entry.split("=", 2).map((part) => part?.trim());
+      if (!name || !url || !/^https?:\/\//.test(url)) {
+        throw new Error(`ACCOUNT_DATA_HOOKS entry "${entry}" must look like name=http://host:port`);
+      }
+      return { name, url: url.replace(/\/+$/, "") };
+    });
+}
+
+export type AccountDeletion =
+  | { status: "deleted"; tombstone: Tombstone; revokedAccessTokenIds: string[] }
+  | { status: "not_found" }
+  | { status: "last_admin" };
+
+// Tombstones keep a hash, not the SteamID, once every service has confirmed the deletion.
+export const hashSteamId = (steamId: string) => createHash("sha256").update(steamId).digest("hex");
+
+const mapTombstone = (row: any): Tombstone => ({
+  id: Number(row.id),
+  steamIdHash: row.steam_id_hash,
+  requestedAt: new Date(row.requested_at).toISOString(),
+  completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+  services: row.services,
+});
+
+const iso = (value: unknown) => (value ? new Date(value as string).toISOString() : null);
+
+/**
+ * Fans account export and deletion out to every service's internal hooks. Exports are best
+ * effort (a failed service is reported, not fatal). Deletions are recorded in
+ * `account_tombstones` and retried until every service has confirmed, so a service that was down
+ * during the request still gets purged.
+ */
+export function createAccountDataCoordinator(
+  pool: Pool,
+  options: { hooks: AccountHook[]; internalToken: string; timeoutMs: number; accessTokenTtlSeconds: number },
+) {
+  const call = async (hook: AccountHook, method: "GET" | "DELETE", path: string): Promise<HookOutcome> => {
+    try {
+      const res = await fetch(`${hook.url}${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${options.internalToken}` },
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) return { service: hook.name, status: "failed", error: body?.error || `HTTP ${res.status}` };
+      return { service: hook.name, status: "ok", result: body };
+    } catch (err) {
+      return { service: hook.name, status: "failed", error: (err as Error).message };
+    }
+  };
+
+  // `subject` is the deleted profile id, for services that key data by the token's `sub`.
+  const runDeletes = async (
+    id: number,
+    target: { steamId: string; profileId: string },
+    hooks: AccountHook[],
+    previous: Record<string, HookOutcome>,
+  ) => {
+    const path = `/internal/accounts/${target.steamId}?subject=${encodeURIComponent(target.profileId)}`;
+    const outcomes = await Promise.all(hooks.map((hook) => call(hook, "DELETE", path)));
+    const services = { ...previous, ...Object.fromEntries(outcomes.map((o) => [o.service, o])) };
+    const done = options.hooks.every((hook) => services[hook.name]?.status === "ok");
+    const res = await pool.query(
+      `UPDATE account_tombstones
+       SET services = $2, attempts = attempts + 1,
+         completed_at = CASE WHEN $3 THEN now() END,
+         steam_id = CASE WHEN $3 THEN NULL ELSE steam_id END
+       WHERE id = $1
+       RETURNING id, steam_id_hash, requested_at, completed_at, services`,
+      [id, services, done],
+    );
+    return mapTombstone(res.rows[0]);
+  };
+
+  // Re-runs the hooks that have not confirmed yet for unfinished tombstones.
+  const retryPending = async () => {
+    const pending = await pool.query(
+      `SELECT id, steam_id, profile_id, services FROM account_tombstones WHERE completed_at IS NULL AND steam_id IS NOT NULL ORDER BY id LIMIT 20`,
+    );
+    for (const row of pending.rows) {
+      const services = row.services as Record<string, HookOutcome>;
+      const remaining = options.hooks.filter((hook) => services[hook.name]?.status !== "ok");
+      const tombstone = await runDeletes(Number(row.id), { steamId: row.steam_id, profileId: row.profile_id }, remaining, services);
+      if (tombstone.completedAt) console.log(`[auth-service] account deletion ${tombstone.id} completed on retry`);
+    }
+  };
+
+  return {
+    // What auth-service itself keeps: the profile with its preferences, sessions and the role
+    // changes made to (or by) the account.
+    async exportLocal(profileId: string) {
+      const profile = await pool.query(
+        `SELECT id, steam_id, persona_name, avatar_url, roles, preferences, created_at, updated_at, last_login_at
+         FROM profiles WHERE id = $1`,
+        [profileId],
+      );
+      const row = profile.rows[0];
+      if (!row) return null;
+      const [sessions, audit] = await Promise.all([
+        pool.query(
+          `SELECT id, created_at, last_refreshed_at, expires_at, user_agent, ip, revoked_at, revoked_reason
+           FROM sessions WHERE profile_id = $1 ORDER BY created_at`,
+          [profileId],
+        ),
+        pool.query(
+          `SELECT role, action, steam_id, actor_steam_id, reason, created_at FROM role_audit
+           WHERE profile_id = $1 OR actor_steam_id = $2 ORDER BY created_at`,
+          [profileId, row.steam_id],
+        ),
+      ]);
+      return {
+        profile: {
+          id: row.id,
+          steamId: row.steam_id,
+          personaName: row.persona_name,
+          avatarUrl: row.avatar_url,
+          roles: row.roles,
+          preferences: row.preferences,
+          createdAt: iso(row.created_at),
+          updatedAt: iso(row.updated_at),
+          lastLoginAt: iso(row.last_login_at),
+        },
+        sessions: sessions.rows.map((s) => ({
+          id: s.id,
+          createdAt: iso(s.created_at),
+          lastRefreshedAt: iso(s.last_refreshed_at),
+          expiresAt: iso(s.expires_at),
+          userAgent: s.user_agent,
+          ip: s.ip,
+          revokedAt: iso(s.revoked_at),
+          revokedReason: s.revoked_reason,
+        })),
+        roleAudit: audit.rows.map((a) => ({
+          role: a.role,
+          action: a.action,
+          steamId: a.steam_id,
+          actorSteamId: a.actor_steam_id,
+          reason: a.reason,
+          createdAt: iso(a.created_at),
+        })),
+      };
+    },
+
+    async exportAll(steamId: string) {
+      return Promise.all(options.hooks.map((hook) => call(hook, "GET", `/internal/accounts/${steamId}/export`)));
+    },
+
+    /**
+     * Removes the account from auth-service and records its tombstone in one transaction, then
+     * asks every service to delete. The SteamID stays on the tombstone only while some service
+     * still has to confirm. The last admin cannot delete their account.
+     */
+    async deleteEverywhere(profileId: string): Promise<AccountDeletion> {
+      const db = await pool.connect();
+      let tombstoneId: number;
+      let steamId: string;
+      let revokedAccessTokenIds: string[];
+      try {
+        await db.query("BEGIN");
+        // Same lock as role changes, so a concurrent revoke cannot leave no admin behind.
+        await db.query("SELECT pg_advisory_xact_lock(hashtext('auth-service:roles'))");
+        const profile = await db.query(`SELECT steam_id, roles FROM profiles WHERE id = $1 FOR UPDATE`, [profileId]);
+        if (!profile.rowCount) {
+          await db.query("ROLLBACK");
+          return { status: "not_found" };
+        }
+        steamId = profile.rows[0].steam_id;
+        if ((profile.rows[0].roles as string[]).includes("admin")) {
+          const admins = await db.query(`SELECT COUNT(*)::int AS n FROM profiles WHERE 'admin' = ANY(roles)`);
+          if (admins.rows[0].n <= 1) {
+            await db.query("ROLLBACK");
+            return { status: "last_admin" };
+          }
+        }
+        const live = await db.query(
+          `SELECT access_jti FROM refresh_tokens
+           WHERE profile_id = $1 AND access_jti IS NOT NULL AND created_at > now() - make_interval(secs => $2)`,
+          [profileId, options.accessTokenTtlSeconds],
+        );
+        revokedAccessTokenIds = live.rows.map((r) => r.access_jti as string);
+        await db.query(`DELETE FROM refresh_tokens WHERE profile_id = $1`, [profileId]);
+        await db.query(`DELETE FROM sessions WHERE profile_id = $1`, [profileId]);
+        await db.query(`DELETE FROM role_audit WHERE profile_id = $1`, [profileId]);
+        // Changes this account made to others stay in their audit trail, without naming it.
+        await db.query(`UPDATE role_audit SET actor_steam_id = NULL WHERE actor_steam_id = $1`, [steamId]);
+        await db.query(`DELETE FROM profiles WHERE id = $1`, [profileId]);
+        const res = await db.query(
+          `INSERT INTO account_tombstones (steam_id, steam_id_hash, profile_id, services) VALUES ($1, $2, $3, '{}'::jsonb) RETURNING id`,
+          [steamId, hashSteamId(steamId), profileId],
+        );
+        tombstoneId = Number(res.rows[0].id);
+        await db.query("COMMIT");
+      } catch (err) {
+        await db.query("ROLLBACK").catch(() => undefined);
+        throw err;
+      } finally {
+        db.release();
+      }
+      const tombstone = await runDeletes(tombstoneId, { steamId, profileId }, options.hooks, {});
+      return { status: "deleted", tombstone, revokedAccessTokenIds };
+    },
+
+    retryPending,
+
+    start(intervalMs: number) {
+      const timer = setInterval(() => {
+        retryPending().catch((err) => console.error("[auth-service] account deletion retry failed", err));
+      }, intervalMs);
+      timer.unref();
+    },
+  };
+}
+
+export type AccountDataCoordinator = ReturnType<typeof createAccountDataCoordinator>;
@@ -0,0 +1,59 @@
+import { randomBytes } from "crypto";
+import { hashToken } from "./refreshTokens";
+
+export interface AuthCodeGrant {
+  profileId: string;
+  // Origin the code was handed to; the exchange must come from the same one.
+  redirectOrigin: string;
+}
+
+export type AuthCodeExchange = { status: "ok"; grant: AuthCodeGrant } | { status: "invalid" } | { status: "origin_mismatch" };
+
+interface AuthCodeRedis {
+  set(key: string, value: string, options: { EX: number }): Promise<unknown>;
+  getDel(key: string): Promise<string | null>;
+}
+
+const codeKey = (code: string) => `authcode:${hashToken(code)}`;
+
+/**
+ * Parses the configured redirect allowlist into origins. Entries may be full URLs; only their
+ * origin counts.
+ */
+export function parseAllowedOrigins(values: string[]): string[] {
+  return values.map((value) => new URL(value).origin);
+}
+
+// Returns the redirect URL if its origin is allowlisted, otherwise null.
+export function allowedRedirect(redirect: string, allowedOrigins: string[]): URL | null {
+  try {
+    const url = new URL(redirect);
+    return allowedOrigins.includes(url.origin) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One-time authorization codes handed from the Steam callback to the SPA. Codes live in Redis
+ * (stored by hash) for a few seconds and are deleted on first use, so a code that leaks through
+ * history or logs is worthless by the time anyone reads it.
+ */
+export function createAuthCodeStore(redis: AuthCodeRedis, options: { ttlSeconds: number }) {
+  return {
+    async issue(grant: AuthCodeGrant) {
+      const code = randomBytes(32).toString("base64url");
+      await redis.set(codeKey(code), JSON.stringify(grant), { EX: options.ttlSeconds });
+      return code;
+    },
+
+    // Spends the code whatever the outcome, so it cannot be retried from another origin.
+    async exchange(code: string, origin: string): Promise<AuthCodeExchange> {
+      const stored = await redis.getDel(codeKey(code));
+      if (!stored) return { status: "invalid" };
+      const grant = JSON.parse(stored) as AuthCodeGrant;
+      if (grant.redirectOrigin !== origin) return { status: "origin_mismatch" };
+      return { status: "ok", grant };
+    },
+  };
+}
@@ -0,0 +1,14 @@
+// Read by the gateway before it trusts an access token; see api-gateway/src/lib/auth.ts.
+export const denylistKey = (jti: string) => `denylist:jti:${jti}`;
+
+// Entries only need to outlive the access tokens they block.
+export async function denyTokenIds(
+  redis: { multi(): { set(key: string, value: string, options: { EX: number }): any; exec(): Promise<unknown> } },
+  jtis: string[],
+  ttlSeconds: number,
+) {
+  if (!jtis.length) return;
+  const tx = redis.multi();
+  for (const jti of jtis) tx.set(denylistKey(jti), "1", { EX: ttlSeconds });
+  await tx.exec();
+}
@@ -0,0 +1,208 @@
+import type { Pool, PoolClient } from "pg";
+import { defaultRolePermissions } from "./permissions";
+
+export interface Migration {
+  id: string;
+  up: (db: PoolClient) => Promise<void>;
+}
+
+/**
+ * Applies each migration once, in order, inside its own transaction. An advisory lock keeps
+ * replicas that start together from racing; applied ids are recorded in schema_migrations.
+ */
+export async function runMigrations(pool: Pool, migrations: Migration[]) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id TEXT PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+  for (const migration of migrations) {
+    const db = await pool.connect();
+    try {
+      await db.query("BEGIN");
+      await db.query("SELECT pg_advisory_xact_lock(hashtext('auth-service:migrations'))");
+      const done = await db.query("SELECT 1 FROM schema_migrations WHERE id = $1", [migration.id]);
+      if (done.rowCount) {
+        await db.query("ROLLBACK");
+        continue;
+      }
+      await migration.up(db);
+      await db.query("INSERT INTO schema_migrations (id) VALUES ($1)", [migration.id]);
+      await db.query("COMMIT");
+      console.log(`[postgres] applied migration ${migration.id}`);
+    } catch (err) {
+      await db.query("ROLLBACK").catch(() => undefined);
+      throw new Error(`migration ${migration.id} failed: ${(err as Error).message}`);
+    } finally {
+      db.release();
+    }
+  }
+}
+
+// Picks the oldest row per steam_id as the one that survives a merge.
+const canonicalProfiles = `
+  SELECT DISTINCT ON (steam_id) steam_id, id AS keep_id
+  FROM profiles
+  ORDER BY steam_id, created_at, id
+`;
+
+export const authMigrations: Migration[] = [
+  {
+    // Logins used to insert a new profile per session. Fold each SteamID's rows into its oldest
+    // one (latest persona name, union of roles), move refresh tokens over, then enforce uniqueness.
+    id: "001_profiles_unique_steam_id",
+    up: async (db) => {
+      await db.query(`ALTER TABLE profiles ADD COLUMN IF NOT EXISTS avatar_url TEXT;`);
+      await db.query(`ALTER TABLE profiles ADD COLUMN IF NOT EXISTS last_login_at TIMESTAMPTZ;`);
+      await db.query(`
+        WITH canonical AS (${canonicalProfiles}),
+        merged AS (
+          SELECT
+            p.steam_id,
+            (ARRAY_AGG(p.persona_name ORDER BY p.updated_at DESC))[1] AS persona_name,
+            ARRAY(SELECT DISTINCT r FROM profiles p2, unnest(p2.roles) AS r WHERE p2.steam_id = p.steam_id ORDER BY r) AS roles,
+            MAX(p.updated_at) AS last_login_at
+          FROM profiles p
+          GROUP BY p.steam_id
+          HAVING COUNT(*) > 1
+        )
+        UPDATE profiles p
+        SET persona_name = m.persona_name, roles = m.roles, last_login_at = m.last_login_at, updated_at = now()
+        FROM merged m JOIN canonical c USING (steam_id)
+        WHERE p.id = c.keep_id;
+      `);
+      await db.query(`
+        WITH canonical AS (${canonicalProfiles})
+        UPDATE refresh_tokens rt
+        SET profile_id = c.keep_id
+        FROM profiles p JOIN canonical c USING (steam_id)
+        WHERE rt.profile_id = p.id AND p.id <> c.keep_id;
+      `);
+      const removed = await db.query(`
+        WITH canonical AS (${canonicalProfiles})
+        DELETE FROM profiles p USING canonical c
+        WHERE p.steam_id = c.steam_id AND p.id <> c.keep_id;
+      `);
+      if (removed.rowCount) console.log(`[postgres] merged ${removed.rowCount} duplicate profile rows`);
+      await db.query(`CREATE UNIQUE INDEX IF NOT EXISTS profiles_steam_id_key ON profiles (steam_id);`);
+    },
+  },
+  {
+    // Admin rights are managed through the API now; every grant and revoke is recorded here.
+    id: "002_role_audit",
+    up: async (db) => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS role_audit (
+          id BIGSERIAL PRIMARY KEY,
+          profile_id TEXT NOT NULL,
+          steam_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          action TEXT NOT NULL CHECK (action IN ('grant', 'revoke')),
+          actor_steam_id TEXT,
+          reason TEXT,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        );
+      `);
+      await db.query(`CREATE INDEX IF NOT EXISTS role_audit_steam_id_idx ON role_audit (steam_id, created_at DESC);`);
+    },
+  },
+  {
+    // A row per login for the sessions list. Existing refresh-token families become sessions
+    // (client details unknown); fully revoked families come across revoked.
+    id: "003_sessions",
+    up: async (db) => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          profile_id TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          last_refreshed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          expires_at TIMESTAMPTZ NOT NULL,
+          user_agent TEXT,
+          ip TEXT,
+          revoked_at TIMESTAMPTZ,
+          revoked_reason TEXT
+        );
+      `);
+      await db.query(`CREATE INDEX IF NOT EXISTS sessions_profile_idx ON sessions (profile_id, last_refreshed_at DESC);`);
+      await db.query(`
+        INSERT INTO sessions (id, profile_id, created_at, last_refreshed_at, expires_at, revoked_at, revoked_reason)
+        SELECT
+          family_id,
+          (ARRAY_AGG(profile_id ORDER BY created_at DESC))[1],
+          MIN(created_at),
+          MAX(created_at),
+          MAX(expires_at),
+          CASE WHEN BOOL_AND(revoked_at IS NOT NULL) THEN MAX(revoked_at) END,
+          CASE WHEN BOOL_AND(revoked_at IS NOT NULL) THEN 'migrated' END
+        FROM refresh_tokens
+        GROUP BY family_id
+        ON CONFLICT (id) DO NOTHING;
+      `);
+    },
+  },
+  {
+    // Roles stop being checked by name: each maps to a set of permissions that tokens carry as
+    // scopes. Seeded with what `user` and `admin` could do before.
+    id: "004_role_permissions",
+    up: async (db) => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS role_permissions (
+          role TEXT NOT NULL,
+          permission TEXT NOT NULL,
+          PRIMARY KEY (role, permission)
+        );
+      `);
+      for (const [role, granted] of Object.entries(defaultRolePermissions)) {
+        await db.query(
+          `INSERT INTO role_permissions (role, permission) SELECT $1, unnest($2::text[]) ON CONFLICT DO NOTHING`,
+          [role, granted],
+        );
+      }
+    },
+  },
+  {
+    // Settings the SPA used to keep in component state, as one versioned document per user
+    // (see lib/preferences.ts). Empty means "all defaults".
+    id: "005_profile_preferences",
+    up: async (db) => {
+      await db.query(`ALTER TABLE profiles ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}'::jsonb;`);
+    },
+  },
+  {
+    // One row per deleted account (see lib/accountData.ts). `services` holds each service's
+    // answer to the deletion hook; steam_id is cleared once all of them have confirmed.
+    id: "006_account_tombstones",
+    up: async (db) => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS account_tombstones (
+          id BIGSERIAL PRIMARY KEY,
+          steam_id TEXT,
+          steam_id_hash TEXT NOT NULL,
+          profile_id TEXT NOT NULL,
+          requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          completed_at TIMESTAMPTZ,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          services JSONB NOT NULL DEFAULT '{}'::jsonb
+        );
+      `);
+      await db.query(`CREATE INDEX IF NOT EXISTS account_tombstones_pending_idx ON account_tombstones (id) WHERE completed_at IS NULL;`);
+    },
+  },
+  {
+    // Looking up another player is now governed by that player's privacy settings in
+    // game-stats-service, so every user may try.
+    id: "007_users_read_other_players",
+    up: async (db) => {
+      await db.query(`INSERT INTO role_permissions (role, permission) VALUES ('user', 'players:read:others') ON CONFLICT DO NOTHING`);
+    },
+  },
+  {
+    // Controls for metadata-service's Steam app list sync.
+    id: "008_admin_catalog_manage",
+    up: async (db) => {
+      await db.query(`INSERT INTO role_permissions (role, permission) VALUES ('admin', 'catalog:manage') ON CONFLICT DO NOTHING`);
+    },
+  },
+];
@@ -0,0 +1,190 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import express from "express";
+
+const OPENID_NS = "http://specs.openid.net/auth/2.0";
+const MOCK_NS = "urn:steamdash:mock-steam";
+// Fields covered by the signature, in the order they are signed.
+const SIGNED_FIELDS = ["op_endpoint", "claimed_id", "identity", "return_to", "response_nonce", "assoc_handle", "ns.mock", "mock.role", "mock.persona"];
+
+export interface SteamOpenIdProvider {
+  // Identifier the relying party discovers the OpenID endpoint from.
+  identifier: string;
+  // Claimed ids look like `${claimedIdPrefix}<steamId64>`.
+  claimedIdPrefix: string;
+}
+
+export const steamCommunityProvider: SteamOpenIdProvider = {
+  identifier: "https://steamcommunity.com/openid",
+  claimedIdPrefix: "https://steamcommunity.com/openid/id/",
+};
+
+export type MockRole = "user" | "admin";
+
+export interface MockAssertion {
+  role: MockRole;
+  personaName: string | null;
+}
+
+// Public test SteamIDs; any other 17-digit id can be typed in on the picker page.
+const testAccounts = [
+  { steamId: "76561197960287930", personaName: "Mock Admin", role: "admin" },
+  { steamId: "76561197960265728", personaName: "Mock Player", role: "user" },
+  { steamId: "76561197960265729", personaName: "Mock Friend", role: "user" },
+];
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] as string);
+
+const xrds = (endpoint: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<xrds:XRDS xmlns:xrds="xri://$xrds" xmlns="xri://$xrd*($v*2.0)">
+  <XRD>
+    <Service priority="0">
+      <Type>${OPENID_NS}/server</Type>
+      <URI>${endpoint}</URI>
+    </Service>
+  </XRD>
+</xrds:XRDS>`;
+
+/**
+ * A development-only OpenID 2.0 provider that stands in for steamcommunity.com. Its login page
+ * lets you pick a test SteamID and role; the assertion it returns is verified by the relying
+ * party through the normal stateless `check_authentication` round trip, so the real callback
+ * code path runs end to end. `baseUrl` must be reachable from both the browser and the service.
+ */
+export function createMockSteamProvider(options: { baseUrl: string }) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const endpoint = `${baseUrl}/openid/login`;
+  const provider: SteamOpenIdProvider = { identifier: `${baseUrl}/openid`, claimedIdPrefix: `${baseUrl}/openid/id/` };
+  // Per-process key: assertions only verify against the instance that issued them.
+  const secret = randomBytes(32);
+  const issuedNonces = new Map<string, number>();
+
+  const sign = (fields: Record<string, string>) =>
+    createHmac("sha256", secret)
+      .update(SIGNED_FIELDS.map((key) => `${key}:${fields[`openid.${key}`] ?? ""}\n`).join(""))
+      .digest("base64");
+
+  const verify = (fields: Record<string, string>) => {
+    if (fields["openid.signed"] !== SIGNED_FIELDS.join(",") || !fields["openid.sig"]) return false;
+    const expected = Buffer.from(sign(fields));
+    const actual = Buffer.from(fields["openid.sig"]);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return false;
+    // Each assertion can be checked once, within five minutes.
+    const issuedAt = issuedNonces.get(fields["openid.response_nonce"]);
+    issuedNonces.delete(fields["openid.response_nonce"]);
+    return issuedAt !== undefined && Date.now() - issuedAt < 5 * 60 * 1000;
+  };
+
+  const renderPicker = (query: Record<string, string>) => {
+    const hidden = ["openid.return_to", "openid.realm"]
+      .map((key) => `<input type="hidden" name="${key}" value="${escapeHtml(query[key] || "")}" />`)
+      .join("");
+    const rows = testAccounts
+      .map(
+        (a, i) => `<label><input type="radio" name="account" value="${a.steamId}|${escapeHtml(a.personaName)}|${a.role}"${i === 0 ? " checked" : ""} />
+          ${escapeHtml(a.personaName)} <code>${a.steamId}</code> (${a.role})</label>`,
+      )
+      .join("<br />");
+    return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Mock Steam sign in</title>
+    <style>body{font-family:system-ui,sans-serif;max-width:520px;margin:40px auto;line-height:1.8}fieldset{margin:12px 0}</style>
+  </head>
+  <body>
+    <h1>Mock Steam sign in</h1>
+    <p>Development provider. Signing in to <code>${escapeHtml(query["openid.realm"] || "")}</code>.</p>
+    <form method="post" action="${endpoint}">
+      <input type="hidden" name="openid.mode" value="mock_approve" />
+      ${hidden}
+      <fieldset><legend>Test account</legend>${rows}<br />
+        <label><input type="radio" name="account" value="custom" /> Other SteamID64
+          <input name="customSteamId" pattern="[0-9]{17}" placeholder="7656119..." /></label>
+        <label>role <select name="customRole"><option>user</option><option>admin</option></select></label>
+      </fieldset>
+      <button type="submit">Sign in</button>
+      <button type="submit" name="cancel" value="1">Cancel</button>
+    </form>
+  </body>
+</html>`;
+  };
+
+  const router = express.Router();
+  router.use(express.urlencoded({ extended: false }));
+
+  const sendXrds = (_req: express.Request, res: express.Response) => {
+    res.type("application/xrds+xml").send(xrds(endpoint));
+  };
+  router.get("/openid", sendXrds);
+  router.get("/openid/id/:steamId", sendXrds);
+
+  router.get("/openid/login", (req, res) => {
+    const query = req.query as Record<string, string>;
+    if (query["openid.mode"] !== "checkid_setup" || !query["openid.return_to"]) {
+      return res.status(400).send("Expected an OpenID checkid_setup request");
+    }
+    res.type("html").send(renderPicker(query));
+  });
+
+  router.post("/openid/login", (req, res) => {
+    const body = req.body as Record<string, string>;
+    if (body["openid.mode"] === "check_authentication") {
+      return res.type("text/plain").send(`ns:${OPENID_NS}\nis_valid:${verify(body)}\n`);
+    }
+    if (body["openid.mode"] !== "mock_approve" || !body["openid.return_to"]) {
+      return res.status(400).send("Unsupported OpenID mode");
+    }
+    const returnTo = new URL(body["openid.return_to"]);
+    if (body.cancel) {
+      returnTo.searchParams.set("openid.ns", OPENID_NS);
+      returnTo.searchParams.set("openid.mode", "cancel");
+      return res.redirect(returnTo.toString());
+    }
+    const [presetId, presetName, presetRole] = (body.account || "").split("|");
+    const steamId = presetId === "custom" ? body.customSteamId : presetId;
+    if (!/^[0-9]{17}$/.test(steamId || "")) return res.status(400).send("Pick an account or enter a 17-digit SteamID64");
+    const role: MockRole = (presetId === "custom" ? body.customRole : presetRole) === "admin" ? "admin" : "user";
+
+    for (const [stale, issuedAt] of issuedNonces) {
+      if (Date.now() - issuedAt >= 5 * 60 * 1000) issuedNonces.delete(stale);
+    }
+    const nonce = `${new Date().toISOString().replace(/\.\d+Z$/, "Z")}${randomBytes(6).toString("hex")}`;
+    issuedNonces.set(nonce, Date.now());
+    const fields: Record<string, string> = {
+      "openid.ns": OPENID_NS,
+      "openid.mode": "id_res",
+      "openid.op_endpoint": endpoint,
+      "openid.claimed_id": `${provider.claimedIdPrefix}${steamId}`,
+      "openid.identity": `${provider.claimedIdPrefix}${steamId}`,
+      "openid.return_to": body["openid.return_to"],
+      "openid.response_nonce": nonce,
+      "openid.assoc_handle": "mock-steam",
+      "openid.ns.mock": MOCK_NS,
+      "openid.mock.role": role,
+      "openid.mock.persona": presetId === "custom" ? "" : presetName,
+      "openid.signed": SIGNED_FIELDS.join(","),
+    };
+    fields["openid.sig"] = sign(fields);
+    for (const [key, value] of Object.entries(fields)) returnTo.searchParams.set(key, value);
+    res.redirect(returnTo.toString());
+  });
+
+  return {
+    router,
+    provider,
+    /**
+     * Reads the role and persona picked on the mock page from an assertion the relying party has
+     * already verified (both fields are signed).
+     */
+    assertionDetails(query: Record<string, unknown>): MockAssertion | null {
+      if (query["openid.ns.mock"] !== MOCK_NS) return null;
+      return {
+        role: query["openid.mock.role"] === "admin" ? "admin" : "user",
+        personaName: typeof query["openid.mock.persona"] === "string" && query["openid.mock.persona"] ? query["openid.mock.persona"] : null,
+      };
+    },
+  };
+}
+
+export type MockSteamProvider = ReturnType<typeof createMockSteamProvider>;
@@ -0,0 +1,57 @@
+import type { Pool } from "pg";
+import type { Role } from "./roles";
+
+// Everything a token can be scoped to. Services check these, never role names.
+export const permissions = [
+  "stats:read",
+  "players:read:others",
+  "usage:read",
+  "users:manage",
+  "cache:purge",
+  "gateway:read",
+  "catalog:manage",
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+// What a fresh install seeds (004_role_permissions plus later grants); edits made in Postgres
+// afterwards are kept.
+export const defaultRolePermissions: Record<Role, Permission[]> = {
+  user: ["stats:read", "players:read:others"],
+  admin: [...permissions],
+};
+
+/**
+ * Role → permission sets from `role_permissions`. The table is tiny and read on every token
+ * issue and admin check, so it is cached in memory for `cacheMs`; an edit in Postgres reaches
+ * tokens within that window plus one refresh.
+ */
+export function createPermissionStore(pool: Pool, options: { cacheMs: number }) {
+  let cached: { loadedAt: number; byRole: Map<string, Permission[]> } | null = null;
+
+  const load = async () => {
+    if (cached && Date.now() - cached.loadedAt < options.cacheMs) return cached.byRole;
+    const res = await pool.query(`SELECT role, permission FROM role_permissions ORDER BY role, permission`);
+    const byRole = new Map<string, Permission[]>();
+    for (const row of res.rows) {
+      byRole.set(row.role, [...(byRole.get(row.role) || []), row.permission]);
+    }
+    cached = { loadedAt: Date.now(), byRole };
+    return byRole;
+  };
+
+  return {
+    // Union of the roles' permissions, sorted so tokens are stable.
+    async forRoles(roles: string[]): Promise<Permission[]> {
+      const byRole = await load();
+      const granted = new Set(roles.flatMap((role) => byRole.get(role) || []));
+      return permissions.filter((permission) => granted.has(permission));
+    },
+
+    async mapping() {
+      return Object.fromEntries(await load()) as Record<string, Permission[]>;
+    },
+  };
+}
+
+export type PermissionStore = ReturnType<typeof createPermissionStore>;
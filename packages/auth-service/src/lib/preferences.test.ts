@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { defaultPreferences, mergePatch, PREFERENCES_VERSION, resolvePreferences } from "./preferences";
+
+describe("mergePatch", () => {
+  it("merges objects key by key, removes null keys and replaces the rest", () => {
+    const target = { a: 1, nested: { keep: true, drop: "x" }, list: [1, 2] };
+    expect(mergePatch(target, { a: 2, nested: { drop: null, add: 3 }, list: [3] })).toEqual({
+      a: 2,
+      nested: { keep: true, add: 3 },
+      list: [3],
+    });
+    expect(target.nested).toEqual({ keep: true, drop: "x" });
+  });
+
+  it("replaces the target outright with a non-object patch", () => {
+    expect(mergePatch({ a: 1 }, "value")).toBe("value");
+    expect(mergePatch({ a: 1 }, [1])).toEqual([1]);
+    expect(mergePatch("value", { a: 1 })).toEqual({ a: 1 });
+  });
+});
+
+describe("resolvePreferences", () => {
+  it("fills missing and null fields from the defaults", () => {
+    const result = resolvePreferences({ landingPage: "/home", currency: null, pages: { profile: { inventoryAppId: "570" } } });
+    expect(result).toEqual({
+      status: "ok",
+      preferences: { ...defaultPreferences, landingPage: "/home", pages: { ...defaultPreferences.pages, profile: { inventoryAppId: "570" } } },
+    });
+  });
+
+  it("upgrades unversioned documents", () => {
+    const result = resolvePreferences({ version: 0, region: "DE" });
+    expect(result.status === "ok" && result.preferences).toMatchObject({ version: PREFERENCES_VERSION, region: "DE" });
+    expect(resolvePreferences(undefined)).toEqual({ status: "ok", preferences: defaultPreferences });
+  });
+
+  it("names what is wrong with an invalid document", () => {
+    const result = resolvePreferences({ landingPage: "/nowhere", theme: "dark", pages: { spotlight: { achievementFilter: "some" } } });
+    expect(result.status).toBe("invalid");
+    expect(result.status === "invalid" && result.issues).toEqual(
+      expect.arrayContaining([
+        "preferences has unknown field theme",
+        "landingPage must be equal to one of the allowed values",
+        "pages.spotlight.achievementFilter must be equal to one of the allowed values",
+      ]),
+    );
+  });
+});
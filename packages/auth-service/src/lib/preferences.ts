@@ -0,0 +1,169 @@
+import Ajv from "ajv";
+import type { Pool } from "pg";
+
+// Bump when the shape changes, and teach `upgradePreferences` to carry older documents forward.
+export const PREFERENCES_VERSION = 1;
+
+export const landingPages = ["/home", "/discover", "/live-search", "/featured", "/dota-live", "/spotlight", "/profile", "/news", "/usage", "/users"] as const;
+
+export interface Preferences {
+  version: number;
+  landingPage: (typeof landingPages)[number];
+  favoriteAppIds: string[];
+  // ISO 4217 code, e.g. "EUR"; null follows the region.
+  currency: string | null;
+  // Steam store country code, e.g. "DE"; null lets Steam decide.
+  region: string | null;
+  // BCP 47 tag, e.g. "en" or "pt-BR"; null uses the browser's.
+  language: string | null;
+  pages: {
+    spotlight: { achievementFilter: "all" | "unlocked" | "locked" };
+    profile: { inventoryAppId: string };
+    dotaLive: { selectedMatchId: number | null };
+  };
+}
+
+export const defaultPreferences: Preferences = {
+  version: PREFERENCES_VERSION,
+  landingPage: "/discover",
+  favoriteAppIds: [],
+  currency: null,
+  region: null,
+  language: null,
+  pages: {
+    spotlight: { achievementFilter: "all" },
+    profile: { inventoryAppId: "730" },
+    dotaLive: { selectedMatchId: null },
+  },
+};
+
+const appId = { type: "string", pattern: "^[0-9]{1,10}$" };
+const closed = (properties: Record<string, unknown>) => ({
+  type: "object",
+  additionalProperties: false,
+  required: Object.keys(properties),
+  properties,
+});
+
+// The whole stored document. Also published as the `Preferences` schema in the OpenAPI document.
+export const preferencesSchema = closed({
+  version: { type: "integer", enum: [PREFERENCES_VERSION] },
+  landingPage: { type: "string", enum: [...landingPages] },
+  favoriteAppIds: { type: "array", items: appId, maxItems: 100, uniqueItems: true },
+  currency: { type: "string", pattern: "^[A-Z]{3}$", nullable: true },
+  region: { type: "string", pattern: "^[A-Z]{2}$", nullable: true },
+  language: { type: "string", pattern: "^[a-z]{2,3}(-[A-Z]{2})?$", nullable: true },
+  pages: closed({
+    spotlight: closed({ achievementFilter: { type: "string", enum: ["all", "unlocked", "locked"] } }),
+    profile: closed({ inventoryAppId: appId }),
+    dotaLive: closed({ selectedMatchId: { type: "integer", minimum: 0, nullable: true } }),
+  }),
+});
+
+const ajv = new Ajv({ strict: false, allErrors: true });
+const validatePreferences = ajv.compile<Preferences>(preferencesSchema);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// RFC 7396 JSON merge patch: objects merge key by key, null removes a key, anything else replaces.
+export function mergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return patch;
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = mergePatch(result[key], value);
+  }
+  return result;
+}
+
+/**
+ * Brings a stored or submitted document up to the current version. Version 0 is anything saved
+ * before documents were versioned (including the empty default); its keys are kept as they are.
+ */
+export function upgradePreferences(raw: unknown): Record<string, unknown> {
+  const doc = isObject(raw) ? { ...raw } : {};
+  const version = typeof doc.version === "number" ? doc.version : 0;
+  if (version > PREFERENCES_VERSION) return doc;
+  return { ...doc, version: PREFERENCES_VERSION };
+}
+
+export type PreferencesResult = { status: "ok"; preferences: Preferences } | { status: "invalid"; issues: string[] };
+
+// Fills anything missing (or null) from the defaults, then checks the result against the schema.
+export function resolvePreferences(raw: unknown): PreferencesResult {
+  // Patching onto {} first drops nulls, so they fall back to the default too.
+  const doc = mergePatch(defaultPreferences, mergePatch({}, upgradePreferences(raw)));
+  if (validatePreferences(doc)) return { status: "ok", preferences: doc };
+  const issues = (validatePreferences.errors || []).map((err) => {
+    const at = err.instancePath.split("/").filter(Boolean).join(".") || "preferences";
+    return err.keyword === "additionalProperties" ? `${at} has unknown field ${err.params.additionalProperty}` : `${at} ${err.message}`;
+  });
+  return { status: "invalid", issues };
+}
+
+/**
+ * Per-user settings stored as one JSONB document on `profiles.preferences`. Reads always return
+ * a complete, current-version document; writes are validated as a whole before they are saved.
+ */
+export function createPreferencesStore(pool: Pool) {
+  const load = async (profileId: string) => {
+    const res = await pool.query(`SELECT preferences FROM profiles WHERE id = $1`, [profileId]);
+    return res.rowCount ? res.rows[0].preferences : undefined;
+  };
+
+  const save = async (profileId: string, preferences: Preferences) => {
+    await pool.query(`UPDATE profiles SET preferences = $2, updated_at = now() WHERE id = $1`, [profileId, preferences]);
+  };
+
+  return {
+    // Null when the profile does not exist. A stored document that no longer validates falls
+    // back to the defaults rather than locking the user out of their settings.
+    async get(profileId: string): Promise<Preferences | null> {
+      const stored = await load(profileId);
+      if (stored === undefined) return null;
+      const result = resolvePreferences(stored);
+      return result.status === "ok" ? result.preferences : defaultPreferences;
+    },
+
+    // Replaces the document; omitted fields reset to their defaults.
+    async replace(profileId: string, body: unknown): Promise<PreferencesResult | null> {
+      const result = resolvePreferences(body);
+      if (result.status !== "ok") return result;
+      if ((await load(profileId)) === undefined) return null;
+      await save(profileId, result.preferences);
+      return result;
+    },
+
+    // Applies a merge patch to the stored document under a row lock, so concurrent patches from
+    // two devices both land.
+    async patch(profileId: string, body: unknown): Promise<PreferencesResult | null> {
+      const db = await pool.connect();
+      try {
+        await db.query("BEGIN");
+        const res = await db.query(`SELECT preferences FROM profiles WHERE id = $1 FOR UPDATE`, [profileId]);
+        if (!res.rowCount) {
+          await db.query("ROLLBACK");
+          return null;
+        }
+        const current = resolvePreferences(res.rows[0].preferences);
+        const base = current.status === "ok" ? current.preferences : defaultPreferences;
+        const result = resolvePreferences(mergePatch(base, body));
+        if (result.status !== "ok") {
+          await db.query("ROLLBACK");
+          return result;
+        }
+        await db.query(`UPDATE profiles SET preferences = $2, updated_at = now() WHERE id = $1`, [profileId, result.preferences]);
+        await db.query("COMMIT");
+        return result;
+      } catch (err) {
+        await db.query("ROLLBACK").catch(() => undefined);
+        throw err;
+      } finally {
+        db.release();
+      }
+    },
+  };
+}
+
+export type PreferencesStore = ReturnType<typeof createPreferencesStore>;
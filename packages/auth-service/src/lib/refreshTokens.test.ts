@@ -0,0 +1,69 @@
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import { createRefreshTokenStore, hashToken } from "./refreshTokens";
+
+// A connection that answers the store's queries from one stored token row and logs the SQL.
+function fakePool(row: Record<string, unknown> | null) {
+  const statements: { sql: string; params?: unknown[] }[] = [];
+  const client = {
+    query: vi.fn(async (sql: string, params?: unknown[]) => {
+      statements.push({ sql: sql.replace(/\s+/g, " ").trim(), params });
+      if (sql.includes("FROM refresh_tokens WHERE token_hash")) return { rows: row ? [row] : [], rowCount: row ? 1 : 0 };
+      if (sql.includes("SELECT access_jti")) return { rows: [{ access_jti: "jti-1" }, { access_jti: "jti-2" }] };
+      return { rows: [], rowCount: 1 };
+    }),
+    release: vi.fn(),
+  };
+  const pool = { connect: async () => client, query: client.query } as unknown as Pool;
+  const ran = (pattern: RegExp) => statements.filter((s) => pattern.test(s.sql));
+  return { pool, client, ran };
+}
+
+const options = { ttlSeconds: 3600, accessTokenTtlSeconds: 900 };
+const stored = (fields: Record<string, unknown>) => ({
+  id: "t1",
+  family_id: "fam-1",
+  profile_id: "p1",
+  expires_at: new Date(Date.now() + 60_000),
+  used_at: null,
+  revoked_at: null,
+  ...fields,
+});
+
+describe("refresh token rotation", () => {
+  it("issues a successor in the same family and spends the token", async () => {
+    const { pool, client, ran } = fakePool(stored({}));
+    const result = await createRefreshTokenStore(pool, options).rotate("secret", "jti-new");
+    expect(result).toMatchObject({ status: "rotated", profileId: "p1", familyId: "fam-1" });
+    expect(ran(/SELECT id, family_id/)[0].params).toEqual([hashToken("secret")]);
+    const [insert] = ran(/^INSERT INTO refresh_tokens/);
+    expect(insert.params?.slice(2, 5)).toEqual(["fam-1", "p1", "jti-new"]);
+    expect(ran(/SET used_at = now\(\), replaced_by/)[0].params).toEqual(["t1", result.status === "rotated" && result.next.id]);
+    expect(ran(/^COMMIT$/)).toHaveLength(1);
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+
+  it("revokes the whole family when a spent token is presented again", async () => {
+    const { pool, client, ran } = fakePool(stored({ used_at: new Date() }));
+    const result = await createRefreshTokenStore(pool, options).rotate("secret", "jti-new");
+    expect(result).toEqual({ status: "reused", profileId: "p1", familyId: "fam-1", revokedAccessTokenIds: ["jti-1", "jti-2"] });
+    expect(ran(/SET revoked_at = now\(\), revoked_reason/)[0].params).toEqual(["fam-1", "reuse_detected"]);
+    expect(ran(/SELECT access_jti/)[0].params).toEqual(["fam-1", 900]);
+    expect(ran(/^INSERT/)).toHaveLength(0);
+    expect(ran(/^COMMIT$/)).toHaveLength(1);
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+
+  it("turns away unknown, signed-out and expired tokens without writing", async () => {
+    const unknown = fakePool(null);
+    expect(await createRefreshTokenStore(unknown.pool, options).rotate("nope", "j")).toEqual({ status: "invalid" });
+    const signedOut = fakePool(stored({ revoked_at: new Date() }));
+    expect(await createRefreshTokenStore(signedOut.pool, options).rotate("secret", "j")).toEqual({ status: "revoked" });
+    const expired = fakePool(stored({ expires_at: new Date(Date.now() - 1000) }));
+    expect(await createRefreshTokenStore(expired.pool, options).rotate("secret", "j")).toEqual({ status: "expired" });
+    for (const { ran } of [unknown, signedOut, expired]) {
+      expect(ran(/^(INSERT|UPDATE)/)).toHaveLength(0);
+      expect(ran(/^ROLLBACK$/)).toHaveLength(1);
+    }
+  });
+});
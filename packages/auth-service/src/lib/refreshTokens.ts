@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from "crypto";
+import { nanoid } from "nanoid";
+import type { Pool } from "pg";
+
+export interface RefreshTokenOptions {
+  ttlSeconds: number;
+  // How long an access token lives; bounds which access token ids still need denylisting.
+  accessTokenTtlSeconds: number;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  id: string;
+  familyId: string;
+  expiresAt: Date;
+}
+
+export type RotationResult =
+  | { status: "rotated"; profileId: string; familyId: string; next: IssuedRefreshToken }
+  | { status: "invalid" }
+  | { status: "expired" }
+  // The current token of a session that was signed out (logout or revoked from another device).
+  | { status: "revoked" }
+  // The token had already been rotated or revoked: someone replayed it, so the family is dead.
+  | { status: "reused"; profileId: string; familyId: string; revokedAccessTokenIds: string[] };
+
+// Only the hash is stored, so a database leak does not hand out usable refresh tokens.
+export const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export async function ensureRefreshTokenSchema(pool: Pool) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id TEXT PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      family_id TEXT NOT NULL,
+      profile_id TEXT NOT NULL,
+      access_jti TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      expires_at TIMESTAMPTZ NOT NULL,
+      used_at TIMESTAMPTZ,
+      replaced_by TEXT,
+      revoked_at TIMESTAMPTZ,
+      revoked_reason TEXT
+    );
+  `);
+  await pool.query(`CREATE INDEX IF NOT EXISTS refresh_tokens_family_idx ON refresh_tokens (family_id);`);
+}
+
+/**
+ * Opaque refresh tokens, one row per issued token. Each login starts a family; every refresh
+ * marks the presented token used and issues its successor in the same family.
+ */
+export function createRefreshTokenStore(pool: Pool, options: RefreshTokenOptions) {
+  const insert = async (
+    db: Pick<Pool, "query">,
+    profileId: string,
+    familyId: string,
+    accessJti: string,
+  ): Promise<IssuedRefreshToken> => {
+    const token = randomBytes(32).toString("base64url");
+    const id = nanoid();
+    const expiresAt = new Date(Date.now() + options.ttlSeconds * 1000);
+    await db.query(
+      `INSERT INTO refresh_tokens (id, token_hash, family_id, profile_id, access_jti, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [id, hashToken(token), familyId, profileId, accessJti, expiresAt],
+    );
+    return { token, id, familyId, expiresAt };
+  };
+
+  // Access token ids minted in the family that may not have expired yet.
+  const liveAccessTokenIds = async (db: Pick<Pool, "query">, familyId: string) => {
+    const res = await db.query(
+      `SELECT access_jti FROM refresh_tokens
+       WHERE family_id = $1 AND access_jti IS NOT NULL AND created_at > now() - make_interval(secs => $2)`,
+      [familyId, options.accessTokenTtlSeconds],
+    );
+    return res.rows.map((row) => row.access_jti as string);
+  };
+
+  const revokeFamilyWith = async (db: Pick<Pool, "query">, familyId: string, reason: string) => {
+    await db.query(
+      `UPDATE refresh_tokens SET revoked_at = now(), revoked_reason = $2
+       WHERE family_id = $1 AND revoked_at IS NULL`,
+      [familyId, reason],
+    );
+    return liveAccessTokenIds(db, familyId);
+  };
+
+  return {
+    issue(profileId: string, accessJti: string, familyId = nanoid()) {
+      return insert(pool, profileId, familyId, accessJti);
+    },
+
+    /**
+     * Swaps a refresh token for its successor. `accessJti` is the id of the access token that
+     * will be handed out alongside the new refresh token.
+     */
+    async rotate(token: string, accessJti: string): Promise<RotationResult> {
+      const db = await pool.connect();
+      try {
+        await db.query("BEGIN");
+        const res = await db.query(
+          `SELECT id, family_id, profile_id, expires_at, used_at, revoked_at
+           FROM refresh_tokens WHERE token_hash = $1 FOR UPDATE`,
+          [hashToken(token)],
+        );
+        const row = res.rows[0];
+        if (!row) {
+          await db.query("ROLLBACK");
+          return { status: "invalid" };
+        }
+        if (row.revoked_at && !row.used_at) {
+          await db.query("ROLLBACK");
+          return { status: "revoked" };
+        }
+        if (row.used_at) {
+          const revokedAccessTokenIds = await revokeFamilyWith(db, row.family_id, "reuse_detected");
+          await db.query("COMMIT");
+          return { status: "reused", profileId: row.profile_id, familyId: row.family_id, revokedAccessTokenIds };
+        }
+        if (new Date(row.expires_at).getTime() <= Date.now()) {
+          await db.query("ROLLBACK");
+          return { status: "expired" };
+        }
+        const next = await insert(db, row.profile_id, row.family_id, accessJti);
+        await db.query(`UPDATE refresh_tokens SET used_at = now(), replaced_by = $2 WHERE id = $1`, [row.id, next.id]);
+        await db.query("COMMIT");
+        return { status: "rotated", profileId: row.profile_id, familyId: row.family_id, next };
+      } catch (err) {
+        await db.query("ROLLBACK").catch(() => undefined);
+        throw err;
+      } finally {
+        db.release();
+      }
+    },
+
+    // Family id of a still-usable token, without consuming it (used by logout).
+    async familyOf(token: string): Promise<string | null> {
+      const res = await pool.query(`SELECT family_id FROM refresh_tokens WHERE token_hash = $1`, [hashToken(token)]);
+      return res.rows[0]?.family_id ?? null;
+    },
+
+    // Revokes every token in the family and returns the access token ids to denylist.
+    revokeFamily(familyId: string, reason: string) {
+      return revokeFamilyWith(pool, familyId, reason);
+    },
+  };
+}
+
+export type RefreshTokenStore = ReturnType<typeof createRefreshTokenStore>;
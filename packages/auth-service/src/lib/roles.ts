@@ -0,0 +1,177 @@
+import type { Pool, PoolClient } from "pg";
+
+export type Role = "user" | "admin";
+
+// `user` is implicit for every account; only these can be granted or revoked by an admin.
+export const manageableRoles: Role[] = ["admin"];
+
+export interface ManagedUser {
+  id: string;
+  steamId: string;
+  personaName: string;
+  avatarUrl: string | null;
+  roles: Role[];
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+export interface RoleAuditEntry {
+  id: number;
+  steamId: string;
+  role: Role;
+  action: "grant" | "revoke";
+  actorSteamId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface RoleActor {
+  // Null for changes made by the service itself (bootstrap).
+  steamId: string | null;
+  reason?: string | null;
+}
+
+export type RoleChangeResult =
+  | { status: "changed"; user: ManagedUser }
+  | { status: "unchanged"; user: ManagedUser }
+  | { status: "not_found" }
+  // Revoking would leave nobody able to manage roles.
+  | { status: "last_admin" };
+
+export interface UserQuery {
+  q?: string;
+  role?: Role;
+  limit: number;
+  offset: number;
+}
+
+const userColumns = `id, steam_id, persona_name, avatar_url, roles, created_at, last_login_at`;
+
+const mapUser = (row: any): ManagedUser => ({
+  id: row.id,
+  steamId: row.steam_id,
+  personaName: row.persona_name,
+  avatarUrl: row.avatar_url,
+  roles: row.roles,
+  createdAt: new Date(row.created_at).toISOString(),
+  lastLoginAt: row.last_login_at ? new Date(row.last_login_at).toISOString() : null,
+});
+
+const mapAudit = (row: any): RoleAuditEntry => ({
+  id: Number(row.id),
+  steamId: row.steam_id,
+  role: row.role,
+  action: row.action,
+  actorSteamId: row.actor_steam_id,
+  reason: row.reason,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+/**
+ * Role assignments live on `profiles.roles` and are the only source of admin rights. Every grant
+ * and revoke is written to `role_audit` in the same transaction. Tokens carry a copy of the
+ * roles, so a change reaches the gateway on the user's next refresh.
+ */
+export function createRoleStore(pool: Pool) {
+  const change = async (steamId: string, role: Role, action: "grant" | "revoke", actor: RoleActor): Promise<RoleChangeResult> => {
+    const db = await pool.connect();
+    try {
+      await db.query("BEGIN");
+      // Serializes role changes so two concurrent revokes cannot remove the last two admins.
+      await db.query("SELECT pg_advisory_xact_lock(hashtext('auth-service:roles'))");
+      const current = await db.query(`SELECT ${userColumns} FROM profiles WHERE steam_id = $1 FOR UPDATE`, [steamId]);
+      if (!current.rowCount) {
+        await db.query("ROLLBACK");
+        return { status: "not_found" };
+      }
+      const user = mapUser(current.rows[0]);
+      const has = user.roles.includes(role);
+      if ((action === "grant" && has) || (action === "revoke" && !has)) {
+        await db.query("ROLLBACK");
+        return { status: "unchanged", user };
+      }
+      if (action === "revoke" && role === "admin" && (await countAdmins(db)) <= 1) {
+        await db.query("ROLLBACK");
+        return { status: "last_admin" };
+      }
+      const updated = await db.query(
+        action === "grant"
+          ? `UPDATE profiles SET roles = ARRAY(SELECT DISTINCT r FROM unnest(roles || ARRAY[$2]) AS r ORDER BY r), updated_at = now()
+             WHERE id = $1 RETURNING ${userColumns}`
+          : `UPDATE profiles SET roles = array_remove(roles, $2), updated_at = now() WHERE id = $1 RETURNING ${userColumns}`,
+        [user.id, role],
+      );
+      await db.query(
+        `INSERT INTO role_audit (profile_id, steam_id, role, action, actor_steam_id, reason) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [user.id, user.steamId, role, action, actor.steamId, actor.reason ?? null],
+      );
+      await db.query("COMMIT");
+      return { status: "changed", user: mapUser(updated.rows[0]) };
+    } catch (err) {
+      await db.query("ROLLBACK").catch(() => undefined);
+      throw err;
+    } finally {
+      db.release();
+    }
+  };
+
+  const countAdmins = async (db: Pick<PoolClient, "query">) => {
+    const res = await db.query(`SELECT COUNT(*)::int AS n FROM profiles WHERE 'admin' = ANY(roles)`);
+    return res.rows[0].n as number;
+  };
+
+  return {
+    async list(query: UserQuery) {
+      const where: string[] = [];
+      const params: unknown[] = [];
+      if (query.q) {
+        // Exact SteamID or a case-insensitive persona name match.
+        params.push(query.q, `%${query.q.replace(/[\\%_]/g, "\\$&")}%`);
+        where.push(`(steam_id = $${params.length - 1} OR persona_name ILIKE $${params.length})`);
+      }
+      if (query.role) {
+        params.push(query.role);
+        where.push(`$${params.length} = ANY(roles)`);
+      }
+      const clause = where.length ? `WHERE ${where.join(" AND ")}` : "";
+      const total = await pool.query(`SELECT COUNT(*)::int AS n FROM profiles ${clause}`, params);
+      const rows = await pool.query(
+        `SELECT ${userColumns} FROM profiles ${clause}
+         ORDER BY last_login_at DESC NULLS LAST, created_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, query.limit, query.offset],
+      );
+      return { total: total.rows[0].n as number, items: rows.rows.map(mapUser) };
+    },
+
+    async get(steamId: string) {
+      const res = await pool.query(`SELECT ${userColumns} FROM profiles WHERE steam_id = $1`, [steamId]);
+      return res.rowCount ? mapUser(res.rows[0]) : null;
+    },
+
+    grant: (steamId: string, role: Role, actor: RoleActor) => change(steamId, role, "grant", actor),
+    revoke: (steamId: string, role: Role, actor: RoleActor) => change(steamId, role, "revoke", actor),
+
+    async audit(filter: { steamId?: string; limit: number }) {
+      const res = await pool.query(
+        `SELECT id, steam_id, role, action, actor_steam_id, reason, created_at FROM role_audit
+         WHERE $1::text IS NULL OR steam_id = $1
+         ORDER BY created_at DESC, id DESC LIMIT $2`,
+        [filter.steamId ?? null, filter.limit],
+      );
+      return res.rows.map(mapAudit);
+    },
+
+    /**
+     * Grants admin to a bootstrap SteamID, but only while no account holds admin. Lets a fresh
+     * install get its first admin without a redeploy ever being needed to manage roles after.
+     */
+    async bootstrapAdmin(steamId: string, bootstrapSteamIds: string[]) {
+      if (!bootstrapSteamIds.includes(steamId) || (await countAdmins(pool)) > 0) return null;
+      const result = await change(steamId, "admin", "grant", { steamId: null, reason: "bootstrap" });
+      return result.status === "changed" ? result.user : null;
+    },
+  };
+}
+
+export type RoleStore = ReturnType<typeof createRoleStore>;
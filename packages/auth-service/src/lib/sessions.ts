@@ -0,0 +1,79 @@
+import { nanoid } from "nanoid";
+import type { Pool } from "pg";
+
+export interface SessionClient {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+export interface SessionInfo {
+  id: string;
+  createdAt: string;
+  lastRefreshedAt: string;
+  expiresAt: string;
+  userAgent: string | null;
+  ip: string | null;
+}
+
+const mapSession = (row: any): SessionInfo => ({
+  id: row.id,
+  createdAt: new Date(row.created_at).toISOString(),
+  lastRefreshedAt: new Date(row.last_refreshed_at).toISOString(),
+  expiresAt: new Date(row.expires_at).toISOString(),
+  userAgent: row.user_agent,
+  ip: row.ip,
+});
+
+// Browsers send long user agents; keep enough to tell devices apart.
+const clip = (value: string | null) => (value ? value.slice(0, 512) : null);
+
+/**
+ * One row per login. The session id doubles as the refresh-token family id and as the `sid`
+ * claim in access tokens, so revoking a session here pairs with revoking that family.
+ */
+export function createSessionStore(pool: Pool, options: { ttlSeconds: number }) {
+  return {
+    async start(profileId: string, client: SessionClient) {
+      const id = nanoid();
+      await pool.query(
+        `INSERT INTO sessions (id, profile_id, user_agent, ip, expires_at)
+         VALUES ($1, $2, $3, $4, now() + make_interval(secs => $5))`,
+        [id, profileId, clip(client.userAgent), client.ip, options.ttlSeconds],
+      );
+      return id;
+    },
+
+    // Records a refresh: the latest client details win, and the session lives as long as its
+    // newest refresh token.
+    async touch(id: string, client: SessionClient) {
+      await pool.query(
+        `UPDATE sessions SET last_refreshed_at = now(), user_agent = COALESCE($2, user_agent), ip = COALESCE($3, ip),
+           expires_at = now() + make_interval(secs => $4)
+         WHERE id = $1`,
+        [id, clip(client.userAgent), client.ip, options.ttlSeconds],
+      );
+    },
+
+    async listActive(profileId: string) {
+      const res = await pool.query(
+        `SELECT id, created_at, last_refreshed_at, expires_at, user_agent, ip FROM sessions
+         WHERE profile_id = $1 AND revoked_at IS NULL AND expires_at > now()
+         ORDER BY last_refreshed_at DESC`,
+        [profileId],
+      );
+      return res.rows.map(mapSession);
+    },
+
+    // Returns false when the session is unknown, someone else's, or already ended.
+    async revoke(id: string, reason: string, profileId?: string) {
+      const res = await pool.query(
+        `UPDATE sessions SET revoked_at = now(), revoked_reason = $2
+         WHERE id = $1 AND revoked_at IS NULL AND ($3::text IS NULL OR profile_id = $3)`,
+        [id, reason, profileId ?? null],
+      );
+      return Boolean(res.rowCount);
+    },
+  };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
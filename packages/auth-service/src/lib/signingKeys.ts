@@ -0,0 +1,229 @@
+import {
+  compactVerify,
+  createLocalJWKSet,
+  exportJWK,
+  generateKeyPair,
+  importJWK,
+  JWK,
+  JWTPayload,
+  jwtVerify,
+  KeyLike,
+  SignJWT,
+} from "jose";
+import { nanoid } from "nanoid";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import type { Pool } from "pg";
+
+export type SigningAlgorithm = "RS256" | "EdDSA";
+
+export interface SigningKeyOptions {
+  alg: SigningAlgorithm;
+  issuer: string;
+  // A new key is generated once the newest one is this old.
+  rotationMs: number;
+  // New keys are published this long before they sign, so cached JWKS copies already hold them.
+  prepublishMs: number;
+  // Retired keys stay published this long after they stop signing; must outlive access tokens.
+  retainMs: number;
+  // Encrypts the private halves in `signing_keys`. Only auth-service is given it: the other
+  // services share the database but must not be able to read a key and mint tokens.
+  encryptionSecret: string;
+}
+
+// How a private JWK is stored: AES-256-GCM, base64 fields.
+interface SealedJwk {
+  sealed: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const sealingKey = (secret: string) => createHash("sha256").update(secret).digest();
+
+export function sealJwk(jwk: JWK, secret: string): SealedJwk {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", sealingKey(secret), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(jwk), "utf8"), cipher.final()]);
+  return { sealed: "aes-256-gcm", iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+}
+
+/** Throws when the secret is not the one the key was sealed with. */
+export function openJwk(sealed: SealedJwk, secret: string): JWK {
+  const decipher = createDecipheriv("aes-256-gcm", sealingKey(secret), Buffer.from(sealed.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+  const plain = Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]);
+  return JSON.parse(plain.toString("utf8"));
+}
+
+interface StoredKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: KeyLike | Uint8Array;
+  publicJwk: JWK;
+  activatesAt: number;
+  retiresAt: number | null;
+  expiresAt: number | null;
+}
+
+export function parseSigningAlgorithm(value: string | undefined): SigningAlgorithm {
+  if (!value || value === "RS256") return "RS256";
+  if (value === "EdDSA") return "EdDSA";
+  throw new Error(`JWT_ALG must be RS256 or EdDSA, got ${value}`);
+}
+
+/**
+ * Keeps the signing keys in Postgres so every auth-service replica signs with the same key and
+ * publishes the same JWKS. Private halves are stored encrypted with `encryptionSecret`; verifiers
+ * only ever see the public halves via /.well-known/jwks.json.
+ */
+export function createSigningKeyManager(pool: Pool, options: SigningKeyOptions) {
+  let keys: StoredKey[] = [];
+
+  const openStored = (kid: string, value: any): JWK => {
+    try {
+      return openJwk(value, options.encryptionSecret);
+    } catch {
+      throw new Error(`signing key ${kid} cannot be decrypted; is SIGNING_KEY_SECRET the one it was stored with?`);
+    }
+  };
+
+  // Keys stored before they were encrypted are sealed in place on startup.
+  const sealPlaintextKeys = async () => {
+    const res = await pool.query(`SELECT kid, private_jwk FROM signing_keys WHERE NOT private_jwk ? 'sealed'`);
+    for (const row of res.rows) {
+      await pool.query(`UPDATE signing_keys SET private_jwk = $2 WHERE kid = $1`, [
+        row.kid,
+        sealJwk(row.private_jwk, options.encryptionSecret),
+      ]);
+    }
+    if (res.rowCount) console.log(`[auth-service] encrypted ${res.rowCount} stored signing keys`);
+  };
+
+  const load = async () => {
+    const res = await pool.query(
+      `SELECT kid, alg, private_jwk, public_jwk, activates_at, retires_at, expires_at
+       FROM signing_keys WHERE expires_at IS NULL OR expires_at > now()
+       ORDER BY activates_at DESC`,
+    );
+    keys = await Promise.all(
+      res.rows.map(async (row) => ({
+        kid: row.kid,
+        alg: row.alg,
+        privateKey: await importJWK(openStored(row.kid, row.private_jwk), row.alg),
+        publicJwk: row.public_jwk,
+        activatesAt: new Date(row.activates_at).getTime(),
+        retiresAt: row.retires_at ? new Date(row.retires_at).getTime() : null,
+        expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : null,
+      })),
+    );
+  };
+
+  // Generates a key when none exists or the newest is due for rotation. Serialized across
+  // replicas with an advisory lock; the loser re-reads and finds the fresh key.
+  const rotateIfDue = async () => {
+    const db = await pool.connect();
+    try {
+      await db.query("BEGIN");
+      await db.query("SELECT pg_advisory_xact_lock(hashtext('auth-service:signing_keys'))");
+      const newest = await db.query(`SELECT kid, created_at FROM signing_keys ORDER BY created_at DESC LIMIT 1`);
+      const row = newest.rows[0];
+      const due = !row || Date.now() - new Date(row.created_at).getTime() >= options.rotationMs;
+      if (!due) {
+        await db.query("ROLLBACK");
+        return false;
+      }
+      const { publicKey, privateKey } = await generateKeyPair(options.alg, { extractable: true });
+      const kid = nanoid();
+      const publicJwk = { ...(await exportJWK(publicKey)), kid, alg: options.alg, use: "sig" };
+      const privateJwk = await exportJWK(privateKey);
+      // The very first key signs immediately; later ones wait out the prepublish window.
+      const activatesAt = new Date(Date.now() + (row ? options.prepublishMs : 0));
+      await db.query(
+        `INSERT INTO signing_keys (kid, alg, private_jwk, public_jwk, activates_at) VALUES ($1, $2, $3, $4, $5)`,
+        [kid, options.alg, sealJwk(privateJwk, options.encryptionSecret), publicJwk, activatesAt],
+      );
+      await db.query(
+        `UPDATE signing_keys SET retires_at = $1, expires_at = $1::timestamptz + make_interval(secs => $2)
+         WHERE kid <> $3 AND retires_at IS NULL`,
+        [activatesAt, options.retainMs / 1000, kid],
+      );
+      await db.query("COMMIT");
+      console.log(`[auth-service] generated ${options.alg} signing key ${kid}, active from ${activatesAt.toISOString()}`);
+      return true;
+    } catch (err) {
+      await db.query("ROLLBACK").catch(() => undefined);
+      throw err;
+    } finally {
+      db.release();
+    }
+  };
+
+  const activeKey = () => {
+    const now = Date.now();
+    const key = keys.find((k) => k.activatesAt <= now && (k.retiresAt === null || k.retiresAt > now));
+    if (!key) throw new Error("no active signing key");
+    return key;
+  };
+
+  const jwks = () => ({ keys: keys.filter((k) => k.expiresAt === null || k.expiresAt > Date.now()).map((k) => k.publicJwk) });
+
+  return {
+    async init() {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS signing_keys (
+          kid TEXT PRIMARY KEY,
+          alg TEXT NOT NULL,
+          private_jwk JSONB NOT NULL,
+          public_jwk JSONB NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          activates_at TIMESTAMPTZ NOT NULL,
+          retires_at TIMESTAMPTZ,
+          expires_at TIMESTAMPTZ
+        );
+      `);
+      await sealPlaintextKeys();
+      await rotateIfDue();
+      await load();
+    },
+
+    // Re-checks rotation and reloads keys created by other replicas.
+    start(checkIntervalMs: number) {
+      const timer = setInterval(() => {
+        rotateIfDue()
+          .then(load)
+          .catch((err) => console.error("[auth-service] signing key rotation failed", err));
+      }, checkIntervalMs);
+      timer.unref();
+    },
+
+    jwks,
+
+    sign(claims: JWTPayload, token: { subject: string; jti: string; expiresInSeconds: number }) {
+      const key = activeKey();
+      return new SignJWT(claims)
+        .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: "JWT" })
+        .setSubject(token.subject)
+        .setJti(token.jti)
+        .setIssuer(options.issuer)
+        .setIssuedAt()
+        .setExpirationTime(Math.floor(Date.now() / 1000) + token.expiresInSeconds)
+        .sign(key.privateKey);
+    },
+
+    /**
+     * Verifies a token against the published keys. `allowExpired` checks only the signature,
+     * for logout with a token that has just run out.
+     */
+    async verify<T extends JWTPayload>(token: string, verifyOptions: { allowExpired?: boolean } = {}): Promise<T> {
+      const keySet = createLocalJWKSet(jwks());
+      if (verifyOptions.allowExpired) {
+        const { payload } = await compactVerify(token, keySet);
+        return JSON.parse(new TextDecoder().decode(payload)) as T;
+      }
+      const { payload } = await jwtVerify(token, keySet, { issuer: options.issuer });
+      return payload as T;
+    },
+  };
+}
+
+export type SigningKeyManager = ReturnType<typeof createSigningKeyManager>;
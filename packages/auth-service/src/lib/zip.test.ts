@@ -0,0 +1,52 @@
+import { crc32, inflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { createZip } from "./zip";
+
+// Walks the central directory the way an unzip tool does and inflates each entry.
+function readZip(zip: Buffer) {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let at = zip.readUInt32LE(end + 16);
+  const entries: { name: string; text: string }[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(at)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(at + 16);
+    const compressedSize = zip.readUInt32LE(at + 20);
+    const size = zip.readUInt32LE(at + 24);
+    const nameLength = zip.readUInt16LE(at + 28);
+    const name = zip.toString("utf8", at + 46, at + 46 + nameLength);
+    const local = zip.readUInt32LE(at + 42);
+    expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+    expect(zip.toString("utf8", local + 30, local + 30 + nameLength)).toBe(name);
+    const start = local + 30 + nameLength + zip.readUInt16LE(local + 28);
+    const data = inflateRawSync(zip.subarray(start, start + compressedSize));
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+    entries.push({ name, text: data.toString("utf8") });
+    at += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("createZip", () => {
+  it("writes entries an unzip tool can read back", () => {
+    const manifest = JSON.stringify({ services: { stats: "ok" } });
+    const zip = createZip([
+      { name: "manifest.json", data: manifest },
+      { name: "stats/snapshots.json", data: Buffer.from("[]") },
+      { name: "données.json", data: "é".repeat(1000) },
+    ]);
+    expect(readZip(zip)).toEqual([
+      { name: "manifest.json", text: manifest },
+      { name: "stats/snapshots.json", text: "[]" },
+      { name: "données.json", text: "é".repeat(1000) },
+    ]);
+  });
+
+  it("writes an empty archive as just the end record", () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
@@ -0,0 +1,472 @@
+import { errorResponse, errorSchema, jsonResponse, OpenApiDocument, OpenApiParameter, ref } from "shared";
+import { permissions } from "./lib/permissions";
+import { preferencesSchema } from "./lib/preferences";
+
+const bearer = [{ bearerAuth: [] }];
+
+const preferencesBody = { type: "object", required: ["preferences"], properties: { preferences: ref("Preferences") } };
+// Checked in full by the preferences store once merged with defaults or the stored document.
+const preferencesInput = { type: "object", description: "Any subset of Preferences.", additionalProperties: true };
+
+const sessionTokens = {
+  type: "object",
+  properties: {
+    token: { type: "string", description: "Access token (JWT)" },
+    refreshToken: { type: "string", description: "Opaque, single-use refresh token" },
+    expiresIn: { type: "integer", description: "Access token lifetime in seconds" },
+  },
+};
+
+const refreshTokenBody = (required: boolean) => ({
+  required,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        ...(required ? { required: ["refreshToken"] } : {}),
+        properties: { refreshToken: { type: "string", minLength: 1, maxLength: 256 } },
+      },
+    },
+  },
+});
+
+const steamIdParam: OpenApiParameter = {
+  name: "steamId",
+  in: "path",
+  required: true,
+  schema: { type: "string", pattern: "^[0-9]{17}$" },
+};
+
+const roleParam: OpenApiParameter = {
+  name: "role",
+  in: "path",
+  required: true,
+  description: "`user` is implicit for every account and cannot be managed.",
+  schema: { type: "string", enum: ["admin"] },
+};
+
+const roleChangeBody = {
+  required: false,
+  content: {
+    "application/json": {
+      schema: { type: "object", properties: { reason: { type: "string", maxLength: 500 } } },
+    },
+  },
+};
+
+const roleChangeResponses = (verb: string) => ({
+  "200": jsonResponse(`Updated user; \`changed\` is false if the role was already ${verb}`, {
+    type: "object",
+    properties: { user: ref("ManagedUser"), changed: { type: "boolean" } },
+  }),
+  "400": errorResponse("Invalid SteamID or role"),
+  "401": errorResponse("Missing or invalid token"),
+  "403": errorResponse("Caller lacks the users:manage permission"),
+  "404": errorResponse("No profile with that SteamID"),
+});
+
+const redirectParam: OpenApiParameter = {
+  name: "redirect",
+  in: "query",
+  description: "Where the browser lands after login; defaults to FRONTEND_URL.",
+  schema: { type: "string", maxLength: 2048 },
+};
+
+// Login, code exchange, refresh and logout are served both bare and under the external auth
+// prefix; document the prefixed ones, which are what the gateway forwards.
+export function createOpenApiDocument(authPrefix: string): OpenApiDocument {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "auth-service",
+      version: "0.1.0",
+      description: "Steam OpenID login and JWT issuance.",
+    },
+    paths: {
+      [`${authPrefix}/steam/login`]: {
+        get: {
+          tags: ["steam"],
+          summary: "Redirect to Steam OpenID",
+          description: "With MOCK_STEAM_OPENID=true (development only) this redirects to the local mock provider at /mock-steam instead.",
+          parameters: [redirectParam],
+          responses: {
+            "302": { description: "Redirect to the OpenID provider" },
+            "400": errorResponse("redirect is not on an allowed origin"),
+            "500": errorResponse("OpenID discovery failed"),
+          },
+        },
+      },
+      [`${authPrefix}/steam/callback`]: {
+        get: {
+          tags: ["steam"],
+          summary: "OpenID return URL; verifies the assertion and hands a one-time code to the web app",
+          description:
+            "The code is posted to the opener window on the redirect's origin only, or appended to the redirect as `?code=` when there is no opener. Exchange it at /token.",
+          parameters: [redirectParam],
+          responses: {
+            "200": { description: "HTML page that passes the code to the web app", content: { "text/html": { schema: { type: "string" } } } },
+            "400": errorResponse("redirect is not on an allowed origin"),
+            "401": { description: "Steam assertion rejected" },
+          },
+        },
+      },
+      [`${authPrefix}/token`]: {
+        post: {
+          tags: ["tokens"],
+          summary: "Exchange a one-time login code for session tokens",
+          description: "Codes expire after AUTH_CODE_TTL_SECONDS (default 60) and work once, from the origin they were issued for.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["code", "redirectUri"],
+                  properties: {
+                    code: { type: "string", minLength: 1, maxLength: 128 },
+                    redirectUri: { type: "string", maxLength: 2048, description: "The redirect the code was delivered to" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": jsonResponse("Session tokens", sessionTokens),
+            "400": errorResponse("Missing, invalid, expired or reused code, or a redirect origin that does not match"),
+            "404": errorResponse("Profile no longer exists"),
+          },
+        },
+      },
+      [`${authPrefix}/refresh`]: {
+        post: {
+          tags: ["tokens"],
+          summary: "Rotate a refresh token for a new access/refresh pair",
+          description: "Each refresh token works once. Presenting a spent token revokes the whole session.",
+          requestBody: refreshTokenBody(true),
+          responses: {
+            "200": jsonResponse("New session tokens", sessionTokens),
+            "400": errorResponse("Missing refresh token"),
+            "401": errorResponse("Unknown, expired or reused refresh token, or a signed-out session"),
+            "404": errorResponse("Profile no longer exists"),
+          },
+        },
+      },
+      [`${authPrefix}/logout`]: {
+        post: {
+          tags: ["tokens"],
+          summary: "Revoke the session and denylist the current access token",
+          security: bearer,
+          requestBody: refreshTokenBody(false),
+          responses: {
+            "204": { description: "Session revoked" },
+            "400": errorResponse("Neither a refresh token nor a bearer token was sent"),
+            "401": errorResponse("Invalid bearer token"),
+          },
+        },
+      },
+      [`${authPrefix}/.well-known/jwks.json`]: {
+        get: {
+          tags: ["tokens"],
+          summary: "Public keys for verifying access tokens",
+          description: "Includes the signing key, the next key ahead of rotation and recently retired keys.",
+          responses: {
+            "200": jsonResponse("JSON Web Key Set", {
+              type: "object",
+              properties: { keys: { type: "array", items: { type: "object", additionalProperties: true } } },
+            }),
+          },
+        },
+      },
+      "/me": {
+        get: {
+          tags: ["profile"],
+          summary: "The caller's profile",
+          security: bearer,
+          responses: {
+            "200": jsonResponse("Profile", { type: "object", properties: { user: ref("Profile") } }),
+            "401": errorResponse("Missing or invalid token"),
+          },
+        },
+      },
+      [`${authPrefix}/me`]: {
+        delete: {
+          tags: ["profile"],
+          summary: "Delete the caller's account everywhere",
+          description:
+            "Signs out every session and removes the account from auth-service, then asks each service that keeps user data to purge it. " +
+            "Services that do not answer are retried in the background; the returned tombstone shows each service's result.",
+          security: bearer,
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["confirmSteamId"],
+                  properties: { confirmSteamId: { type: "string", description: "The caller's own SteamID64, typed to confirm" } },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": jsonResponse("Account deleted", { type: "object", properties: { tombstone: ref("AccountTombstone") } }),
+            "400": errorResponse("confirmSteamId does not match the caller"),
+            "401": errorResponse("Missing or invalid token"),
+            "409": errorResponse("The caller is the last admin"),
+          },
+        },
+      },
+      [`${authPrefix}/me/export`]: {
+        get: {
+          tags: ["profile"],
+          summary: "Download everything the services keep about the caller",
+          description: "`json` is a single document; `zip` has a manifest.json plus one file per service. Services that fail are listed in the manifest.",
+          security: bearer,
+          parameters: [{ name: "format", in: "query", schema: { type: "string", enum: ["json", "zip"], default: "json" } }],
+          responses: {
+            "200": {
+              description: "Export bundle (sent as an attachment)",
+              content: {
+                "application/json": { schema: { type: "object", properties: { manifest: ref("ExportManifest"), data: { type: "object" } } } },
+                "application/zip": { schema: { type: "string", format: "binary" } },
+              },
+            },
+            "401": errorResponse("Missing or invalid token"),
+          },
+        },
+      },
+      [`${authPrefix}/me/preferences`]: {
+        get: {
+          tags: ["profile"],
+          summary: "The caller's preferences, with defaults filled in",
+          security: bearer,
+          responses: {
+            "200": jsonResponse("Preferences", preferencesBody),
+            "401": errorResponse("Missing or invalid token"),
+          },
+        },
+        put: {
+          tags: ["profile"],
+          summary: "Replace the caller's preferences",
+          description: "Omitted fields reset to their defaults. The stored document must validate as a whole.",
+          security: bearer,
+          requestBody: { required: true, content: { "application/json": { schema: preferencesInput } } },
+          responses: {
+            "200": jsonResponse("Saved preferences", preferencesBody),
+            "400": errorResponse("Body does not validate against the Preferences schema"),
+            "401": errorResponse("Missing or invalid token"),
+          },
+        },
+        patch: {
+          tags: ["profile"],
+          summary: "Update some of the caller's preferences",
+          description: "JSON merge patch (RFC 7396): nested objects merge, arrays replace, null resets a field to its default.",
+          security: bearer,
+          requestBody: { required: true, content: { "application/json": { schema: preferencesInput } } },
+          responses: {
+            "200": jsonResponse("Saved preferences", preferencesBody),
+            "400": errorResponse("Result does not validate against the Preferences schema"),
+            "401": errorResponse("Missing or invalid token"),
+          },
+        },
+      },
+      [`${authPrefix}/me/sessions`]: {
+        get: {
+          tags: ["profile"],
+          summary: "The caller's signed-in sessions, most recently refreshed first",
+          security: bearer,
+          responses: {
+            "200": jsonResponse("Active sessions", { type: "object", properties: { items: { type: "array", items: ref("Session") } } }),
+            "401": errorResponse("Missing or invalid token"),
+          },
+        },
+      },
+      [`${authPrefix}/me/sessions/{id}`]: {
+        delete: {
+          tags: ["profile"],
+          summary: "Sign a session out",
+          description: "Revokes the session's refresh tokens and denylists its live access tokens.",
+          security: bearer,
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", pattern: "^[A-Za-z0-9_-]{1,64}$" } }],
+          responses: {
+            "204": { description: "Session revoked" },
+            "401": errorResponse("Missing or invalid token"),
+            "404": errorResponse("No active session with that id for the caller"),
+          },
+        },
+      },
+      "/me/roles": {
+        get: {
+          tags: ["profile"],
+          summary: "The caller's roles and the permissions they grant",
+          security: bearer,
+          responses: {
+            "200": jsonResponse("Roles and permissions", {
+              type: "object",
+              properties: {
+                roles: { type: "array", items: { type: "string" } },
+                permissions: { type: "array", items: { type: "string", enum: [...permissions] } },
+              },
+            }),
+            "401": errorResponse("Missing or invalid token"),
+          },
+        },
+      },
+      [`${authPrefix}/admin/users`]: {
+        get: {
+          tags: ["admin"],
+          summary: "List or search users",
+          security: bearer,
+          parameters: [
+            { name: "q", in: "query", description: "Exact SteamID or part of a persona name", schema: { type: "string", maxLength: 64 } },
+            { name: "role", in: "query", schema: { type: "string", enum: ["user", "admin"] } },
+            { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100, default: 25 } },
+            { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+          ],
+          responses: {
+            "200": jsonResponse("Matching users, most recently active first", {
+              type: "object",
+              properties: { total: { type: "integer" }, items: { type: "array", items: ref("ManagedUser") } },
+            }),
+            "401": errorResponse("Missing or invalid token"),
+            "403": errorResponse("Caller lacks the users:manage permission"),
+          },
+        },
+      },
+      [`${authPrefix}/admin/users/{steamId}`]: {
+        get: {
+          tags: ["admin"],
+          summary: "One user with their recent role changes",
+          security: bearer,
+          parameters: [steamIdParam],
+          responses: {
+            "200": jsonResponse("User and audit trail", {
+              type: "object",
+              properties: { user: ref("ManagedUser"), audit: { type: "array", items: ref("RoleAuditEntry") } },
+            }),
+            "401": errorResponse("Missing or invalid token"),
+            "403": errorResponse("Caller lacks the users:manage permission"),
+            "404": errorResponse("No profile with that SteamID"),
+          },
+        },
+      },
+      [`${authPrefix}/admin/users/{steamId}/roles/{role}`]: {
+        put: {
+          tags: ["admin"],
+          summary: "Grant a role",
+          description: "Takes effect in the user's access token on their next refresh.",
+          security: bearer,
+          parameters: [steamIdParam, roleParam],
+          requestBody: roleChangeBody,
+          responses: roleChangeResponses("granted"),
+        },
+        delete: {
+          tags: ["admin"],
+          summary: "Revoke a role",
+          description: "Takes effect in the user's access token on their next refresh. The last admin cannot be revoked.",
+          security: bearer,
+          parameters: [steamIdParam, roleParam],
+          requestBody: roleChangeBody,
+          responses: { ...roleChangeResponses("absent"), "409": errorResponse("Would remove the last admin") },
+        },
+      },
+      [`${authPrefix}/admin/audit`]: {
+        get: {
+          tags: ["admin"],
+          summary: "Role change audit log, newest first",
+          security: bearer,
+          parameters: [
+            { name: "steamId", in: "query", schema: { type: "string", pattern: "^[0-9]{17}$" } },
+            { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 200, default: 50 } },
+          ],
+          responses: {
+            "200": jsonResponse("Audit entries", { type: "object", properties: { items: { type: "array", items: ref("RoleAuditEntry") } } }),
+            "401": errorResponse("Missing or invalid token"),
+            "403": errorResponse("Caller lacks the users:manage permission"),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } },
+      schemas: {
+        Error: errorSchema,
+        Profile: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            steamId: { type: "string" },
+            personaName: { type: "string" },
+            avatarUrl: { type: "string", nullable: true },
+            roles: { type: "array", items: { type: "string", enum: ["user", "admin"] } },
+          },
+        },
+        Preferences: preferencesSchema,
+        Session: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            createdAt: { type: "string", format: "date-time" },
+            lastRefreshedAt: { type: "string", format: "date-time" },
+            expiresAt: { type: "string", format: "date-time" },
+            userAgent: { type: "string", nullable: true },
+            ip: { type: "string", nullable: true },
+            current: { type: "boolean", description: "The session of the token making the request" },
+          },
+        },
+        ExportManifest: {
+          type: "object",
+          properties: {
+            steamId: { type: "string" },
+            exportedAt: { type: "string", format: "date-time" },
+            services: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  service: { type: "string" },
+                  status: { type: "string", enum: ["ok", "failed"] },
+                  error: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        AccountTombstone: {
+          type: "object",
+          properties: {
+            id: { type: "integer" },
+            steamIdHash: { type: "string", description: "SHA-256 of the SteamID; the id itself is dropped once every service confirms" },
+            requestedAt: { type: "string", format: "date-time" },
+            completedAt: { type: "string", format: "date-time", nullable: true, description: "Null while some service is still to confirm" },
+            services: { type: "object", additionalProperties: { type: "object" }, description: "Each service's answer to the deletion hook" },
+          },
+        },
+        ManagedUser: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            steamId: { type: "string" },
+            personaName: { type: "string" },
+            avatarUrl: { type: "string", nullable: true },
+            roles: { type: "array", items: { type: "string", enum: ["user", "admin"] } },
+            createdAt: { type: "string", format: "date-time" },
+            lastLoginAt: { type: "string", format: "date-time", nullable: true },
+          },
+        },
+        RoleAuditEntry: {
+          type: "object",
+          properties: {
+            id: { type: "integer" },
+            steamId: { type: "string" },
+            role: { type: "string" },
+            action: { type: "string", enum: ["grant", "revoke"] },
+            actorSteamId: { type: "string", nullable: true, description: "Null for the startup bootstrap grant" },
+            reason: { type: "string", nullable: true },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+      },
+    },
+  };
+}
@@ -1,12 +1,22 @@
-﻿import cors from "cors";
+﻿import { PgInstrumentation } from "@opentelemetry/instrumentation-pg";
+import { RedisInstrumentation } from "@opentelemetry/instrumentation-redis";
+import { createRequestValidator, logFormat, requestContext, requiredSecret, startTracing } from "shared";
+// Must run before express/http/pg/redis are loaded so the instrumentations can patch them.
+startTracing("game-stats-service", [new PgInstrumentation(), new RedisInstrumentation()]);
+
+import cors from "cors";
 import dotenv from "dotenv";
 import express from "express";
 import morgan from "morgan";
 import { createClient as createRedisClient } from "redis";
 import { Pool } from "pg";
 import client, { collectDefaultMetrics, Registry } from "prom-client";
+import { AccessClaims, missingScopes, playerAccess } from "./lib/access";
 import { fetchWithRetry } from "./lib/http";
-import jwt from "jsonwebtoken";
+import { defaultPrivacy, PrivacySection, PrivacySettings, privacyDecision, sectionLabels } from "./lib/privacy";
+import { StoreLocale, storeLocaleFrom } from "./lib/storeLocale";
+import { openApiDocument } from "./openapi";
+import { createRemoteJWKSet, jwtVerify } from "jose";
 
 type OwnedGame = {
   appid: number;
@@ -26,12 +36,19 @@ const postgresUrl = process.env.POSTGRES_URL || "postgres://steamapp:steamapp@lo
 const steamApiKey = process.env.STEAM_API_KEY;
 const cacheTtlSeconds = process.env.CACHE_TTL_SECONDS ? Number(process.env.CACHE_TTL_SECONDS) : 3600;
 const metricsToken = process.env.METRICS_TOKEN || "prom-secret";
-const jwtSecret = process.env.JWT_SECRET || "dev-secret-change-me";
+// auth-service presents this when it calls the /internal/accounts hooks.
+const internalToken = requiredSecret("INTERNAL_TOKEN", "internal-secret");
+const jwksUrl = process.env.JWKS_URL || "http://localhost:4001/.well-known/jwks.json";
 const dotaLiveBase = "https://api.steampowered.com/IDOTA2Match_570";
 const leagueCache: Map<number, { name: string; tier?: string; lastUpdated: number }> = new Map();
 const teamCache: Map<number, { name: string; logo?: string; lastUpdated: number }> = new Map();
 const achievementSchemaCacheTtlSeconds = 24 * 60 * 60;
 const spotlightCacheTtlSeconds = 60;
+// Friend lists only decide "friends"-visibility checks; a short delay after (un)friending is fine.
+const friendIdsCacheTtlSeconds = 10 * 60;
+
+// Public keys only; refetched when a token names an unknown kid (at most every 30s).
+const jwks = createRemoteJWKSet(new URL(jwksUrl), { cacheMaxAge: 10 * 60 * 1000, cooldownDuration: 30 * 1000 });
 
 const redis = createRedisClient({ url: redisUrl });
 redis.on("error", (err: Error) => console.error("[redis] error", err));
@@ -65,9 +82,10 @@ const cacheHits = new client.Counter({
   registers: [metricsRegistry],
 });
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ["X-Request-Id"] }));
+app.use(requestContext);
 app.use(express.json());
-app.use(morgan("dev"));
+app.use(morgan(logFormat));
 
 app.use((req, res, next) => {
   const end = httpDuration.startTimer({ route: req.path, method: req.method });
@@ -90,10 +108,16 @@ app.get("/metrics", async (_req, res) => {
   res.end(await metricsRegistry.metrics());
 });
 
+app.get("/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
+});
+
+app.use(createRequestValidator(openApiDocument));
+
 app.get("/games/:appId/summary", async (req, res) => {
   const appId = req.params.appId;
   try {
-    const data = await getGameSummary(appId);
+    const data = await getGameSummary(appId, storeLocaleFrom(req.headers));
     res.json({ item: data });
   } catch (err) {
     console.error(err);
@@ -112,9 +136,43 @@ app.get("/games/:appId/news", async (req, res) => {
   }
 });
 
+// The caller's own privacy settings; defaults until they save some.
+app.get("/players/me/privacy", async (req, res) => {
+  const steamId = await authorizePlayer(req, res, "me");
+  if (!steamId) return;
+  try {
+    res.json({ item: await loadPrivacy(steamId) });
+  } catch (err) {
+    console.error("[privacy] load failed", err);
+    res.status(500).json({ error: "privacy_load_failed", message: (err as Error).message });
+  }
+});
+
+// Replaces the caller's privacy settings. Withdrawing snapshot consent deletes the snapshots
+// already kept.
+app.put("/players/me/privacy", async (req, res) => {
+  const steamId = await authorizePlayer(req, res, "me");
+  if (!steamId) return;
+  const settings = req.body as PrivacySettings;
+  try {
+    await pool.query(
+      `INSERT INTO player_privacy (steam_id, visibility, sections, keep_snapshots, updated_at)
+       VALUES ($1, $2, $3, $4, now())
+       ON CONFLICT (steam_id) DO UPDATE SET
+         visibility = EXCLUDED.visibility, sections = EXCLUDED.sections, keep_snapshots = EXCLUDED.keep_snapshots, updated_at = now();`,
+      [steamId, settings.visibility, settings.sections, settings.keepSnapshots],
+    );
+    if (!settings.keepSnapshots) await pool.query(`DELETE FROM player_stats_snapshots WHERE steam_id = $1`, [steamId]);
+    res.json({ item: await loadPrivacy(steamId) });
+  } catch (err) {
+    console.error("[privacy] save failed", err);
+    res.status(500).json({ error: "privacy_save_failed", message: (err as Error).message });
+  }
+});
+
 app.get("/players/:steamId/stats", async (req, res) => {
-  const steamId = resolveSteamId(req, req.params.steamId);
-  if (!steamId) return res.status(401).json({ error: "unauthorized" });
+  const steamId = await authorizePlayer(req, res, req.params.steamId, "stats");
+  if (!steamId) return;
   if (!steamApiKey) {
     return res.status(500).json({ error: "missing_api_key", message: "Set STEAM_API_KEY to query player stats." });
   }
@@ -128,8 +186,8 @@ app.get("/players/:steamId/stats", async (req, res) => {
 });
 
 app.get("/players/:steamId/friends", async (req, res) => {
-  const steamId = resolveSteamId(req, req.params.steamId);
-  if (!steamId) return res.status(401).json({ error: "unauthorized" });
+  const steamId = await authorizePlayer(req, res, req.params.steamId, "friends");
+  if (!steamId) return;
   if (!steamApiKey) {
     return res.status(500).json({ error: "missing_api_key", message: "Set STEAM_API_KEY to query friends." });
   }
@@ -143,8 +201,8 @@ app.get("/players/:steamId/friends", async (req, res) => {
 });
 
 app.get("/players/:steamId/inventory", async (req, res) => {
-  const steamId = resolveSteamId(req, req.params.steamId);
-  if (!steamId) return res.status(401).json({ error: "unauthorized" });
+  const steamId = await authorizePlayer(req, res, req.params.steamId, "inventory");
+  if (!steamId) return;
   const appId = String(req.query.appId || "730");
   const contextId = String(req.query.contextId || "2");
   try {
@@ -168,8 +226,8 @@ app.get("/live/dota/featured", async (_req, res) => {
 });
 
 app.get("/spotlight/owned", async (req, res) => {
-  const steamId = resolveSteamId(req, "me");
-  if (!steamId) return res.status(401).json({ error: "unauthorized" });
+  const steamId = await authorizePlayer(req, res, "me");
+  if (!steamId) return;
   try {
     const [owned, recent] = await Promise.all([fetchOwnedGames(steamId), fetchRecentlyPlayed(steamId)]);
     // sort recent by playtime_2weeks desc
@@ -186,8 +244,8 @@ app.get("/spotlight/owned", async (req, res) => {
 });
 
 app.get("/spotlight/:appId", async (req, res) => {
-  const steamId = resolveSteamId(req, "me");
-  if (!steamId) return res.status(401).json({ error: "unauthorized" });
+  const steamId = await authorizePlayer(req, res, "me");
+  if (!steamId) return;
   if (!steamApiKey) return res.status(500).json({ error: "missing_api_key" });
   const appId = String(req.params.appId);
   const cacheKey = `spotlight:${steamId}:${appId}`;
@@ -206,6 +264,88 @@ app.get("/spotlight/:appId", async (req, res) => {
   }
 });
 
+// Drops everything cached for a game so the next request goes back to Steam.
+app.delete("/cache/games/:appId", async (req, res) => {
+  if (!(await authorizeScopes(req, res, ["cache:purge"]))) return;
+  const appId = String(req.params.appId);
+  try {
+    const purged = await purgeCache([`ach:schema:${appId}`], `spotlight:*:${appId}`, `game:summary:${appId}:*`);
+    await pool.query(`DELETE FROM game_metadata_cache WHERE app_id = $1`, [appId]);
+    console.log(`[cache] purged ${purged} keys for app ${appId}`);
+    res.json({ purged });
+  } catch (err) {
+    console.error("[cache] purge failed", err);
+    res.status(500).json({ error: "cache_purge_failed", message: (err as Error).message });
+  }
+});
+
+app.delete("/cache/players/:steamId", async (req, res) => {
+  if (!(await authorizeScopes(req, res, ["cache:purge"]))) return;
+  const steamId = String(req.params.steamId);
+  try {
+    const purged = await purgeCache([`player:stats:${steamId}`, `friends:ids:${steamId}`], `spotlight:${steamId}:*`);
+    console.log(`[cache] purged ${purged} keys for player ${steamId}`);
+    res.json({ purged });
+  } catch (err) {
+    console.error("[cache] purge failed", err);
+    res.status(500).json({ error: "cache_purge_failed", message: (err as Error).message });
+  }
+});
+
+// Account hooks for auth-service's data export and account deletion. Not in the OpenAPI
+// document: they are service-to-service only and take the shared INTERNAL_TOKEN, not a user token.
+const requireInternal = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (req.headers.authorization !== `Bearer ${internalToken}`) {
+    return res.status(401).json({ error: "unauthorized" });
+  }
+  if (!/^[0-9]{17}$/.test(req.params.steamId)) {
+    return res.status(400).json({ error: "invalid_steam_id" });
+  }
+  next();
+};
+
+app.get("/internal/accounts/:steamId/export", requireInternal, async (req, res) => {
+  const steamId = req.params.steamId;
+  try {
+    const snapshots = await pool.query(
+      `SELECT snapshot, created_at FROM player_stats_snapshots WHERE steam_id = $1 ORDER BY created_at`,
+      [steamId],
+    );
+    const privacy = await pool.query(`SELECT visibility, sections, keep_snapshots, updated_at FROM player_privacy WHERE steam_id = $1`, [
+      steamId,
+    ]);
+    const cacheKeys: string[] = [];
+    for await (const key of redis.scanIterator({ MATCH: `spotlight:${steamId}:*`, COUNT: 100 })) cacheKeys.push(key);
+    for (const key of [`player:stats:${steamId}`, `friends:ids:${steamId}`]) {
+      if (await redis.exists(key)) cacheKeys.unshift(key);
+    }
+    res.json({
+      privacy: privacy.rows[0]
+        ? { ...mapPrivacy(privacy.rows[0]), updatedAt: new Date(privacy.rows[0].updated_at).toISOString() }
+        : null,
+      playerStatsSnapshots: snapshots.rows.map((row) => ({ createdAt: new Date(row.created_at).toISOString(), snapshot: row.snapshot })),
+      cacheKeys,
+    });
+  } catch (err) {
+    console.error("[accounts] export failed", err);
+    res.status(500).json({ error: "account_export_failed", message: (err as Error).message });
+  }
+});
+
+app.delete("/internal/accounts/:steamId", requireInternal, async (req, res) => {
+  const steamId = req.params.steamId;
+  try {
+    const snapshots = await pool.query(`DELETE FROM player_stats_snapshots WHERE steam_id = $1`, [steamId]);
+    const privacy = await pool.query(`DELETE FROM player_privacy WHERE steam_id = $1`, [steamId]);
+    const cacheKeys = await purgeCache([`player:stats:${steamId}`, `friends:ids:${steamId}`], `spotlight:${steamId}:*`);
+    console.log(`[accounts] deleted ${snapshots.rowCount} snapshots and ${cacheKeys} cache keys for a deleted account`);
+    res.json({ deleted: { snapshots: snapshots.rowCount ?? 0, privacySettings: privacy.rowCount ?? 0, cacheKeys } });
+  } catch (err) {
+    console.error("[accounts] delete failed", err);
+    res.status(500).json({ error: "account_delete_failed", message: (err as Error).message });
+  }
+});
+
 async function init() {
   await redis.connect();
   await pool.query(`
@@ -216,13 +356,39 @@ async function init() {
       created_at TIMESTAMPTZ NOT NULL DEFAULT now()
     );
   `);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS player_privacy (
+      steam_id TEXT PRIMARY KEY,
+      visibility TEXT NOT NULL CHECK (visibility IN ('public', 'friends', 'private')),
+      sections JSONB NOT NULL,
+      keep_snapshots BOOLEAN NOT NULL DEFAULT false,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
   await pool.query(`
     CREATE TABLE IF NOT EXISTS game_metadata_cache (
-      app_id TEXT PRIMARY KEY,
+      app_id TEXT NOT NULL,
+      cc TEXT NOT NULL DEFAULT 'US',
+      language TEXT NOT NULL DEFAULT 'english',
       payload JSONB NOT NULL,
-      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (app_id, cc, language)
     );
   `);
+  // Tables from before summaries were fetched per store country were keyed by app_id alone;
+  // their rows were US English lookups.
+  await pool.query(`
+    ALTER TABLE game_metadata_cache ADD COLUMN IF NOT EXISTS cc TEXT NOT NULL DEFAULT 'US';
+    ALTER TABLE game_metadata_cache ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'english';
+    DO $$
+    BEGIN
+      IF (SELECT count(*) FROM information_schema.key_column_usage
+          WHERE table_name = 'game_metadata_cache' AND constraint_name = 'game_metadata_cache_pkey') = 1 THEN
+        ALTER TABLE game_metadata_cache DROP CONSTRAINT game_metadata_cache_pkey;
+        ALTER TABLE game_metadata_cache ADD PRIMARY KEY (app_id, cc, language);
+      END IF;
+    END $$;
+  `);
   await pool.query(`
     CREATE TABLE IF NOT EXISTS player_count_snapshots (
       app_id TEXT NOT NULL,
@@ -236,8 +402,9 @@ async function init() {
   });
 }
 
-async function getGameSummary(appId: string) {
-  const cacheKey = `game:summary:${appId}`;
+// Prices, currency and text depend on the store country and language, so each pair is cached apart.
+async function getGameSummary(appId: string, locale: StoreLocale) {
+  const cacheKey = `game:summary:${appId}:${locale.cc}:${locale.language}`;
   const cached = await redis.get(cacheKey);
   if (cached) {
     cacheHits.inc({ resource: "game_summary" });
@@ -245,7 +412,7 @@ async function getGameSummary(appId: string) {
   }
 
   const timer = upstreamDuration.startTimer({ endpoint: "appdetails" });
-  const resp = await fetchWithRetry(`https://store.steampowered.com/api/appdetails?appids=${appId}`, {}, 2, 300);
+  const resp = await fetchWithRetry(`https://store.steampowered.com/api/appdetails?appids=${appId}&cc=${locale.cc}&l=${locale.language}`, {}, 2, 300);
   timer();
   const json = (await resp.json()) as Record<string, { success: boolean; data?: any }>;
   const entry = json[appId];
@@ -266,6 +433,9 @@ async function getGameSummary(appId: string) {
     genres: (data.genres || []).map((g: any) => g.description),
     platforms: data.platforms,
     price: data.price_overview || null,
+    cc: locale.cc,
+    language: locale.language,
+    currency: data.price_overview?.currency || null,
     publishers: data.publishers || [],
     developers: data.developers || [],
     categories: (data.categories || []).map((c: any) => c.description),
@@ -273,17 +443,17 @@ async function getGameSummary(appId: string) {
   };
 
   await redis.set(cacheKey, JSON.stringify(summary), { EX: cacheTtlSeconds });
-  await persistGameMetadata(summary);
+  await persistGameMetadata(summary, locale);
   return summary;
 }
 
-async function persistGameMetadata(payload: any) {
+async function persistGameMetadata(payload: any, locale: StoreLocale) {
   try {
     await pool.query(
-      `INSERT INTO game_metadata_cache (app_id, payload, updated_at)
-       VALUES ($1, $2, now())
-       ON CONFLICT (app_id) DO UPDATE SET payload = EXCLUDED.payload, updated_at = now();`,
-      [payload.appId, payload],
+      `INSERT INTO game_metadata_cache (app_id, cc, language, payload, updated_at)
+       VALUES ($1, $2, $3, $4, now())
+       ON CONFLICT (app_id, cc, language) DO UPDATE SET payload = EXCLUDED.payload, updated_at = now();`,
+      [payload.appId, locale.cc, locale.language, payload],
     );
   } catch (err) {
     console.error("[postgres] failed to upsert game metadata", err);
@@ -377,11 +547,15 @@ async function getCurrentPlayers(appId: string): Promise<number | null> {
   }
 }
 
-async function getFriendsWithProfiles(steamId: string) {
+async function fetchFriendIds(steamId: string): Promise<string[]> {
   const listUrl = `https://api.steampowered.com/ISteamUser/GetFriendList/v1/?key=${steamApiKey}&steamid=${steamId}`;
   const listResp = await fetchWithRetry(listUrl, {}, 2, 300);
   const listJson = (await listResp.json()) as any;
-  const friends: string[] = listJson?.friendslist?.friends?.map((f: any) => f.steamid) || [];
+  return listJson?.friendslist?.friends?.map((f: any) => f.steamid) || [];
+}
+
+async function getFriendsWithProfiles(steamId: string) {
+  const friends = await fetchFriendIds(steamId);
   if (!friends.length) return [];
 
   const chunks: string[][] = [];
@@ -407,19 +581,111 @@ async function getFriendsWithProfiles(steamId: string) {
   }));
 }
 
-function resolveSteamId(req: express.Request, paramId: string) {
-  if (paramId !== "me") return paramId;
+async function verifyClaims(req: express.Request): Promise<AccessClaims | null> {
   const authHeader = req.headers.authorization;
   if (!authHeader?.startsWith("Bearer ")) return null;
   try {
     const token = authHeader.slice("Bearer ".length);
-    const decoded = jwt.verify(token, jwtSecret) as jwt.JwtPayload & { steamId?: string };
-    return decoded.steamId || null;
+    const { payload } = await jwtVerify(token, jwks, { issuer: "auth-service" });
+    return payload as AccessClaims;
   } catch {
     return null;
   }
 }
 
+/**
+ * Resolves the SteamID a player route is about, or answers 401/403 (503 when the privacy check
+ * cannot be made) and returns null. With a `section`, the player's privacy settings are checked
+ * too, before anything is fetched from Steam.
+ */
+async function authorizePlayer(req: express.Request, res: express.Response, paramId: string, section?: PrivacySection) {
+  const claims = await verifyClaims(req);
+  const access = playerAccess(claims, paramId);
+  if (access.status === "unauthorized") {
+    res.status(401).json({ error: "unauthorized" });
+    return null;
+  }
+  if (access.status === "forbidden") {
+    res.status(403).json({ error: "forbidden", missingScopes: access.missingScopes });
+    return null;
+  }
+  if (section) {
+    // Callers run this before their own try block: a Postgres or Redis failure is answered here.
+    let allowed: boolean;
+    try {
+      allowed = await privacyAllows(access.steamId, section, access.own, claims?.steamId);
+    } catch (err) {
+      console.error("[privacy] check failed", err);
+      res.status(503).json({ error: "privacy_check_unavailable", message: "Privacy settings could not be checked." });
+      return null;
+    }
+    if (!allowed) {
+      res.status(403).json({ error: "profile_private", message: `This player's ${sectionLabels[section]} is private.`, section });
+      return null;
+    }
+  }
+  return access.steamId;
+}
+
+const mapPrivacy = (row: any): PrivacySettings => ({
+  visibility: row.visibility,
+  sections: { ...defaultPrivacy.sections, ...row.sections },
+  keepSnapshots: row.keep_snapshots,
+});
+
+async function loadPrivacy(steamId: string): Promise<PrivacySettings> {
+  const res = await pool.query(`SELECT visibility, sections, keep_snapshots FROM player_privacy WHERE steam_id = $1`, [steamId]);
+  return res.rowCount ? mapPrivacy(res.rows[0]) : defaultPrivacy;
+}
+
+async function privacyAllows(steamId: string, section: PrivacySection, own: boolean, callerSteamId?: string) {
+  const decision = privacyDecision(await loadPrivacy(steamId), section, own);
+  if (decision !== "check_friendship") return decision === "allow";
+  return callerSteamId ? (await cachedFriendIds(steamId)).includes(callerSteamId) : false;
+}
+
+// A friend list Steam will not give us (private, or no API key) counts as empty.
+async function cachedFriendIds(steamId: string): Promise<string[]> {
+  const cacheKey = `friends:ids:${steamId}`;
+  const cached = await redis.get(cacheKey);
+  if (cached) {
+    cacheHits.inc({ resource: "friend_ids" });
+    return JSON.parse(cached);
+  }
+  if (!steamApiKey) return [];
+  const ids = await fetchFriendIds(steamId).catch((err) => {
+    console.warn("[privacy] friend list lookup failed", err);
+    return null;
+  });
+  if (!ids) return [];
+  await redis.set(cacheKey, JSON.stringify(ids), { EX: friendIdsCacheTtlSeconds });
+  return ids;
+}
+
+async function authorizeScopes(req: express.Request, res: express.Response, scopes: string[]) {
+  const claims = await verifyClaims(req);
+  if (!claims) {
+    res.status(401).json({ error: "unauthorized" });
+    return false;
+  }
+  const missing = missingScopes(claims, scopes);
+  if (missing.length) {
+    res.status(403).json({ error: "forbidden", missingScopes: missing });
+    return false;
+  }
+  return true;
+}
+
+// Deletes the named keys plus any matching one of `patterns`; returns how many existed.
+async function purgeCache(keys: string[], ...patterns: string[]) {
+  const matched: string[] = [];
+  for (const pattern of patterns) {
+    for await (const key of redis.scanIterator({ MATCH: pattern, COUNT: 100 })) matched.push(key);
+  }
+  const all = [...keys, ...matched];
+  return all.length ? redis.del(all) : 0;
+}
+
 async function getFeaturedDotaGames() {
   const url = `${dotaLiveBase}/GetTopLiveGame/v1/?key=${steamApiKey}&partner=0`;
   const resp = await fetchWithRetry(url, {}, 2, 300).catch((err) => {
@@ -785,8 +1051,10 @@ async function getGameNews(appId: string) {
   }));
 }
 
+// Snapshots are history the player has to agree to keep (privacy `keepSnapshots`).
 async function persistPlayerSnapshot(steamId: string, payload: any) {
   try {
+    if (!(await loadPrivacy(steamId)).keepSnapshots) return;
     await pool.query(
       `INSERT INTO player_stats_snapshots (steam_id, snapshot, created_at) VALUES ($1, $2, now());`,
       [steamId, payload],
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { playerAccess } from "./access";
+
+const self = "76561197960265728";
+const other = "76561197960265729";
+
+describe("playerAccess", () => {
+  it("lets stats:read holders read their own data by id or as me", () => {
+    const claims = { steamId: self, scopes: ["stats:read"] };
+    expect(playerAccess(claims, "me")).toEqual({ status: "ok", steamId: self, own: true });
+    expect(playerAccess(claims, self)).toEqual({ status: "ok", steamId: self, own: true });
+  });
+
+  it("requires players:read:others for someone else's data", () => {
+    expect(playerAccess({ steamId: self, scopes: ["stats:read"] }, other)).toEqual({
+      status: "forbidden",
+      missingScopes: ["players:read:others"],
+    });
+    expect(playerAccess({ steamId: self, scopes: ["stats:read", "players:read:others"] }, other)).toEqual({
+      status: "ok",
+      steamId: other,
+      own: false,
+    });
+  });
+
+  it("rejects missing tokens and tokens without stats:read", () => {
+    expect(playerAccess(null, other)).toEqual({ status: "unauthorized" });
+    expect(playerAccess({ scopes: ["stats:read"] }, "me")).toEqual({ status: "unauthorized" });
+    expect(playerAccess({ steamId: self, roles: ["user"] } as any, "me")).toEqual({ status: "forbidden", missingScopes: ["stats:read"] });
+  });
+});
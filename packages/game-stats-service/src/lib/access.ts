@@ -0,0 +1,29 @@
+import type { JWTPayload } from "jose";
+
+export type AccessClaims = JWTPayload & { steamId?: string; scopes?: string[] };
+
+export type PlayerAccess =
+  // `own` is true when the caller asked about themselves; privacy settings only bind others.
+  | { status: "ok"; steamId: string; own: boolean }
+  // No valid token, or "me" with a token that names no SteamID.
+  | { status: "unauthorized" }
+  | { status: "forbidden"; missingScopes: string[] };
+
+export function missingScopes(claims: AccessClaims, required: string[]): string[] {
+  const granted = claims.scopes || [];
+  return required.filter((scope) => !granted.includes(scope));
+}
+
+/**
+ * Decides whether the caller may read a player's data. Everything needs `stats:read`; another
+ * player's data (anything but "me" or the caller's own SteamID) also needs `players:read:others`,
+ * and then still has to pass that player's privacy settings (see privacy.ts).
+ */
+export function playerAccess(claims: AccessClaims | null, paramId: string): PlayerAccess {
+  if (!claims) return { status: "unauthorized" };
+  const own = paramId === "me" || paramId === claims.steamId;
+  const steamId = paramId === "me" ? claims.steamId : paramId;
+  if (!steamId) return { status: "unauthorized" };
+  const missing = missingScopes(claims, own ? ["stats:read"] : ["stats:read", "players:read:others"]);
+  return missing.length ? { status: "forbidden", missingScopes: missing } : { status: "ok", steamId, own };
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import { fetchWithRetry } from "./http";
+import { fetchWithRetry, redactUrl } from "./http";
 
 describe("fetchWithRetry", () => {
   it("retries and succeeds", async () => {
@@ -24,3 +24,14 @@ describe("fetchWithRetry", () => {
     expect(fetchMock).toHaveBeenCalledTimes(3);
   });
 });
+
+describe("redactUrl", () => {
+  it("strips the Steam API key from traced URLs", () => {
+    expect(redactUrl("https://api.steampowered.com/ISteamUser/GetFriendList/v1/?key=abc123&steamid=1")).toBe(
+      "https://api.steampowered.com/ISteamUser/GetFriendList/v1/?key=REDACTED&steamid=1",
+    );
+    expect(redactUrl("https://store.steampowered.com/api/appdetails?appids=570")).toBe(
+      "https://store.steampowered.com/api/appdetails?appids=570",
+    );
+  });
+});
@@ -1,25 +1,51 @@
+import { SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+
+const tracer = trace.getTracer("game-stats-service");
+
+// Steam Web API calls carry the API key in the query string; keep it out of span attributes.
+export function redactUrl(url: string) {
+  return url.replace(/([?&]key=)[^&]*/i, "$1REDACTED");
+}
+
 export async function fetchWithRetry(
   url: string,
   init: RequestInit = {},
   retries = 3,
   backoffMs = 300,
 ): Promise<Response> {
-  let attempt = 0;
-  let lastError: Error | null = null;
-  while (attempt <= retries) {
-    try {
-      const res = await fetch(url, init);
-      if (!res.ok) {
-        throw new Error(`Request failed (${res.status})`);
+  const safeUrl = redactUrl(url);
+  return tracer.startActiveSpan(
+    `${init.method || "GET"} ${new URL(url).host}`,
+    { kind: SpanKind.CLIENT, attributes: { "http.request.method": init.method || "GET", "url.full": safeUrl } },
+    async (span) => {
+      let attempt = 0;
+      let lastError: Error | null = null;
+      try {
+        while (attempt <= retries) {
+          try {
+            const res = await fetch(url, init);
+            span.setAttribute("http.response.status_code", res.status);
+            if (!res.ok) {
+              throw new Error(`Request failed (${res.status})`);
+            }
+            span.setAttribute("http.request.resend_count", attempt);
+            return res;
+          } catch (err) {
+            lastError = err as Error;
+            span.addEvent("attempt_failed", { attempt, message: lastError.message });
+            if (attempt === retries) break;
+            const delay = backoffMs * Math.pow(2, attempt);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+          }
+          attempt += 1;
+        }
+        const error = lastError ?? new Error("Unknown fetch error");
+        span.recordException(error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+        throw error;
+      } finally {
+        span.end();
       }
-      return res;
-    } catch (err) {
-      lastError = err as Error;
-      if (attempt === retries) break;
-      const delay = backoffMs * Math.pow(2, attempt);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-    attempt += 1;
-  }
-  throw lastError ?? new Error("Unknown fetch error");
+    },
+  );
 }
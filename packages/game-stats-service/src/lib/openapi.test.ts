@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRequestValidator } from "shared";
+import { openApiDocument } from "../openapi";
+
+function run(method: string, path: string, query: Record<string, string> = {}) {
+  const validate = createRequestValidator(openApiDocument);
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = vi.fn((code: number) => ((res.statusCode = code), res));
+  res.json = vi.fn((body: unknown) => ((res.body = body), res));
+  const next = vi.fn();
+  validate({ method, path, query, body: {} } as any, res, next);
+  return { res, next };
+}
+
+describe("createRequestValidator", () => {
+  it("passes well-formed ids and literal routes through", () => {
+    expect(run("GET", "/games/570/summary").next).toHaveBeenCalled();
+    expect(run("GET", "/players/me/friends").next).toHaveBeenCalled();
+    expect(run("GET", "/players/76561197960287930/inventory", { appId: "730", contextId: "2" }).next).toHaveBeenCalled();
+    expect(run("GET", "/spotlight/owned").next).toHaveBeenCalled();
+    expect(run("GET", "/health").next).toHaveBeenCalled();
+  });
+
+  it("rejects bad appIds and steamIds with a 400", () => {
+    const badApp = run("GET", "/games/abc/summary");
+    expect(badApp.next).not.toHaveBeenCalled();
+    expect(badApp.res.statusCode).toBe(400);
+    expect(badApp.res.body).toMatchObject({ error: "invalid_request", details: [{ in: "path", name: "appId" }] });
+
+    const badSteam = run("GET", "/players/1234/stats");
+    expect(badSteam.res.statusCode).toBe(400);
+    expect(badSteam.res.body.details[0]).toMatchObject({ in: "path", name: "steamId" });
+
+    const badQuery = run("GET", "/players/me/inventory", { appId: "730;drop" });
+    expect(badQuery.res.body.details[0]).toMatchObject({ in: "query", name: "appId" });
+  });
+});
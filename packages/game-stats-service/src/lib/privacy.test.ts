@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { defaultPrivacy, privacyDecision } from "./privacy";
+
+describe("privacyDecision", () => {
+  it("always lets players read their own data", () => {
+    const hidden = { ...defaultPrivacy, visibility: "private" as const, sections: { stats: false, friends: false, inventory: false } };
+    expect(privacyDecision(hidden, "stats", true)).toBe("allow");
+  });
+
+  it("follows the visibility for everyone else", () => {
+    expect(privacyDecision(defaultPrivacy, "inventory", false)).toBe("allow");
+    expect(privacyDecision({ ...defaultPrivacy, visibility: "friends" }, "stats", false)).toBe("check_friendship");
+    expect(privacyDecision({ ...defaultPrivacy, visibility: "private" }, "friends", false)).toBe("deny");
+  });
+
+  it("hides a switched-off section whatever the visibility", () => {
+    const settings = { ...defaultPrivacy, sections: { ...defaultPrivacy.sections, inventory: false } };
+    expect(privacyDecision(settings, "inventory", false)).toBe("deny");
+    expect(privacyDecision(settings, "stats", false)).toBe("allow");
+  });
+});
@@ -0,0 +1,36 @@
+export const privacySections = ["stats", "friends", "inventory"] as const;
+export type PrivacySection = (typeof privacySections)[number];
+
+export const visibilities = ["public", "friends", "private"] as const;
+export type Visibility = (typeof visibilities)[number];
+
+export interface PrivacySettings {
+  // Who besides the player may query their data through the API.
+  visibility: Visibility;
+  // A section switched off is private whatever the visibility.
+  sections: Record<PrivacySection, boolean>;
+  // Consent to keep stats snapshots in `player_stats_snapshots`.
+  keepSnapshots: boolean;
+}
+
+// Applies to SteamIDs that never saved settings, including players who have not signed up;
+// Steam's own profile privacy still applies to those.
+export const defaultPrivacy: PrivacySettings = {
+  visibility: "public",
+  sections: { stats: true, friends: true, inventory: true },
+  keepSnapshots: false,
+};
+
+export type PrivacyDecision = "allow" | "deny" | "check_friendship";
+
+/**
+ * Whether a section of a player's data may be served. The player always sees their own data;
+ * "friends" needs the caller on the player's Steam friend list, which the caller checks.
+ */
+export function privacyDecision(settings: PrivacySettings, section: PrivacySection, own: boolean): PrivacyDecision {
+  if (own) return "allow";
+  if (!settings.sections[section] || settings.visibility === "private") return "deny";
+  return settings.visibility === "friends" ? "check_friendship" : "allow";
+}
+
+export const sectionLabels: Record<PrivacySection, string> = { stats: "stats", friends: "friend list", inventory: "inventory" };
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { defaultStoreLocale, storeLocaleFrom } from "./storeLocale";
+
+describe("storeLocaleFrom", () => {
+  it("uses the headers set by the gateway", () => {
+    expect(storeLocaleFrom({ "x-store-country": "DE", "x-store-language": "german" })).toEqual({ cc: "DE", language: "german" });
+  });
+
+  it("falls back to US English for missing or malformed values", () => {
+    expect(storeLocaleFrom({})).toEqual(defaultStoreLocale);
+    expect(storeLocaleFrom({ "x-store-country": "de", "x-store-language": "pt-BR" })).toEqual(defaultStoreLocale);
+  });
+});
@@ -0,0 +1,20 @@
+// Store country (prices, availability) and language (names, descriptions) for appdetails calls.
+export interface StoreLocale {
+  cc: string;
+  language: string;
+}
+
+export const defaultStoreLocale: StoreLocale = { cc: "US", language: "english" };
+
+/**
+ * Reads the locale the gateway resolved from the caller's `cc`/`l` parameters or preferences
+ * (X-Store-Country / X-Store-Language); anything missing or malformed falls back to US English.
+ */
+export function storeLocaleFrom(headers: Record<string, string | string[] | undefined>): StoreLocale {
+  const country = headers["x-store-country"];
+  const language = headers["x-store-language"];
+  return {
+    cc: typeof country === "string" && /^[A-Z]{2}$/.test(country) ? country : defaultStoreLocale.cc,
+    language: typeof language === "string" && /^[a-z]+$/.test(language) ? language : defaultStoreLocale.language,
+  };
+}
@@ -0,0 +1,349 @@
+import { errorResponse, errorSchema, jsonResponse, OpenApiDocument, OpenApiParameter, ref } from "shared";
+import { privacySections, visibilities } from "./lib/privacy";
+
+const appIdParam: OpenApiParameter = { name: "appId", in: "path", required: true, schema: ref("AppId") };
+const steamIdParam: OpenApiParameter = {
+  name: "steamId",
+  in: "path",
+  required: true,
+  description: 'SteamID64, or "me" for the caller\'s own id from the bearer token. Needs `stats:read`, plus `players:read:others` for anyone but the caller, whose privacy settings then apply.',
+  schema: ref("SteamIdOrMe"),
+};
+
+// Set by the gateway from the caller's `cc`/`l` parameters or preferences; US English without them.
+const localeParams: OpenApiParameter[] = [
+  {
+    name: "X-Store-Country",
+    in: "header",
+    description: "ISO 3166 country the store prices for, e.g. DE.",
+    schema: { type: "string", pattern: "^[A-Z]{2}$" },
+  },
+  {
+    name: "X-Store-Language",
+    in: "header",
+    description: "Steam store language name, e.g. german.",
+    schema: { type: "string", pattern: "^[a-z]+$" },
+  },
+];
+
+const list = (items: Record<string, unknown>) => ({
+  type: "object",
+  required: ["count", "items"],
+  properties: { count: { type: "integer" }, items: { type: "array", items } },
+});
+
+const item = (schema: Record<string, unknown>) => ({ type: "object", required: ["item"], properties: { item: schema } });
+
+const purged = { type: "object", required: ["purged"], properties: { purged: { type: "integer", description: "Redis keys removed" } } };
+
+const ownedGame = {
+  type: "object",
+  properties: {
+    appid: { type: "integer" },
+    name: { type: "string" },
+    playtime_forever: { type: "integer" },
+    playtime_2weeks: { type: "integer" },
+    img_icon_url: { type: "string" },
+    rtime_last_played: { type: "integer" },
+  },
+};
+
+export const openApiDocument: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "game-stats-service",
+    version: "0.1.0",
+    description: "Steam Web API aggregation for games, players, spotlight and Dota live data, cached in Redis.",
+  },
+  paths: {
+    "/games/{appId}/summary": {
+      get: {
+        tags: ["games"],
+        summary: "Store details and current player count for an app",
+        description: "Cached per store country and language.",
+        parameters: [appIdParam, ...localeParams],
+        responses: {
+          "200": jsonResponse("Game summary", item(ref("GameSummary"))),
+          "400": errorResponse("Invalid appId"),
+          "500": errorResponse("Steam lookup failed or app not found"),
+        },
+      },
+    },
+    "/games/{appId}/news": {
+      get: {
+        tags: ["games"],
+        summary: "Latest news posts for an app",
+        parameters: [appIdParam],
+        responses: {
+          "200": jsonResponse("News items", list(ref("NewsItem"))),
+          "400": errorResponse("Invalid appId"),
+          "500": errorResponse("Steam lookup failed"),
+        },
+      },
+    },
+    "/players/me/privacy": {
+      get: {
+        tags: ["players"],
+        summary: "The caller's privacy settings (defaults until saved)",
+        responses: {
+          "200": jsonResponse("Privacy settings", item(ref("PrivacySettings"))),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks stats:read"),
+        },
+      },
+      put: {
+        tags: ["players"],
+        summary: "Replace the caller's privacy settings",
+        description: "Turning `keepSnapshots` off deletes the stats snapshots kept so far.",
+        requestBody: { required: true, content: { "application/json": { schema: ref("PrivacySettings") } } },
+        responses: {
+          "200": jsonResponse("Saved settings", item(ref("PrivacySettings"))),
+          "400": errorResponse("Invalid settings"),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks stats:read"),
+        },
+      },
+    },
+    "/players/{steamId}/stats": {
+      get: {
+        tags: ["players"],
+        summary: "Profile, playtime totals and top/recent games for a player",
+        parameters: [steamIdParam],
+        responses: {
+          "200": jsonResponse("Player stats", item(ref("PlayerStats"))),
+          "400": errorResponse("Invalid steamId"),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks stats:read or players:read:others (`forbidden`), or the player keeps this private (`profile_private`)"),
+          "503": errorResponse("Privacy settings could not be checked"),
+          "500": errorResponse("Missing API key or Steam lookup failed"),
+        },
+      },
+    },
+    "/players/{steamId}/friends": {
+      get: {
+        tags: ["players"],
+        summary: "Friend list with persona and presence",
+        parameters: [steamIdParam],
+        responses: {
+          "200": jsonResponse("Friends", list(ref("Friend"))),
+          "400": errorResponse("Invalid steamId"),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks stats:read or players:read:others (`forbidden`), or the player keeps this private (`profile_private`)"),
+          "503": errorResponse("Privacy settings could not be checked"),
+          "500": errorResponse("Missing API key or Steam lookup failed"),
+        },
+      },
+    },
+    "/players/{steamId}/inventory": {
+      get: {
+        tags: ["players"],
+        summary: "Public community inventory for one app/context",
+        parameters: [
+          steamIdParam,
+          { name: "appId", in: "query", description: "Defaults to 730 (CS2).", schema: ref("AppId") },
+          { name: "contextId", in: "query", description: "Defaults to 2.", schema: { type: "string", pattern: "^[0-9]{1,10}$" } },
+        ],
+        responses: {
+          "200": jsonResponse("Inventory items", list(ref("InventoryItem"))),
+          "400": errorResponse("Invalid steamId, appId or contextId"),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks stats:read or players:read:others (`forbidden`), or the player keeps this private (`profile_private`)"),
+          "503": errorResponse("Privacy settings could not be checked"),
+          "500": errorResponse("Inventory is private or Steam lookup failed"),
+        },
+      },
+    },
+    "/live/dota/featured": {
+      get: {
+        tags: ["live"],
+        summary: "Top live Dota 2 matches with league and team names",
+        responses: {
+          "200": jsonResponse("Live matches", list({ type: "object", additionalProperties: true })),
+          "500": errorResponse("Missing API key or Steam lookup failed"),
+        },
+      },
+    },
+    "/spotlight/owned": {
+      get: {
+        tags: ["spotlight"],
+        summary: "The caller's owned and recently played games, by playtime",
+        responses: {
+          "200": jsonResponse("Owned games", {
+            type: "object",
+            properties: { recent: { type: "array", items: ownedGame }, owned: { type: "array", items: ownedGame } },
+          }),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks stats:read"),
+          "500": errorResponse("Steam lookup failed"),
+        },
+      },
+    },
+    "/spotlight/{appId}": {
+      get: {
+        tags: ["spotlight"],
+        summary: "Playtime, achievements, news and player-count trend for one of the caller's games",
+        parameters: [appIdParam],
+        responses: {
+          "200": jsonResponse("Spotlight", ref("SpotlightPayload")),
+          "400": errorResponse("Invalid appId"),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks stats:read"),
+          "500": errorResponse("Missing API key or Steam lookup failed"),
+        },
+      },
+    },
+    "/cache/games/{appId}": {
+      delete: {
+        tags: ["cache"],
+        summary: "Purge cached summary, achievement schema and spotlights for a game (needs cache:purge)",
+        parameters: [appIdParam],
+        responses: {
+          "200": jsonResponse("Purged", purged),
+          "400": errorResponse("Invalid appId"),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks cache:purge"),
+          "500": errorResponse("Purge failed"),
+        },
+      },
+    },
+    "/cache/players/{steamId}": {
+      delete: {
+        tags: ["cache"],
+        summary: "Purge cached stats and spotlights for a player (needs cache:purge)",
+        parameters: [{ name: "steamId", in: "path", required: true, schema: { type: "string", pattern: "^[0-9]{17}$" } }],
+        responses: {
+          "200": jsonResponse("Purged", purged),
+          "400": errorResponse("Invalid steamId"),
+          "401": errorResponse("Missing or invalid token"),
+          "403": errorResponse("Token lacks cache:purge"),
+          "500": errorResponse("Purge failed"),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: errorSchema,
+      AppId: { type: "string", pattern: "^[0-9]{1,10}$", example: "570" },
+      SteamIdOrMe: { type: "string", pattern: "^(me|[0-9]{17})$", example: "76561197960287930" },
+      GameSummary: {
+        type: "object",
+        properties: {
+          appId: { type: "string" },
+          name: { type: "string" },
+          type: { type: "string" },
+          isFree: { type: "boolean" },
+          headerImage: { type: "string" },
+          shortDescription: { type: "string" },
+          genres: { type: "array", items: { type: "string" } },
+          platforms: { type: "object", additionalProperties: { type: "boolean" } },
+          price: { type: "object", nullable: true, additionalProperties: true },
+          cc: { type: "string", description: "Store country the price is for." },
+          language: { type: "string" },
+          currency: { type: "string", nullable: true, description: "Currency of `price`; null for free games." },
+          publishers: { type: "array", items: { type: "string" } },
+          developers: { type: "array", items: { type: "string" } },
+          categories: { type: "array", items: { type: "string" } },
+          currentPlayers: { type: "integer", nullable: true },
+        },
+      },
+      NewsItem: {
+        type: "object",
+        properties: {
+          gid: { type: "string" },
+          title: { type: "string" },
+          url: { type: "string" },
+          author: { type: "string" },
+          date: { type: "integer" },
+          contents: { type: "string" },
+        },
+      },
+      PrivacySettings: {
+        type: "object",
+        additionalProperties: false,
+        required: ["visibility", "sections", "keepSnapshots"],
+        properties: {
+          visibility: {
+            type: "string",
+            enum: [...visibilities],
+            description: "Who besides the player may query their data: anyone signed in, Steam friends only, or nobody",
+          },
+          sections: {
+            type: "object",
+            additionalProperties: false,
+            required: [...privacySections],
+            properties: Object.fromEntries(privacySections.map((section) => [section, { type: "boolean" }])),
+            description: "A section switched off is private whatever the visibility",
+          },
+          keepSnapshots: { type: "boolean", description: "Consent to keep stats snapshots over time" },
+        },
+      },
+      PlayerStats: {
+        type: "object",
+        properties: {
+          profile: {
+            type: "object",
+            properties: {
+              steamid: { type: "string" },
+              personaname: { type: "string" },
+              avatarfull: { type: "string" },
+              profileurl: { type: "string" },
+            },
+          },
+          totals: {
+            type: "object",
+            properties: {
+              ownedGames: { type: "integer" },
+              recentGames: { type: "integer" },
+              totalPlaytimeHours: { type: "number" },
+            },
+          },
+          topGames: { type: "array", items: { type: "object", additionalProperties: true } },
+          recentGames: { type: "array", items: { type: "object", additionalProperties: true } },
+        },
+      },
+      Friend: {
+        type: "object",
+        properties: {
+          steamId: { type: "string" },
+          personaName: { type: "string" },
+          avatar: { type: "string" },
+          profileUrl: { type: "string" },
+          status: { type: "string" },
+          lastLogoff: { type: "integer" },
+          game: { type: "string" },
+        },
+      },
+      InventoryItem: {
+        type: "object",
+        properties: {
+          assetId: { type: "string" },
+          classId: { type: "string" },
+          name: { type: "string" },
+          type: { type: "string" },
+          icon: { type: "string" },
+          tradable: { type: "boolean" },
+        },
+      },
+      SpotlightPayload: {
+        type: "object",
+        properties: {
+          appId: { type: "string" },
+          gameName: { type: "string" },
+          iconUrl: { type: "string" },
+          headerImage: { type: "string" },
+          playtimeForeverMinutes: { type: "integer" },
+          playtime2WeeksMinutes: { type: "integer" },
+          lastPlayedTimestamp: { type: "integer" },
+          achievements: { type: "object", additionalProperties: true },
+          currentPlayers: { type: "integer", nullable: true },
+          news: { type: "array", items: ref("NewsItem") },
+          trend: {
+            type: "array",
+            items: { type: "object", properties: { timestamp: { type: "integer" }, playerCount: { type: "integer", nullable: true } } },
+          },
+        },
+      },
+    },
+  },
+};
@@ -1,9 +1,14 @@
+import { createRequestValidator, logFormat, requestContext, startTracing } from "shared";
+// Must run before express/http are loaded so the instrumentations can patch them.
+startTracing("live-service");
+
 import cors from "cors";
 import dotenv from "dotenv";
 import express from "express";
 import morgan from "morgan";
 import { EventEmitter } from "events";
 import client, { collectDefaultMetrics, Registry } from "prom-client";
+import { openApiDocument } from "./openapi";
 
 dotenv.config();
 
@@ -42,9 +47,10 @@ const watchersGauge = new client.Gauge({
   registers: [metricsRegistry],
 });
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ["X-Request-Id"] }));
+app.use(requestContext);
 app.use(express.json());
-app.use(morgan("dev"));
+app.use(morgan(logFormat));
 
 app.get("/health", (_req, res) => {
   res.json({ status: "ok", service: "live-service" });
@@ -59,6 +65,12 @@ app.get("/metrics", async (_req, res) => {
   res.end(await metricsRegistry.metrics());
 });
 
+app.get("/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
+});
+
+app.use(createRequestValidator(openApiDocument));
+
 app.get("/dota/matches/:matchId", (req, res) => {
   const match = ensureMatch(req.params.matchId);
   res.json({ item: match });
@@ -0,0 +1,59 @@
+import { errorResponse, errorSchema, jsonResponse, OpenApiDocument, OpenApiParameter, ref } from "shared";
+
+const matchIdParam: OpenApiParameter = {
+  name: "matchId",
+  in: "path",
+  required: true,
+  schema: { type: "string", pattern: "^[A-Za-z0-9_-]{1,64}$", example: "demo-570" },
+};
+
+export const openApiDocument: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "live-service",
+    version: "0.1.0",
+    description: "Simulated live Dota match state, polled or streamed over server-sent events.",
+  },
+  paths: {
+    "/dota/matches/{matchId}": {
+      get: {
+        tags: ["dota"],
+        summary: "Current state of a match (created on first request)",
+        parameters: [matchIdParam],
+        responses: {
+          "200": jsonResponse("Match state", { type: "object", required: ["item"], properties: { item: ref("MatchState") } }),
+          "400": errorResponse("Invalid matchId"),
+        },
+      },
+    },
+    "/dota/matches/{matchId}/stream": {
+      get: {
+        tags: ["dota"],
+        summary: "Server-sent events with the match state",
+        description: "Sends an `init` event with the current state, then an unnamed event per tick.",
+        parameters: [matchIdParam],
+        responses: {
+          "200": { description: "Event stream of MatchState payloads", content: { "text/event-stream": { schema: { type: "string" } } } },
+          "400": errorResponse("Invalid matchId"),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: errorSchema,
+      MatchState: {
+        type: "object",
+        properties: {
+          matchId: { type: "string" },
+          radiantScore: { type: "integer" },
+          direScore: { type: "integer" },
+          durationSeconds: { type: "integer" },
+          updatedAt: { type: "integer" },
+          league: { type: "string" },
+          teams: { type: "object", properties: { radiant: { type: "string" }, dire: { type: "string" } } },
+        },
+      },
+    },
+  },
+};
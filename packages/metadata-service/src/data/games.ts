@@ -6,9 +6,69 @@ export interface GameMetadata {
   publisher: string;
   icon: string;
   tags?: string[];
+  // The rest of the store page, for single-game reads; lists leave it out.
+  details?: GameDetails | null;
 }
 
-export const games: GameMetadata[] = [
+// Bump when GameDetails changes shape, with a migration that clears `refreshed_at` for rows below
+// the new version so the catalog sync refetches them (as 009 does). Until then the catalog serves
+// no details for those rows and /games/:appId fetches them on first read.
+export const gameDetailsVersion = 1;
+
+export interface GameScreenshot {
+  id: number;
+  thumbnail: string;
+  full: string;
+}
+
+export interface GameMovie {
+  id: number;
+  name: string;
+  thumbnail: string;
+  // Best quality of each format Steam offers; older trailers have no HLS stream, newer ones only that.
+  webm: string | null;
+  mp4: string | null;
+  hls: string | null;
+}
+
+export interface GameLanguage {
+  name: string;
+  fullAudio: boolean;
+}
+
+// Plain text with line breaks; Steam sends HTML.
+export interface GameRequirements {
+  minimum: string | null;
+  recommended: string | null;
+}
+
+export interface AgeRating {
+  // Board as Steam names it, e.g. "esrb", "pegi", "usk".
+  board: string;
+  rating: string;
+  descriptors: string | null;
+}
+
+/** Extended store data from appdetails, stored as JSON next to the catalog row (English). */
+export interface GameDetails {
+  version: number;
+  fetchedAt: string;
+  releaseDate: { comingSoon: boolean; date: string | null };
+  metacritic: { score: number; url: string | null } | null;
+  // Steam user reviews written for the game; appdetails has no positive/negative split.
+  reviewCount: number | null;
+  screenshots: GameScreenshot[];
+  movies: GameMovie[];
+  supportedLanguages: GameLanguage[];
+  pcRequirements: GameRequirements;
+  // App ids of the game's DLC, as listed on its store page.
+  dlc: string[];
+  requiredAge: number;
+  ageRatings: AgeRating[];
+}
+
+// Seeded into `game_metadata` by migration 002; the live catalog is the table, not this list.
+export const seedGames: GameMetadata[] = [
   {
     appId: "570",
     name: "Dota 2",
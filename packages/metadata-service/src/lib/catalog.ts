@@ -0,0 +1,117 @@
+import type { Pool } from "pg";
+import { GameDetails, gameDetailsVersion, GameMetadata } from "../data/games";
+
+// Where a row last came from: the seed list, Steam appdetails, a featured-list snapshot, or
+// the Steam app list (a name only, until the sync enriches it; see catalogSync.ts).
+export type CatalogSource = "seed" | "appdetails" | "featured" | "applist";
+
+// A text or array field takes the new value unless it is blank, and only overrides a stored
+// value when the source is authoritative ($9).
+const merge = (field: string, blank: (ref: string) => string) =>
+  `${field} = CASE WHEN NOT ${blank(`EXCLUDED.${field}`)} AND ($9 OR ${blank(`game_metadata.${field}`)})
+    THEN EXCLUDED.${field} ELSE game_metadata.${field} END`;
+const blankText = (ref: string) => `${ref} = ''`;
+const blankArray = (ref: string) => `cardinality(${ref}) = 0`;
+
+/**
+ * Inserts or refreshes one game; `inserted` is true for a new row. Featured lists only carry a
+ * name, an image and a discount tag, so they are not authoritative: they fill in blanks but
+ * never overwrite what appdetails or the seed list stored.
+ */
+const catalogUpsertSql = `
+  INSERT INTO game_metadata (app_id, name, genres, developer, publisher, icon, tags, source)
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+  ON CONFLICT (app_id) DO UPDATE SET
+    ${merge("name", blankText)},
+    ${merge("genres", blankArray)},
+    ${merge("developer", blankText)},
+    ${merge("publisher", blankText)},
+    ${merge("icon", blankText)},
+    ${merge("tags", blankArray)},
+    source = CASE WHEN $9 THEN EXCLUDED.source ELSE game_metadata.source END,
+    updated_at = now()
+  RETURNING (xmax = 0) AS inserted`;
+
+// Parameters for catalogUpsertSql.
+const catalogUpsertParams = (game: GameMetadata, source: CatalogSource) => [
+  game.appId,
+  game.name,
+  game.genres,
+  game.developer,
+  game.publisher,
+  game.icon,
+  game.tags || [],
+  source,
+  source === "seed" || source === "appdetails",
+];
+
+const columns = "app_id, name, genres, developer, publisher, icon, tags";
+
+const mapGame = (row: any): GameMetadata => ({
+  appId: row.app_id,
+  name: row.name,
+  genres: row.genres,
+  developer: row.developer,
+  publisher: row.publisher,
+  icon: row.icon,
+  tags: row.tags,
+});
+
+// Details stored under an older gameDetailsVersion are not served; the row is refetched instead.
+const mapDetails = (row: any): GameDetails | null => (row.details_version === gameDetailsVersion ? row.details : null);
+
+// ILIKE pattern for a substring match, with the user's wildcards escaped.
+const contains = (q: string) => `%${q.replace(/[\\%_]/g, "\\$&")}%`;
+
+/** The game catalog in `game_metadata`, shared by every metadata-service replica. */
+export function createCatalogStore(pool: Pool) {
+  const upsert = async (game: GameMetadata, source: CatalogSource) => {
+    const res = await pool.query(catalogUpsertSql, catalogUpsertParams(game, source));
+    // Only appdetails carries details; other sources keep what is stored.
+    if (game.details) {
+      await pool.query(`UPDATE game_metadata SET details = $2, details_version = $3 WHERE app_id = $1`, [
+        game.appId,
+        game.details,
+        game.details.version,
+      ]);
+    }
+    return Boolean(res.rows[0]?.inserted);
+  };
+
+  return {
+    // Games in name order, optionally only those whose name or a genre contains `q`.
+    async list(options: { q?: string; limit: number; offset: number }) {
+      const res = options.q
+        ? await pool.query(
+            `SELECT ${columns} FROM game_metadata
+             WHERE name ILIKE $1 OR EXISTS (SELECT 1 FROM unnest(genres) AS g WHERE g ILIKE $1)
+             ORDER BY lower(name), app_id LIMIT $2 OFFSET $3`,
+            [contains(options.q), options.limit, options.offset],
+          )
+        : await pool.query(`SELECT ${columns} FROM game_metadata ORDER BY lower(name), app_id LIMIT $1 OFFSET $2`, [
+            options.limit,
+            options.offset,
+          ]);
+      return res.rows.map(mapGame);
+    },
+
+    // One game with its details; `details` is null until appdetails has been read at the current version.
+    async get(appId: string) {
+      const res = await pool.query(`SELECT ${columns}, details, details_version FROM game_metadata WHERE app_id = $1`, [appId]);
+      return res.rowCount ? { ...mapGame(res.rows[0]), details: mapDetails(res.rows[0]) } : null;
+    },
+
+    upsert,
+
+    // Upserts a batch and returns how many of the games were new to the catalog.
+    async upsertMany(games: GameMetadata[], source: CatalogSource) {
+      let added = 0;
+      for (const game of games) {
+        if (game.appId && (await upsert(game, source))) added++;
+      }
+      return added;
+    },
+  };
+}
+
+export type CatalogStore = ReturnType<typeof createCatalogStore>;
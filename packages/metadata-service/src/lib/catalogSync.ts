@@ -0,0 +1,381 @@
+import type { Pool } from "pg";
+import type { CatalogStore } from "./catalog";
+import type { PriceStore } from "./prices";
+import { AppDetailsResult, defaultStoreLocale, fetchAppDetails, fetchAppListPage, StoreLocale } from "./steamStore";
+
+export interface CatalogSyncOptions {
+  // Without a Steam Web API key the app list is skipped; enrichment and refreshes still run.
+  steamApiKey: string;
+  intervalMs: number;
+  // How long after a completed pass over the app list the next one starts.
+  listIntervalMs: number;
+  listPageSize: number;
+  // appdetails requests allowed per minute, shared by enrichment and refreshes on every replica.
+  enrichPerMinute: number;
+  // How long to stop calling appdetails after Steam answers 429.
+  rateLimitCooldownMs: number;
+  staleAfterDays: number;
+  maxAttempts: number;
+}
+
+export type EnrichmentResult = "ok" | "not_found" | "failed" | "rate_limited";
+export type QueueReason = "manual" | "new" | "modified" | "stale";
+
+export interface CatalogSyncHooks {
+  listed?: (apps: number, added: number) => void;
+  enriched?: (result: EnrichmentResult) => void;
+  ran?: (result: "ok" | "error" | "skipped") => void;
+}
+
+// Lower runs first: admin requests, then games we know nothing about, then changes, then age.
+const priorities: Record<QueueReason, number> = { manual: 0, new: 1, modified: 2, stale: 3 };
+
+export interface SyncSnapshot {
+  paused: boolean;
+  running: boolean;
+  listCursor: number;
+  listPassStartedAt: string | null;
+  lastPassCompletedAt: string | null;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  rateLimitedUntil: string | null;
+  catalogSize: number;
+  staleEntries: number;
+  backlog: Record<QueueReason, number>;
+}
+
+export interface TickSummary {
+  listed: number;
+  added: number;
+  enqueuedStale: number;
+  enriched: Record<EnrichmentResult, number>;
+}
+
+const emptyBacklog = (): Record<QueueReason, number> => ({ manual: 0, new: 0, modified: 0, stale: 0 });
+
+/**
+ * Keeps `game_metadata` in step with Steam. Each tick reads one page of the app list
+ * (resuming from a stored cursor, and after the first full pass only apps modified since the
+ * previous pass started), queues new and changed games for appdetails, queues entries not
+ * refreshed in `staleAfterDays`, then works the queue within the per-minute budget.
+ * Replicas share the state in Postgres, the appdetails budget included; an advisory lock lets
+ * one of them run a tick at a time.
+ */
+export function createCatalogSync(
+  pool: Pool,
+  stores: { catalog: CatalogStore; prices: PriceStore },
+  options: CatalogSyncOptions,
+  hooks: CatalogSyncHooks = {},
+) {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let snapshot: SyncSnapshot | null = null;
+
+  // Token bucket for appdetails in catalog_sync_state, holding at most one minute's budget. The
+  // row lock makes concurrent takers (other replicas) wait their turn. Returns the whole tokens
+  // granted, at most `wanted`.
+  const takeTokens = async (wanted: number): Promise<number> => {
+    const res = await pool.query(
+      `WITH bucket AS (
+         SELECT LEAST($1::float8, COALESCE(enrich_tokens, $1::float8)
+                  + GREATEST(0, extract(epoch FROM now() - COALESCE(tokens_refilled_at, now()))) * $1::float8 / 60) AS available
+         FROM catalog_sync_state WHERE id = 1 FOR UPDATE
+       ), granted AS (
+         SELECT available, LEAST(floor(available), $2::float8) AS n FROM bucket
+       )
+       UPDATE catalog_sync_state SET enrich_tokens = granted.available - granted.n, tokens_refilled_at = now()
+       FROM granted WHERE id = 1
+       RETURNING granted.n::int AS n`,
+      [options.enrichPerMinute, wanted],
+    );
+    return res.rows[0]?.n ?? 0;
+  };
+
+  // Steam answered 429: nobody calls appdetails until the cooldown ends.
+  const startCooldown = () =>
+    pool.query(`UPDATE catalog_sync_state SET rate_limited_until = now() + make_interval(secs => $1), enrich_tokens = 0 WHERE id = 1`, [
+      options.rateLimitCooldownMs / 1000,
+    ]);
+
+  const loadState = async () => {
+    const res = await pool.query(
+      `SELECT list_cursor, list_pass_started_at, modified_since, last_pass_completed_at, paused, last_run_at,
+              last_success_at, last_error, rate_limited_until
+       FROM catalog_sync_state WHERE id = 1`,
+    );
+    return res.rows[0];
+  };
+
+  const enqueue = async (appIds: string[], reason: QueueReason) => {
+    if (!appIds.length) return 0;
+    const res = await pool.query(
+      `INSERT INTO catalog_enrichment_queue (app_id, reason, priority)
+       SELECT unnest($1::text[]), $2, $3
+       ON CONFLICT (app_id) DO UPDATE SET
+         reason = CASE WHEN EXCLUDED.priority < catalog_enrichment_queue.priority THEN EXCLUDED.reason ELSE catalog_enrichment_queue.reason END,
+         priority = LEAST(catalog_enrichment_queue.priority, EXCLUDED.priority),
+         next_attempt_at = CASE WHEN EXCLUDED.priority = 0 THEN now() ELSE catalog_enrichment_queue.next_attempt_at END`,
+      [appIds, reason, priorities[reason]],
+    );
+    return res.rowCount ?? 0;
+  };
+
+  const listPage = async (state: any, summary: TickSummary) => {
+    const passStartedAt: Date = state.list_pass_started_at || new Date();
+    const page = await fetchAppListPage(options.steamApiKey, {
+      lastAppId: Number(state.list_cursor),
+      modifiedSince: Number(state.modified_since),
+      pageSize: options.listPageSize,
+    });
+    const apps = page.apps.filter((app) => app.name);
+    const existing = await pool.query(
+      `SELECT app_id, steam_last_modified, refreshed_at FROM game_metadata WHERE app_id = ANY($1::text[])`,
+      [apps.map((app) => app.appId)],
+    );
+    const known = new Map(existing.rows.map((row) => [row.app_id as string, row]));
+    const added = apps.filter((app) => !known.has(app.appId));
+    // Entries from before the sync have no modification time yet; recording it is enough
+    // unless they were never enriched.
+    const changed = apps.filter((app) => {
+      const row = known.get(app.appId);
+      if (!row) return false;
+      const stored = Number(row.steam_last_modified);
+      return stored ? app.lastModified > stored : !row.refreshed_at;
+    });
+
+    if (added.length) {
+      await pool.query(
+        `INSERT INTO game_metadata (app_id, name, source, steam_last_modified)
+         SELECT app_id, name, 'applist', last_modified FROM unnest($1::text[], $2::text[], $3::bigint[]) AS t(app_id, name, last_modified)
+         ON CONFLICT (app_id) DO NOTHING`,
+        [added.map((a) => a.appId), added.map((a) => a.name), added.map((a) => a.lastModified)],
+      );
+    }
+    const touched = apps.filter((app) => known.has(app.appId));
+    if (touched.length) {
+      await pool.query(
+        `UPDATE game_metadata g SET steam_last_modified = t.last_modified
+         FROM unnest($1::text[], $2::bigint[]) AS t(app_id, last_modified)
+         WHERE g.app_id = t.app_id AND g.steam_last_modified <> t.last_modified`,
+        [touched.map((a) => a.appId), touched.map((a) => a.lastModified)],
+      );
+    }
+    await enqueue(added.map((a) => a.appId), "new");
+    await enqueue(changed.map((a) => a.appId), "modified");
+
+    if (page.haveMore) {
+      await pool.query(`UPDATE catalog_sync_state SET list_cursor = $1, list_pass_started_at = $2 WHERE id = 1`, [
+        page.lastAppId,
+        passStartedAt,
+      ]);
+    } else {
+      // The next pass only asks for apps changed since this one began.
+      await pool.query(
+        `UPDATE catalog_sync_state
+         SET list_cursor = 0, list_pass_started_at = NULL, last_pass_completed_at = now(),
+             modified_since = floor(extract(epoch FROM $1::timestamptz))
+         WHERE id = 1`,
+        [passStartedAt],
+      );
+    }
+    summary.listed += page.apps.length;
+    summary.added += added.length;
+    hooks.listed?.(page.apps.length, added.length);
+  };
+
+  const listingDue = (state: any) =>
+    Boolean(options.steamApiKey) &&
+    (state.list_pass_started_at !== null ||
+      !state.last_pass_completed_at ||
+      Date.now() - new Date(state.last_pass_completed_at).getTime() >= options.listIntervalMs);
+
+  // Tops the queue up with the longest-unrefreshed entries, only while it is nearly empty.
+  const enqueueStale = async () => {
+    const backlog = await pool.query(`SELECT count(*)::int AS n FROM catalog_enrichment_queue`);
+    const room = options.enrichPerMinute - backlog.rows[0].n;
+    if (room <= 0) return 0;
+    const res = await pool.query(
+      `SELECT app_id FROM game_metadata
+       WHERE (refreshed_at IS NULL OR refreshed_at < now() - make_interval(days => $1))
+         AND app_id NOT IN (SELECT app_id FROM catalog_enrichment_queue)
+       ORDER BY refreshed_at NULLS FIRST, app_id
+       LIMIT $2`,
+      [options.staleAfterDays, room],
+    );
+    return enqueue(res.rows.map((row) => row.app_id), "stale");
+  };
+
+  // Records an appdetails attempt and takes the app off the queue.
+  const markRefreshed = (appId: string) =>
+    Promise.all([
+      pool.query(`UPDATE game_metadata SET refreshed_at = now() WHERE app_id = $1`, [appId]),
+      pool.query(`DELETE FROM catalog_enrichment_queue WHERE app_id = $1`, [appId]),
+    ]);
+
+  const enrich = async (state: any, summary: TickSummary) => {
+    if (state.rate_limited_until && new Date(state.rate_limited_until).getTime() > Date.now()) return;
+    const due = await pool.query(
+      `SELECT app_id, attempts FROM catalog_enrichment_queue
+       WHERE next_attempt_at <= now()
+       ORDER BY priority, enqueued_at, app_id
+       LIMIT $1`,
+      [options.enrichPerMinute],
+    );
+    // Only what is due, so the rest of the budget stays available to on-demand lookups.
+    const budget = due.rows.length ? await takeTokens(due.rows.length) : 0;
+    for (const row of due.rows.slice(0, budget)) {
+      let result: EnrichmentResult;
+      try {
+        // The catalog is kept in English; its prices are the US store's.
+        const details = await fetchAppDetails(row.app_id, defaultStoreLocale);
+        if (details.status === "ok") {
+          await stores.catalog.upsert(details.game, "appdetails");
+          if (details.price) await stores.prices.record(details.price);
+          await markRefreshed(row.app_id);
+        } else if (details.status === "not_found") {
+          // Retried once the entry goes stale rather than on every tick.
+          await markRefreshed(row.app_id);
+        }
+        result = details.status;
+      } catch (err) {
+        result = "failed";
+        const attempts = Number(row.attempts) + 1;
+        if (attempts >= options.maxAttempts) {
+          await markRefreshed(row.app_id);
+        } else {
+          await pool.query(
+            `UPDATE catalog_enrichment_queue
+             SET attempts = $2, last_error = $3, next_attempt_at = now() + make_interval(mins => $4)
+             WHERE app_id = $1`,
+            [row.app_id, attempts, (err as Error).message, 2 ** attempts],
+          );
+        }
+      }
+      summary.enriched[result]++;
+      hooks.enriched?.(result);
+      if (result === "rate_limited") {
+        await startCooldown();
+        break;
+      }
+    }
+  };
+
+  const refreshSnapshot = async () => {
+    const [state, counts, backlog] = await Promise.all([
+      loadState(),
+      pool.query(
+        `SELECT count(*)::int AS size,
+                count(*) FILTER (WHERE refreshed_at IS NULL OR refreshed_at < now() - make_interval(days => $1))::int AS stale
+         FROM game_metadata`,
+        [options.staleAfterDays],
+      ),
+      pool.query(`SELECT reason, count(*)::int AS n FROM catalog_enrichment_queue GROUP BY reason`),
+    ]);
+    const iso = (value: Date | null) => (value ? new Date(value).toISOString() : null);
+    snapshot = {
+      paused: state.paused,
+      running,
+      listCursor: Number(state.list_cursor),
+      listPassStartedAt: iso(state.list_pass_started_at),
+      lastPassCompletedAt: iso(state.last_pass_completed_at),
+      lastRunAt: iso(state.last_run_at),
+      lastSuccessAt: iso(state.last_success_at),
+      lastError: state.last_error,
+      rateLimitedUntil: iso(state.rate_limited_until),
+      catalogSize: counts.rows[0].size,
+      staleEntries: counts.rows[0].stale,
+      backlog: { ...emptyBacklog(), ...Object.fromEntries(backlog.rows.map((row) => [row.reason, row.n])) },
+    };
+    return snapshot;
+  };
+
+  /**
+   * One round of listing, stale refresh and enrichment. Timer ticks skip while paused; a
+   * manual run (`force`) does not. Returns null when another tick holds the lock.
+   */
+  const runOnce = async (force = false): Promise<TickSummary | null> => {
+    if (running) return null;
+    running = true;
+    const lock = await pool.connect();
+    try {
+      const acquired = await lock.query("SELECT pg_try_advisory_lock(hashtext('metadata-service:catalog-sync')) AS ok");
+      if (!acquired.rows[0].ok) return null;
+      try {
+        const state = await loadState();
+        if (state.paused && !force) {
+          hooks.ran?.("skipped");
+          return null;
+        }
+        const summary: TickSummary = { listed: 0, added: 0, enqueuedStale: 0, enriched: { ok: 0, not_found: 0, failed: 0, rate_limited: 0 } };
+        try {
+          if (listingDue(state)) await listPage(state, summary);
+          summary.enqueuedStale = await enqueueStale();
+          await enrich(state, summary);
+          await pool.query(`UPDATE catalog_sync_state SET last_run_at = now(), last_success_at = now(), last_error = NULL WHERE id = 1`);
+          hooks.ran?.("ok");
+          return summary;
+        } catch (err) {
+          await pool.query(`UPDATE catalog_sync_state SET last_run_at = now(), last_error = $1 WHERE id = 1`, [(err as Error).message]);
+          hooks.ran?.("error");
+          throw err;
+        }
+      } finally {
+        await lock.query("SELECT pg_advisory_unlock(hashtext('metadata-service:catalog-sync'))");
+      }
+    } finally {
+      lock.release();
+      running = false;
+      await refreshSnapshot().catch((err) => console.error("[catalog-sync] status refresh failed", err));
+    }
+  };
+
+  return {
+    runOnce,
+    enqueue: (appIds: string[]) => enqueue(appIds, "manual"),
+    markRefreshed,
+
+    /**
+     * An appdetails call made for a request (a page view, a cache add) under the same cooldown
+     * and budget as the queue. "deferred" when either rules a call out right now; a 429 starts
+     * the cooldown for the sync too.
+     */
+    async lookup(appId: string, locale: StoreLocale): Promise<AppDetailsResult | { status: "deferred" }> {
+      const state = await pool.query(`SELECT rate_limited_until > now() AS cooling FROM catalog_sync_state WHERE id = 1`);
+      if (state.rows[0]?.cooling || !(await takeTokens(1))) return { status: "deferred" };
+      const details = await fetchAppDetails(appId, locale);
+      if (details.status === "rate_limited") await startCooldown();
+      return details;
+    },
+
+    async setPaused(paused: boolean) {
+      await pool.query(`UPDATE catalog_sync_state SET paused = $1 WHERE id = 1`, [paused]);
+      return refreshSnapshot();
+    },
+
+    // Starts a full pass over the app list on the next tick, ignoring modification times.
+    async relist() {
+      await pool.query(
+        `UPDATE catalog_sync_state SET list_cursor = 0, list_pass_started_at = NULL, last_pass_completed_at = NULL, modified_since = 0 WHERE id = 1`,
+      );
+      return refreshSnapshot();
+    },
+
+    status: refreshSnapshot,
+
+    // The last status read, for metrics collection without a query per scrape.
+    snapshot: () => snapshot,
+
+    budget: () => ({ enrichPerMinute: options.enrichPerMinute, listPageSize: options.listPageSize, intervalMs: options.intervalMs }),
+
+    start() {
+      if (timer) return;
+      const tick = () => runOnce().catch((err) => console.error("[catalog-sync] tick failed", err));
+      refreshSnapshot().catch((err) => console.error("[catalog-sync] status refresh failed", err));
+      timer = setInterval(tick, options.intervalMs);
+      timer.unref();
+    },
+  };
+}
+
+export type CatalogSync = ReturnType<typeof createCatalogSync>;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { gameDetailsVersion } from "../data/games";
+import { detailsFromAppDetails, htmlToText } from "./gameDetails";
+
+describe("htmlToText", () => {
+  it("turns breaks and list items into lines and drops other tags", () => {
+    const html = '<strong>Minimum:</strong><br><ul class="bb_ul"><li><strong>OS:</strong> Windows 10<br></li><li>Memory:  8 GB RAM</li></ul>';
+    expect(htmlToText(html)).toBe("Minimum:\nOS: Windows 10\nMemory: 8 GB RAM");
+  });
+
+  it("decodes the entities Steam uses", () => {
+    expect(htmlToText("Tom &amp; Jerry&nbsp;&lt;3 &quot;deluxe&quot; &#39;edition&#39;")).toBe(`Tom & Jerry <3 "deluxe" 'edition'`);
+  });
+});
+
+describe("detailsFromAppDetails", () => {
+  const fetchedAt = new Date("2026-01-02T03:04:05Z");
+
+  it("maps a full store page", () => {
+    const details = detailsFromAppDetails(
+      {
+        release_date: { coming_soon: false, date: "9 Jul, 2013" },
+        metacritic: { score: 90, url: "https://www.metacritic.com/game/dota-2" },
+        recommendations: { total: 2000000 },
+        screenshots: [{ id: 0, path_thumbnail: "thumb.jpg", path_full: "full.jpg" }],
+        movies: [{ id: 256, name: "Trailer", thumbnail: "movie.jpg", webm: { 480: "480.webm", max: "max.webm" }, mp4: { 480: "480.mp4" } }],
+        supported_languages: "English<strong>*</strong>, French, German<strong>*</strong><br><strong>*</strong>languages with full audio support",
+        pc_requirements: { minimum: "<strong>Minimum:</strong><br>OS: Windows 7", recommended: "<strong>Recommended:</strong><br>OS: Windows 10" },
+        dlc: [1001, 1002],
+        required_age: "17",
+        ratings: { esrb: { rating: "m", descriptors: "Blood\r\nViolence" }, pegi: { rating: "" } },
+      },
+      fetchedAt,
+    );
+    expect(details).toEqual({
+      version: gameDetailsVersion,
+      fetchedAt: "2026-01-02T03:04:05.000Z",
+      releaseDate: { comingSoon: false, date: "9 Jul, 2013" },
+      metacritic: { score: 90, url: "https://www.metacritic.com/game/dota-2" },
+      reviewCount: 2000000,
+      screenshots: [{ id: 0, thumbnail: "thumb.jpg", full: "full.jpg" }],
+      movies: [{ id: 256, name: "Trailer", thumbnail: "movie.jpg", webm: "max.webm", mp4: "480.mp4", hls: null }],
+      supportedLanguages: [
+        { name: "English", fullAudio: true },
+        { name: "French", fullAudio: false },
+        { name: "German", fullAudio: true },
+      ],
+      pcRequirements: { minimum: "OS: Windows 7", recommended: "OS: Windows 10" },
+      dlc: ["1001", "1002"],
+      requiredAge: 17,
+      ageRatings: [{ board: "esrb", rating: "m", descriptors: "Blood\nViolence" }],
+    });
+  });
+
+  it("fills the gaps of a sparse page with empty values", () => {
+    // Steam sends `pc_requirements: []` when a page lists none.
+    const details = detailsFromAppDetails({ pc_requirements: [], metacritic: { score: 0 } }, fetchedAt);
+    expect(details).toMatchObject({
+      releaseDate: { comingSoon: false, date: null },
+      metacritic: null,
+      reviewCount: null,
+      screenshots: [],
+      movies: [],
+      supportedLanguages: [],
+      pcRequirements: { minimum: null, recommended: null },
+      dlc: [],
+      requiredAge: 0,
+      ageRatings: [],
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { AgeRating, GameDetails, gameDetailsVersion, GameLanguage, GameMovie, GameRequirements } from "../data/games";
+
+const entities: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'", nbsp: " " };
+
+/** Steam's store HTML as plain lines: breaks and list items become newlines, other tags go. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(li|p|ul|h[1-6])>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => entities[entity])
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// "English<strong>*</strong>, French<br><strong>*</strong>languages with full audio support"
+function parseLanguages(html: unknown): GameLanguage[] {
+  if (typeof html !== "string") return [];
+  const [list] = html.split(/<br\s*\/?>/i);
+  return list
+    .split(",")
+    .map((part) => ({ name: htmlToText(part).replace(/\*$/, "").trim(), fullAudio: /<strong>\*<\/strong>/i.test(part) }))
+    .filter((language) => language.name);
+}
+
+// An object with HTML for each level, or an empty array when the store page lists none.
+function parseRequirements(value: any): GameRequirements {
+  const level = (html: unknown, label: string) => {
+    if (typeof html !== "string") return null;
+    return htmlToText(html).replace(new RegExp(`^${label}:\\s*`, "i"), "") || null;
+  };
+  return { minimum: level(value?.minimum, "Minimum"), recommended: level(value?.recommended, "Recommended") };
+}
+
+function parseMovies(movies: any): GameMovie[] {
+  return (Array.isArray(movies) ? movies : []).map((movie: any) => ({
+    id: Number(movie.id),
+    name: String(movie.name || ""),
+    thumbnail: String(movie.thumbnail || ""),
+    webm: movie.webm?.max || movie.webm?.["480"] || null,
+    mp4: movie.mp4?.max || movie.mp4?.["480"] || null,
+    hls: movie.hls_h264 || null,
+  }));
+}
+
+function parseRatings(ratings: any): AgeRating[] {
+  if (!ratings || typeof ratings !== "object") return [];
+  return Object.entries(ratings)
+    .filter(([, value]: [string, any]) => value?.rating)
+    .map(([board, value]: [string, any]) => ({
+      board,
+      rating: String(value.rating),
+      descriptors: typeof value.descriptors === "string" ? value.descriptors.replace(/\r\n?/g, "\n").trim() || null : null,
+    }));
+}
+
+/** The extended part of an appdetails `data` object, at the current gameDetailsVersion. */
+export function detailsFromAppDetails(data: any, fetchedAt = new Date()): GameDetails {
+  const metacritic = Number(data.metacritic?.score);
+  return {
+    version: gameDetailsVersion,
+    fetchedAt: fetchedAt.toISOString(),
+    releaseDate: { comingSoon: Boolean(data.release_date?.coming_soon), date: data.release_date?.date || null },
+    metacritic: Number.isFinite(metacritic) && metacritic > 0 ? { score: metacritic, url: data.metacritic.url || null } : null,
+    reviewCount: typeof data.recommendations?.total === "number" ? data.recommendations.total : null,
+    screenshots: (Array.isArray(data.screenshots) ? data.screenshots : []).map((shot: any) => ({
+      id: Number(shot.id),
+      thumbnail: String(shot.path_thumbnail || ""),
+      full: String(shot.path_full || ""),
+    })),
+    movies: parseMovies(data.movies),
+    supportedLanguages: parseLanguages(data.supported_languages),
+    pcRequirements: parseRequirements(data.pc_requirements),
+    dlc: (Array.isArray(data.dlc) ? data.dlc : []).map(String),
+    requiredAge: Number(data.required_age) || 0,
+    ageRatings: parseRatings(data.ratings),
+  };
+}
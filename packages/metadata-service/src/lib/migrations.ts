@@ -0,0 +1,274 @@
+import type { Pool, PoolClient } from "pg";
+import { seedGames } from "../data/games";
+
+export interface Migration {
+  id: string;
+  up: (db: PoolClient) => Promise<void>;
+}
+
+/**
+ * Applies each migration once, in order, inside its own transaction. An advisory lock keeps
+ * replicas that start together from racing. Applied ids are recorded in
+ * metadata_schema_migrations, kept apart from other services' tables in the shared database.
+ */
+export async function runMigrations(pool: Pool, migrations: Migration[]) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS metadata_schema_migrations (
+      id TEXT PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+  for (const migration of migrations) {
+    const db = await pool.connect();
+    try {
+      await db.query("BEGIN");
+      await db.query("SELECT pg_advisory_xact_lock(hashtext('metadata-service:migrations'))");
+      const done = await db.query("SELECT 1 FROM metadata_schema_migrations WHERE id = $1", [migration.id]);
+      if (done.rowCount) {
+        await db.query("ROLLBACK");
+        continue;
+      }
+      await migration.up(db);
+      await db.query("INSERT INTO metadata_schema_migrations (id) VALUES ($1)", [migration.id]);
+      await db.query("COMMIT");
+      console.log(`[postgres] applied migration ${migration.id}`);
+    } catch (err) {
+      await db.query("ROLLBACK").catch(() => undefined);
+      throw new Error(`migration ${migration.id} failed: ${(err as Error).message}`);
+    } finally {
+      db.release();
+    }
+  }
+}
+
+export const metadataMigrations: Migration[] = [
+  {
+    // The catalog used to be an in-memory array that every restart reset to the static list.
+    id: "001_game_metadata",
+    up: async (db) => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS game_metadata (
+          app_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          genres TEXT[] NOT NULL DEFAULT '{}',
+          developer TEXT NOT NULL DEFAULT '',
+          publisher TEXT NOT NULL DEFAULT '',
+          icon TEXT NOT NULL DEFAULT '',
+          tags TEXT[] NOT NULL DEFAULT '{}',
+          source TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        );
+      `);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_name_idx ON game_metadata (lower(name));`);
+    },
+  },
+  {
+    // The static list that used to be the whole catalog becomes seed data. The upsert is the
+    // catalog's as of this migration, kept here so later changes to catalog.ts cannot alter it.
+    id: "002_seed_game_metadata",
+    up: async (db) => {
+      for (const game of seedGames) {
+        await db.query(
+          `INSERT INTO game_metadata (app_id, name, genres, developer, publisher, icon, tags, source)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, 'seed')
+           ON CONFLICT (app_id) DO UPDATE SET
+             name = CASE WHEN EXCLUDED.name = '' THEN game_metadata.name ELSE EXCLUDED.name END,
+             genres = CASE WHEN cardinality(EXCLUDED.genres) = 0 THEN game_metadata.genres ELSE EXCLUDED.genres END,
+             developer = CASE WHEN EXCLUDED.developer = '' THEN game_metadata.developer ELSE EXCLUDED.developer END,
+             publisher = CASE WHEN EXCLUDED.publisher = '' THEN game_metadata.publisher ELSE EXCLUDED.publisher END,
+             icon = CASE WHEN EXCLUDED.icon = '' THEN game_metadata.icon ELSE EXCLUDED.icon END,
+             tags = CASE WHEN cardinality(EXCLUDED.tags) = 0 THEN game_metadata.tags ELSE EXCLUDED.tags END,
+             source = EXCLUDED.source,
+             updated_at = now()`,
+          [game.appId, game.name, game.genres, game.developer, game.publisher, game.icon, game.tags || []],
+        );
+      }
+    },
+  },
+  {
+    // Ranked search: a weighted tsvector and a name acronym kept current by a trigger, plus
+    // trigram and full-text indexes so the catalog can grow to the whole Steam app list.
+    id: "003_game_search",
+    up: async (db) => {
+      await db.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm;`);
+      await db.query(`
+        ALTER TABLE game_metadata
+          ADD COLUMN IF NOT EXISTS search_vector TSVECTOR NOT NULL DEFAULT ''::tsvector,
+          ADD COLUMN IF NOT EXISTS name_acronym TEXT NOT NULL DEFAULT '';
+      `);
+      await db.query(`
+        CREATE OR REPLACE FUNCTION game_metadata_search_fields() RETURNS trigger AS $$
+        BEGIN
+          NEW.search_vector :=
+            setweight(to_tsvector('simple', NEW.name), 'A') ||
+            setweight(to_tsvector('simple', NEW.developer || ' ' || NEW.publisher), 'B') ||
+            setweight(to_tsvector('simple', array_to_string(NEW.genres || NEW.tags, ' ')), 'C');
+          -- First letter of each word, whole numbers kept: "Counter-Strike 2" -> "cs2".
+          NEW.name_acronym := coalesce((
+            SELECT string_agg(CASE WHEN w ~ '^[0-9]+$' THEN w ELSE left(w, 1) END, '' ORDER BY n)
+            FROM regexp_split_to_table(lower(NEW.name), '[^[:alnum:]]+') WITH ORDINALITY AS t(w, n)
+            WHERE w <> ''
+          ), '');
+          RETURN NEW;
+        END
+        $$ LANGUAGE plpgsql;
+      `);
+      await db.query(`DROP TRIGGER IF EXISTS game_metadata_search_fields ON game_metadata;`);
+      await db.query(`
+        CREATE TRIGGER game_metadata_search_fields
+          BEFORE INSERT OR UPDATE ON game_metadata
+          FOR EACH ROW EXECUTE FUNCTION game_metadata_search_fields();
+      `);
+      // Fire the trigger once for the rows already there.
+      await db.query(`UPDATE game_metadata SET name = name;`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_search_idx ON game_metadata USING gin (search_vector);`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_name_trgm_idx ON game_metadata USING gin (lower(name) gin_trgm_ops);`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_acronym_idx ON game_metadata (name_acronym);`);
+    },
+  },
+  {
+    // State for the Steam app list sync (lib/catalogSync.ts): one state row, a queue of apps
+    // awaiting appdetails, and per-game modification and refresh times.
+    id: "004_catalog_sync",
+    up: async (db) => {
+      await db.query(`
+        ALTER TABLE game_metadata
+          ADD COLUMN IF NOT EXISTS steam_last_modified BIGINT NOT NULL DEFAULT 0,
+          ADD COLUMN IF NOT EXISTS refreshed_at TIMESTAMPTZ;
+      `);
+      await db.query(`UPDATE game_metadata SET refreshed_at = updated_at WHERE source = 'appdetails' AND refreshed_at IS NULL;`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_refreshed_idx ON game_metadata (refreshed_at NULLS FIRST);`);
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS catalog_enrichment_queue (
+          app_id TEXT PRIMARY KEY,
+          reason TEXT NOT NULL,
+          priority INTEGER NOT NULL,
+          enqueued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT
+        );
+      `);
+      await db.query(
+        `CREATE INDEX IF NOT EXISTS catalog_enrichment_queue_next_idx ON catalog_enrichment_queue (priority, enqueued_at, app_id);`,
+      );
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS catalog_sync_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          list_cursor BIGINT NOT NULL DEFAULT 0,
+          list_pass_started_at TIMESTAMPTZ,
+          modified_since BIGINT NOT NULL DEFAULT 0,
+          last_pass_completed_at TIMESTAMPTZ,
+          paused BOOLEAN NOT NULL DEFAULT false,
+          last_run_at TIMESTAMPTZ,
+          last_success_at TIMESTAMPTZ,
+          last_error TEXT,
+          rate_limited_until TIMESTAMPTZ
+        );
+      `);
+      await db.query(`INSERT INTO catalog_sync_state (id) VALUES (1) ON CONFLICT DO NOTHING;`);
+    },
+  },
+  {
+    // Price observations from the featured lists and appdetails (see lib/prices.ts).
+    id: "005_game_prices",
+    up: async (db) => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS game_prices (
+          id BIGSERIAL PRIMARY KEY,
+          app_id TEXT NOT NULL,
+          currency TEXT NOT NULL,
+          initial_cents INTEGER NOT NULL,
+          final_cents INTEGER NOT NULL,
+          discount_percent INTEGER NOT NULL DEFAULT 0,
+          source TEXT NOT NULL,
+          first_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        );
+      `);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_prices_app_idx ON game_prices (app_id, currency, last_seen_at DESC);`);
+    },
+  },
+  {
+    // Prices are tracked per store country; everything recorded so far was quoted for US.
+    id: "006_game_prices_by_country",
+    up: async (db) => {
+      await db.query(`ALTER TABLE game_prices ADD COLUMN IF NOT EXISTS cc TEXT NOT NULL DEFAULT 'US';`);
+      await db.query(`ALTER TABLE game_prices ALTER COLUMN cc DROP DEFAULT;`);
+      await db.query(`DROP INDEX IF EXISTS game_prices_app_idx;`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_prices_app_cc_idx ON game_prices (app_id, cc, currency, last_seen_at DESC);`);
+    },
+  },
+  {
+    // Per-user wishlists with alert thresholds, and the inbox the alerts go to (see lib/wishlist.ts).
+    id: "007_wishlist_notifications",
+    up: async (db) => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS wishlist_items (
+          steam_id TEXT NOT NULL,
+          app_id TEXT NOT NULL,
+          cc TEXT NOT NULL,
+          target_cents INTEGER CHECK (target_cents > 0),
+          target_currency TEXT,
+          notify_release BOOLEAN NOT NULL DEFAULT true,
+          notify_early_access BOOLEAN NOT NULL DEFAULT false,
+          added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          checked_at TIMESTAMPTZ,
+          final_cents INTEGER,
+          currency TEXT,
+          coming_soon BOOLEAN,
+          early_access BOOLEAN,
+          alerted_cents INTEGER,
+          PRIMARY KEY (steam_id, app_id)
+        );
+      `);
+      await db.query(`CREATE INDEX IF NOT EXISTS wishlist_items_check_idx ON wishlist_items (app_id, cc);`);
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS notifications (
+          id BIGSERIAL PRIMARY KEY,
+          steam_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          app_id TEXT,
+          title TEXT NOT NULL,
+          body TEXT NOT NULL,
+          data JSONB NOT NULL DEFAULT '{}',
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+          read_at TIMESTAMPTZ
+        );
+      `);
+      await db.query(`CREATE INDEX IF NOT EXISTS notifications_inbox_idx ON notifications (steam_id, created_at DESC);`);
+    },
+  },
+  {
+    // Candidate lookups for similar games and recommendations (see lib/recommendations.ts).
+    id: "008_game_similarity",
+    up: async (db) => {
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_tags_idx ON game_metadata USING gin (tags);`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_genres_idx ON game_metadata USING gin (genres);`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_developer_idx ON game_metadata (developer);`);
+      await db.query(`CREATE INDEX IF NOT EXISTS game_metadata_publisher_idx ON game_metadata (publisher);`);
+    },
+  },
+  {
+    // Extended appdetails data (GameDetails in data/games.ts); 0 means none stored yet.
+    id: "009_game_details",
+    up: async (db) => {
+      await db.query(`ALTER TABLE game_metadata ADD COLUMN IF NOT EXISTS details JSONB;`);
+      await db.query(`ALTER TABLE game_metadata ADD COLUMN IF NOT EXISTS details_version INTEGER NOT NULL DEFAULT 0;`);
+      // Everything enriched so far predates details: let the catalog sync read it again.
+      await db.query(`UPDATE game_metadata SET refreshed_at = NULL WHERE details IS NULL AND refreshed_at IS NOT NULL;`);
+    },
+  },
+  {
+    // The appdetails token bucket (lib/catalogSync.ts), so every replica draws on one budget.
+    id: "010_catalog_sync_budget",
+    up: async (db) => {
+      await db.query(`
+        ALTER TABLE catalog_sync_state
+          ADD COLUMN IF NOT EXISTS enrich_tokens DOUBLE PRECISION,
+          ADD COLUMN IF NOT EXISTS tokens_refilled_at TIMESTAMPTZ;
+      `);
+    },
+  },
+];
@@ -0,0 +1,96 @@
+import type { Pool, PoolClient } from "pg";
+
+export const notificationKinds = ["price_below", "released", "left_early_access"] as const;
+
+export type NotificationKind = (typeof notificationKinds)[number];
+
+export interface NewNotification {
+  steamId: string;
+  kind: NotificationKind;
+  appId: string | null;
+  title: string;
+  body: string;
+  // What triggered it (prices, thresholds), for clients that render their own text.
+  data: Record<string, unknown>;
+}
+
+export interface Notification {
+  id: string;
+  kind: NotificationKind;
+  appId: string | null;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  createdAt: string;
+  readAt: string | null;
+}
+
+const mapNotification = (row: any): Notification => ({
+  id: String(row.id),
+  kind: row.kind,
+  appId: row.app_id,
+  title: row.title,
+  body: row.body,
+  data: row.data,
+  createdAt: new Date(row.created_at).toISOString(),
+  readAt: row.read_at ? new Date(row.read_at).toISOString() : null,
+});
+
+/**
+ * The in-app inbox in `notifications`. Rows are only written by background jobs (the wishlist
+ * checker) and read or marked read by their owner; nothing is pushed.
+ */
+export function createNotificationStore(pool: Pool) {
+  return {
+    // Takes the caller's client so a notification can commit together with the state that caused it.
+    async add(notification: NewNotification, db: Pool | PoolClient = pool) {
+      await db.query(
+        `INSERT INTO notifications (steam_id, kind, app_id, title, body, data) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [notification.steamId, notification.kind, notification.appId, notification.title, notification.body, notification.data],
+      );
+    },
+
+    // Newest first; `before` is the id of the last notification on the previous page.
+    async list(steamId: string, options: { unreadOnly: boolean; limit: number; before?: string }) {
+      const [items, unread] = await Promise.all([
+        pool.query(
+          `SELECT id, kind, app_id, title, body, data, created_at, read_at FROM notifications
+           WHERE steam_id = $1 AND ($2::boolean = false OR read_at IS NULL) AND ($3::bigint IS NULL OR id < $3)
+           ORDER BY id DESC LIMIT $4`,
+          [steamId, options.unreadOnly, options.before ?? null, options.limit],
+        ),
+        pool.query(`SELECT count(*)::int AS n FROM notifications WHERE steam_id = $1 AND read_at IS NULL`, [steamId]),
+      ]);
+      return { items: items.rows.map(mapNotification), unread: unread.rows[0].n as number };
+    },
+
+    // False when the notification does not exist or belongs to someone else.
+    async markRead(steamId: string, id: string) {
+      const res = await pool.query(
+        `UPDATE notifications SET read_at = COALESCE(read_at, now()) WHERE steam_id = $1 AND id = $2`,
+        [steamId, id],
+      );
+      return Boolean(res.rowCount);
+    },
+
+    async markAllRead(steamId: string) {
+      const res = await pool.query(`UPDATE notifications SET read_at = now() WHERE steam_id = $1 AND read_at IS NULL`, [steamId]);
+      return res.rowCount ?? 0;
+    },
+
+    async exportFor(steamId: string) {
+      const res = await pool.query(
+        `SELECT id, kind, app_id, title, body, data, created_at, read_at FROM notifications WHERE steam_id = $1 ORDER BY id`,
+        [steamId],
+      );
+      return res.rows.map(mapNotification);
+    },
+
+    async deleteFor(steamId: string) {
+      const res = await pool.query(`DELETE FROM notifications WHERE steam_id = $1`, [steamId]);
+      return res.rowCount ?? 0;
+    },
+  };
+}
+
+export type NotificationStore = ReturnType<typeof createNotificationStore>;
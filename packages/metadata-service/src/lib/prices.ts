@@ -0,0 +1,184 @@
+import type { Pool } from "pg";
+
+export type PriceSource = "featured" | "appdetails";
+
+// Amounts are in the currency's minor unit (cents), as Steam reports them. `cc` is the store
+// country the price was quoted for; countries sharing a currency can still differ.
+export interface PriceObservation {
+  appId: string;
+  cc: string;
+  initialCents: number;
+  finalCents: number;
+  discountPercent: number;
+  currency: string;
+  source: PriceSource;
+}
+
+export interface PricePoint {
+  firstSeenAt: string;
+  lastSeenAt: string;
+  initialCents: number;
+  finalCents: number;
+  discountPercent: number;
+  source: PriceSource;
+}
+
+export interface PriceLow {
+  finalCents: number;
+  discountPercent: number;
+  seenAt: string;
+}
+
+/**
+ * appdetails `price_overview`: missing for free and unreleased games. Featured items carry the
+ * same numbers under other names (original_price, final_price).
+ */
+export function priceFromAppDetails(appId: string, cc: string, overview: any): PriceObservation | null {
+  if (!overview || typeof overview.final !== "number" || !overview.currency) return null;
+  return {
+    appId,
+    cc,
+    initialCents: Number(overview.initial ?? overview.final),
+    finalCents: Number(overview.final),
+    discountPercent: Number(overview.discount_percent) || 0,
+    currency: String(overview.currency),
+    source: "appdetails",
+  };
+}
+
+export function priceFromFeatured(appId: string, cc: string, item: any): PriceObservation | null {
+  if (typeof item?.final_price !== "number" || !item.currency) return null;
+  return {
+    appId,
+    cc,
+    initialCents: Number(item.original_price ?? item.final_price),
+    finalCents: Number(item.final_price),
+    discountPercent: Number(item.discount_percent) || 0,
+    currency: String(item.currency),
+    source: "featured",
+  };
+}
+
+const mapPoint = (row: any): PricePoint => ({
+  firstSeenAt: new Date(row.first_seen_at).toISOString(),
+  lastSeenAt: new Date(row.last_seen_at).toISOString(),
+  initialCents: row.initial_cents,
+  finalCents: row.final_cents,
+  discountPercent: row.discount_percent,
+  source: row.source,
+});
+
+const mapLow = (row: any): PriceLow | null =>
+  row ? { finalCents: row.final_cents, discountPercent: row.discount_percent, seenAt: new Date(row.seen_at).toISOString() } : null;
+
+/**
+ * Price history in `game_prices`. A row is a run of identical observations: seeing the same
+ * price again only moves `last_seen_at`, so the table grows with price changes, not with how
+ * often the featured lists are loaded. Each store country has its own history, and currencies
+ * are kept apart; nothing is converted.
+ */
+export function createPriceStore(pool: Pool) {
+  const record = async (observation: PriceObservation) => {
+    const params = [
+      observation.appId,
+      observation.cc,
+      observation.currency,
+      observation.initialCents,
+      observation.finalCents,
+      observation.discountPercent,
+      observation.source,
+    ];
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      // Serialises writers for one app, country and currency so a run is never split in two.
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [
+        `prices:${observation.appId}:${observation.cc}:${observation.currency}`,
+      ]);
+      const extended = await client.query(
+        `UPDATE game_prices SET last_seen_at = now(), source = $7
+         WHERE id = (
+           SELECT id FROM game_prices WHERE app_id = $1 AND cc = $2 AND currency = $3 ORDER BY last_seen_at DESC LIMIT 1
+         ) AND initial_cents = $4 AND final_cents = $5 AND discount_percent = $6`,
+        params,
+      );
+      if (!extended.rowCount) {
+        await client.query(
+          `INSERT INTO game_prices (app_id, cc, currency, initial_cents, final_cents, discount_percent, source)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          params,
+        );
+      }
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+  };
+
+  return {
+    record,
+
+    async recordMany(observations: PriceObservation[]) {
+      for (const observation of observations) await record(observation);
+    },
+
+    // Currencies with history for the app in a store country, most recently seen first.
+    async currencies(appId: string, cc: string): Promise<string[]> {
+      const res = await pool.query(
+        `SELECT currency FROM game_prices WHERE app_id = $1 AND cc = $2 GROUP BY currency ORDER BY max(last_seen_at) DESC`,
+        [appId, cc],
+      );
+      return res.rows.map((row) => row.currency);
+    },
+
+    /**
+     * The runs seen in the last `days` (oldest first), the latest run, and the lows. A low is
+     * the cheapest run and when it was last seen; the 90-day low counts runs still current
+     * within 90 days, so a sale that started earlier but ran into the window is included.
+     */
+    async history(appId: string, cc: string, currency: string, days: number) {
+      const [timeline, latest, lows] = await Promise.all([
+        pool.query(
+          `SELECT first_seen_at, last_seen_at, initial_cents, final_cents, discount_percent, source
+           FROM game_prices
+           WHERE app_id = $1 AND cc = $2 AND currency = $3 AND last_seen_at >= now() - make_interval(days => $4)
+           ORDER BY first_seen_at`,
+          [appId, cc, currency, days],
+        ),
+        pool.query(
+          `SELECT first_seen_at, last_seen_at, initial_cents, final_cents, discount_percent, source
+           FROM game_prices WHERE app_id = $1 AND cc = $2 AND currency = $3
+           ORDER BY last_seen_at DESC LIMIT 1`,
+          [appId, cc, currency],
+        ),
+        pool.query(
+          `SELECT scope, final_cents, discount_percent, seen_at FROM (
+             SELECT 'all' AS scope, final_cents, discount_percent, last_seen_at AS seen_at
+             FROM game_prices WHERE app_id = $1 AND cc = $2 AND currency = $3
+             ORDER BY final_cents, last_seen_at DESC LIMIT 1
+           ) all_time
+           UNION ALL
+           SELECT scope, final_cents, discount_percent, seen_at FROM (
+             SELECT '90d' AS scope, final_cents, discount_percent, last_seen_at AS seen_at
+             FROM game_prices WHERE app_id = $1 AND cc = $2 AND currency = $3 AND last_seen_at >= now() - interval '90 days'
+             ORDER BY final_cents, last_seen_at DESC LIMIT 1
+           ) recent`,
+          [appId, cc, currency],
+        ),
+      ]);
+      return {
+        cc,
+        currency,
+        current: latest.rowCount ? mapPoint(latest.rows[0]) : null,
+        allTimeLow: mapLow(lows.rows.find((row) => row.scope === "all")),
+        low90d: mapLow(lows.rows.find((row) => row.scope === "90d")),
+        timeline: timeline.rows.map(mapPoint),
+      };
+    },
+  };
+}
+
+export type PriceStore = ReturnType<typeof createPriceStore>;
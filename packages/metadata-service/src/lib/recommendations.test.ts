@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { GameMetadata } from "../data/games";
+import { gameFeatures, gameVector, playWeight, popularityBoost, sharedReasons, similarity, tasteProfile } from "./recommendations";
+
+const game = (appId: string, fields: Partial<GameMetadata>): GameMetadata => ({
+  appId,
+  name: appId,
+  genres: [],
+  developer: "",
+  publisher: "",
+  icon: "",
+  ...fields,
+});
+
+const flat = () => 1;
+const portal = gameVector(game("400", { developer: "Valve", publisher: "Valve", genres: ["Puzzle"], tags: ["Co-op"] }), flat);
+const halfLife = gameVector(game("70", { developer: "Valve", publisher: "Valve", genres: ["Action"], tags: ["Singleplayer"] }), flat);
+const stardew = gameVector(game("413150", { developer: "ConcernedApe", genres: ["Simulation"], tags: ["Farming"] }), flat);
+
+describe("gameFeatures", () => {
+  it("skips the discount tags featured lists add", () => {
+    expect(gameFeatures(game("1", { tags: ["-50%", "Co-op"], genres: ["Puzzle"] }))).toEqual([
+      ["tag:Co-op", "tag"],
+      ["genre:Puzzle", "genre"],
+    ]);
+  });
+});
+
+describe("similarity", () => {
+  it("is 1 for the same game, 0 for nothing shared and in between otherwise", () => {
+    expect(similarity(portal, portal)).toBeCloseTo(1);
+    expect(similarity(portal, stardew)).toBe(0);
+    const shared = similarity(portal, halfLife);
+    expect(shared).toBeGreaterThan(0);
+    expect(shared).toBeLessThan(1);
+    expect(similarity(halfLife, portal)).toBe(shared);
+  });
+
+  it("weights rare features over common ones", () => {
+    const rareDeveloper = (key: string) => (key === "developer:Valve" ? 5 : 1);
+    const a = gameVector(game("a", { developer: "Valve", tags: ["Co-op"] }), rareDeveloper);
+    const b = gameVector(game("b", { developer: "Valve", tags: ["Puzzle"] }), rareDeveloper);
+    const c = gameVector(game("c", { developer: "Other", tags: ["Co-op"] }), rareDeveloper);
+    expect(similarity(a, b)).toBeGreaterThan(similarity(a, c));
+    expect(sharedReasons(a, b, 3)).toEqual(["developer: Valve"]);
+  });
+});
+
+describe("tasteProfile", () => {
+  it("leans toward the games played most", () => {
+    const profile = tasteProfile([
+      { vector: portal, weight: playWeight({ appId: "400", playtimeMinutes: 6000, recentMinutes: 600 }) },
+      { vector: stardew, weight: playWeight({ appId: "413150", playtimeMinutes: 60, recentMinutes: 0 }) },
+    ]);
+    expect(similarity(profile, halfLife)).toBeGreaterThan(0);
+    expect(profile.get("developer:Valve")!).toBeGreaterThan(profile.get("developer:ConcernedApe")!);
+  });
+
+  it("ignores unplayed games and keeps the strongest features", () => {
+    const profile = tasteProfile([
+      { vector: portal, weight: 1 },
+      { vector: stardew, weight: 0 },
+    ]);
+    expect(profile.has("genre:Simulation")).toBe(false);
+    expect([...tasteProfile([{ vector: portal, weight: 1 }], 2).keys()]).toEqual(["developer:Valve", "genre:Puzzle"]);
+    expect(tasteProfile([])).toEqual(new Map());
+  });
+});
+
+describe("popularityBoost", () => {
+  it("leaves games without players alone and caps at +25%", () => {
+    expect(popularityBoost(null)).toBe(1);
+    expect(popularityBoost(0)).toBe(1);
+    expect(popularityBoost(1000)).toBeGreaterThan(1);
+    expect(popularityBoost(1000)).toBeLessThan(popularityBoost(100_000));
+    expect(popularityBoost(999_999)).toBeCloseTo(1.25);
+    expect(popularityBoost(50_000_000)).toBe(1.25);
+  });
+});
@@ -0,0 +1,232 @@
+import type { Pool } from "pg";
+import type { GameMetadata } from "../data/games";
+import { fetchCurrentPlayers } from "./steamStore";
+
+export type FeatureKind = "developer" | "genre" | "publisher" | "tag";
+
+// What one shared feature of each kind is worth before rarity weighting: sharing a developer
+// says more about two games than sharing a tag.
+export const featureWeights: Record<FeatureKind, number> = { developer: 3, genre: 2, publisher: 1, tag: 1 };
+
+// Sparse feature vector keyed "kind:value", normalised to unit length.
+export type FeatureVector = Map<string, number>;
+
+export interface Recommendation extends GameMetadata {
+  score: number;
+  // The shared features that contributed most, e.g. "developer: Valve".
+  reasons: string[];
+  // Only when boosted by player counts; null when Steam has no count.
+  currentPlayers?: number | null;
+}
+
+export interface OwnedGame {
+  appId: string;
+  playtimeMinutes: number;
+  recentMinutes: number;
+}
+
+export interface RankOptions {
+  limit: number;
+  // Nudge games with many current players up (see popularityBoost).
+  boost: boolean;
+}
+
+// Featured lists tag discounted games with "-50%"; that says nothing about the game itself.
+const discountTag = /^-[0-9]+%$/;
+
+export function gameFeatures(game: GameMetadata): [string, FeatureKind][] {
+  const features: [string, FeatureKind][] = [];
+  for (const tag of game.tags || []) if (!discountTag.test(tag)) features.push([`tag:${tag}`, "tag"]);
+  for (const genre of game.genres || []) features.push([`genre:${genre}`, "genre"]);
+  if (game.developer) features.push([`developer:${game.developer}`, "developer"]);
+  if (game.publisher) features.push([`publisher:${game.publisher}`, "publisher"]);
+  return features;
+}
+
+const normalise = (vector: FeatureVector): FeatureVector => {
+  const length = Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  if (!length) return vector;
+  return new Map([...vector].map(([key, w]) => [key, w / length]));
+};
+
+/** Kind weight times rarity (`idf`), so "Single-player" counts for little and a niche tag for a lot. */
+export function gameVector(game: GameMetadata, idf: (key: string) => number): FeatureVector {
+  return normalise(new Map(gameFeatures(game).map(([key, kind]) => [key, featureWeights[kind] * idf(key)])));
+}
+
+// Cosine similarity of two unit vectors.
+export function similarity(a: FeatureVector, b: FeatureVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [key, w] of small) dot += w * (large.get(key) || 0);
+  return dot;
+}
+
+export function sharedReasons(a: FeatureVector, b: FeatureVector, count: number): string[] {
+  return [...a]
+    .filter(([key]) => b.has(key))
+    .map(([key, w]) => ({ key, contribution: w * b.get(key)! }))
+    .sort((x, y) => y.contribution - x.contribution)
+    .slice(0, count)
+    .map(({ key }) => key.replace(":", ": "));
+}
+
+// Hours are log-scaled so one 2,000-hour game does not drown out the rest; the last two weeks count extra.
+export const playWeight = (game: OwnedGame) => Math.log1p(game.playtimeMinutes / 60) + 2 * Math.log1p(game.recentMinutes / 60);
+
+/** Sum of the played games' vectors by play weight, cut to the `size` strongest features. */
+export function tasteProfile(games: { vector: FeatureVector; weight: number }[], size = 40): FeatureVector {
+  const profile: FeatureVector = new Map();
+  for (const { vector, weight } of games) {
+    if (weight <= 0) continue;
+    for (const [key, w] of vector) profile.set(key, (profile.get(key) || 0) + weight * w);
+  }
+  return normalise(new Map([...profile].sort((a, b) => b[1] - a[1]).slice(0, size)));
+}
+
+// Up to +25% for a game with about a million players online; a game with none is unchanged.
+export const popularityBoost = (players: number | null) => 1 + 0.25 * Math.min(1, Math.log10(1 + (players || 0)) / 6);
+
+export interface RecommenderOptions {
+  // GetNumberOfCurrentPlayers works without a key; one is used when set.
+  steamApiKey: string;
+  // How long feature frequencies are reused before they are counted again.
+  idfTtlMs: number;
+  playerCountTtlMs: number;
+  // Catalog rows scored per request, after a prefilter on the strongest features.
+  candidateLimit: number;
+}
+
+const columns = "app_id, name, genres, developer, publisher, icon, tags";
+
+const mapGame = (row: any): GameMetadata => ({
+  appId: row.app_id,
+  name: row.name,
+  genres: row.genres,
+  developer: row.developer,
+  publisher: row.publisher,
+  icon: row.icon,
+  tags: row.tags,
+});
+
+/**
+ * Content-based recommendations over `game_metadata`. Games are compared as weighted feature
+ * vectors (tags, genres, developer, publisher); a user's taste profile is the play-weighted sum
+ * of the vectors of games they own. Candidates come from an indexed prefilter on the query's
+ * strongest features and are scored in memory.
+ */
+export function createRecommender(pool: Pool, options: RecommenderOptions) {
+  let frequencies: { loadedAt: number; total: number; counts: Map<string, number> } | null = null;
+  const playerCounts = new Map<string, { at: number; value: number | null }>();
+
+  // Only enriched rows count; name-only rows from the app list have no features.
+  const loadFrequencies = async () => {
+    if (frequencies && Date.now() - frequencies.loadedAt < options.idfTtlMs) return frequencies;
+    const [counts, total] = await Promise.all([
+      pool.query(
+        `SELECT key, count(*)::int AS n FROM (
+           SELECT 'tag:' || unnest(tags) AS key FROM game_metadata
+           UNION ALL SELECT 'genre:' || unnest(genres) FROM game_metadata
+           UNION ALL SELECT 'developer:' || developer FROM game_metadata WHERE developer <> ''
+           UNION ALL SELECT 'publisher:' || publisher FROM game_metadata WHERE publisher <> ''
+         ) features GROUP BY key`,
+      ),
+      pool.query(
+        `SELECT count(*)::int AS n FROM game_metadata WHERE cardinality(tags) > 0 OR cardinality(genres) > 0 OR developer <> ''`,
+      ),
+    ]);
+    frequencies = {
+      loadedAt: Date.now(),
+      total: total.rows[0].n,
+      counts: new Map(counts.rows.map((row) => [row.key as string, row.n as number])),
+    };
+    return frequencies;
+  };
+
+  const idfFor = async () => {
+    const { total, counts } = await loadFrequencies();
+    return (key: string) => Math.log((total + 1) / ((counts.get(key) || 0) + 1)) + 1;
+  };
+
+  const currentPlayers = async (appId: string) => {
+    const cached = playerCounts.get(appId);
+    if (cached && Date.now() - cached.at < options.playerCountTtlMs) return cached.value;
+    const value = await fetchCurrentPlayers(options.steamApiKey, appId).catch(() => null);
+    playerCounts.set(appId, { at: Date.now(), value });
+    // Keeps the cache from growing without bound on a long-running replica.
+    if (playerCounts.size > 5000) playerCounts.delete(playerCounts.keys().next().value!);
+    return value;
+  };
+
+  // Catalog games sharing at least one of the query's strongest features, best overlap first.
+  const candidates = async (query: FeatureVector, exclude: string[]) => {
+    const strongest = [...query].sort((a, b) => b[1] - a[1]).slice(0, 12).map(([key]) => key);
+    const values = (kind: FeatureKind) => strongest.filter((key) => key.startsWith(`${kind}:`)).map((key) => key.slice(kind.length + 1));
+    const res = await pool.query(
+      `SELECT ${columns} FROM game_metadata
+       WHERE app_id <> ALL($1::text[])
+         AND (tags && $2::text[] OR genres && $3::text[] OR developer = ANY($4::text[]) OR publisher = ANY($5::text[]))
+       ORDER BY cardinality(ARRAY(SELECT unnest(tags || genres) INTERSECT SELECT unnest($2::text[] || $3::text[])))
+                + 3 * (developer = ANY($4::text[]))::int DESC, app_id
+       LIMIT $6`,
+      [exclude, values("tag"), values("genre"), values("developer"), values("publisher"), options.candidateLimit],
+    );
+    return res.rows.map(mapGame);
+  };
+
+  const rank = async (query: FeatureVector, exclude: string[], rankOptions: RankOptions): Promise<Recommendation[]> => {
+    if (!query.size) return [];
+    const idf = await idfFor();
+    let scored: Recommendation[] = (await candidates(query, exclude))
+      .map((game) => {
+        const vector = gameVector(game, idf);
+        return { ...game, score: similarity(query, vector), reasons: sharedReasons(query, vector, 3) };
+      })
+      .filter((item) => item.score > 0)
+      .sort((a, b) => b.score - a.score);
+    if (rankOptions.boost) {
+      // Only the head of the list can move into the top `limit`, so only it is looked up.
+      scored = await Promise.all(
+        scored.slice(0, rankOptions.limit * 3).map(async (item) => {
+          const players = await currentPlayers(item.appId);
+          return { ...item, score: item.score * popularityBoost(players), currentPlayers: players };
+        }),
+      );
+      scored.sort((a, b) => b.score - a.score);
+    }
+    return scored.slice(0, rankOptions.limit).map((item) => ({ ...item, score: Number(item.score.toFixed(4)) }));
+  };
+
+  return {
+    // Null when the game is not in the catalog.
+    async similar(appId: string, rankOptions: RankOptions) {
+      const res = await pool.query(`SELECT ${columns} FROM game_metadata WHERE app_id = $1`, [appId]);
+      if (!res.rowCount) return null;
+      const game = mapGame(res.rows[0]);
+      return { game, items: await rank(gameVector(game, await idfFor()), [appId], rankOptions) };
+    },
+
+    /**
+     * Recommendations from a library: owned games in the catalog form the taste profile, and
+     * everything owned is excluded. `basedOn` lists the games that weigh most in the profile.
+     */
+    async forLibrary(owned: OwnedGame[], rankOptions: RankOptions) {
+      const ownedIds = owned.map((game) => game.appId);
+      const res = await pool.query(`SELECT ${columns} FROM game_metadata WHERE app_id = ANY($1::text[])`, [ownedIds]);
+      const byId = new Map(res.rows.map((row) => [row.app_id as string, mapGame(row)]));
+      const idf = await idfFor();
+      const weighted = owned
+        .filter((game) => byId.has(game.appId))
+        .map((game) => ({ game: byId.get(game.appId)!, weight: playWeight(game) }))
+        .filter(({ weight }) => weight > 0)
+        .sort((a, b) => b.weight - a.weight);
+      const profile = tasteProfile(weighted.map(({ game, weight }) => ({ vector: gameVector(game, idf), weight })));
+      return {
+        basedOn: weighted.slice(0, 5).map(({ game }) => ({ appId: game.appId, name: game.name })),
+        items: await rank(profile, ownedIds, rankOptions),
+      };
+    },
+  };
+}
+
+export type Recommender = ReturnType<typeof createRecommender>;
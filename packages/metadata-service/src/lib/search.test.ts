@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, effectiveSort, encodeCursor, parseSearchQuery } from "./search";
+
+describe("parseSearchQuery", () => {
+  it("turns words into a prefix tsquery and an acronym key", () => {
+    expect(parseSearchQuery("  Dota 2 ")).toEqual({ text: "dota 2", tsquery: "dota:* & 2:*", acronym: "dota2" });
+    expect(parseSearchQuery("cs 2").acronym).toBe(parseSearchQuery("CS2").acronym);
+  });
+
+  it("drops punctuation so the tsquery needs no escaping", () => {
+    expect(parseSearchQuery("half-life: alyx!").tsquery).toBe("half:* & life:* & alyx:*");
+    expect(parseSearchQuery("&|!()").tsquery).toBeNull();
+    expect(parseSearchQuery("pokémon").tsquery).toBe("pokémon:*");
+  });
+
+  it("keeps at most ten words", () => {
+    const parsed = parseSearchQuery("a b c d e f g h i j k l");
+    expect(parsed.tsquery?.split(" & ")).toHaveLength(10);
+    expect(parsed.acronym).toBe("abcdefghij");
+  });
+});
+
+describe("decodeCursor", () => {
+  it("reads back what encodeCursor wrote", () => {
+    const cursor = { sort: "relevance" as const, value: "1.234567", appId: "570" };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("rejects anything else", () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    expect(decodeCursor("not a cursor")).toBeNull();
+    expect(decodeCursor(encode(["name", "Portal"]))).toBeNull();
+    expect(decodeCursor(encode(["price", "999", "570"]))).toBeNull();
+    expect(decodeCursor(encode(["name", 1, "570"]))).toBeNull();
+    expect(decodeCursor(encode({ sort: "name", value: "Portal", appId: "400" }))).toBeNull();
+  });
+});
+
+describe("effectiveSort", () => {
+  it("falls back to name order for relevance without a query", () => {
+    expect(effectiveSort("relevance")).toBe("name");
+    expect(effectiveSort("relevance", "")).toBe("name");
+    expect(effectiveSort("relevance", "portal")).toBe("relevance");
+    expect(effectiveSort("newest")).toBe("newest");
+  });
+});
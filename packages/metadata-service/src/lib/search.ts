@@ -0,0 +1,202 @@
+import type { Pool } from "pg";
+import type { GameMetadata } from "../data/games";
+
+export const searchFacets = ["genre", "tag", "developer", "publisher"] as const;
+export type SearchFacet = (typeof searchFacets)[number];
+
+export const searchSorts = ["relevance", "name", "newest"] as const;
+export type SearchSort = (typeof searchSorts)[number];
+
+export type SearchFilters = Record<SearchFacet, string[]>;
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Position of the last row on a page: its sort value and app id, the tiebreaker.
+export interface SearchCursor {
+  sort: SearchSort;
+  value: string;
+  appId: string;
+}
+
+export interface SearchParams {
+  q?: string;
+  filters: SearchFilters;
+  sort: SearchSort;
+  limit: number;
+  after?: SearchCursor | null;
+}
+
+// How each facet filters rows and where its values come from; array columns are unnested.
+const facetColumns: Record<SearchFacet, { column: string; array: boolean }> = {
+  genre: { column: "genres", array: true },
+  tag: { column: "tags", array: true },
+  developer: { column: "developer", array: false },
+  publisher: { column: "publisher", array: false },
+};
+
+const facetLimit = 20;
+
+export const encodeCursor = (cursor: SearchCursor) =>
+  Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.appId])).toString("base64url");
+
+// Cursors are opaque to clients; anything that does not decode cleanly is rejected as a whole.
+export function decodeCursor(raw: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 3 || !parsed.every((v) => typeof v === "string")) return null;
+    const [sort, value, appId] = parsed as string[];
+    if (!(searchSorts as readonly string[]).includes(sort)) return null;
+    return { sort: sort as SearchSort, value, appId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits a query into words for a prefix tsquery ("dota" matches "dota" and "dota2") and a
+ * key compared against `name_acronym` ("cs2" and "cs 2" both match Counter-Strike 2). Words
+ * are letters and digits only, so the tsquery needs no escaping.
+ */
+export function parseSearchQuery(q: string) {
+  const text = q.trim().toLowerCase();
+  const words = (text.match(/[\p{L}\p{N}]+/gu) || []).slice(0, 10);
+  return {
+    text,
+    tsquery: words.length ? words.map((w) => `${w}:*`).join(" & ") : null,
+    acronym: words.join(""),
+  };
+}
+
+// Relevance without a query has nothing to rank by, so it falls back to the name order.
+export const effectiveSort = (sort: SearchSort, q?: string): SearchSort => (sort === "relevance" && !q ? "name" : sort);
+
+const columns = "app_id, name, genres, developer, publisher, icon, tags";
+
+const mapGame = (row: any): GameMetadata => ({
+  appId: row.app_id,
+  name: row.name,
+  genres: row.genres,
+  developer: row.developer,
+  publisher: row.publisher,
+  icon: row.icon,
+  tags: row.tags,
+});
+
+/**
+ * Ranked, typo-tolerant search over `game_metadata`. A game matches when the full-text vector
+ * (name, then developer/publisher, then genres/tags) matches every word as a prefix, when its
+ * name is trigram-similar to the query (pg_trgm `%` and `<%`), or when its acronym equals the
+ * query. Filters combine with AND across facets and OR within one; each facet's counts ignore
+ * that facet's own filter so the sidebar keeps showing the alternatives.
+ */
+export function createSearchEngine(pool: Pool) {
+  const build = (params: SearchParams, exclude?: SearchFacet) => {
+    const values: unknown[] = [];
+    const bind = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+    const where: string[] = [];
+    let score = "0";
+    if (params.q) {
+      const parsed = parseSearchQuery(params.q);
+      const text = bind(parsed.text);
+      const acronym = bind(parsed.acronym);
+      const match = [`lower(name) % ${text}`, `${text} <% lower(name)`, `name_acronym = ${acronym}`];
+      const rank = [`similarity(lower(name), ${text})`, `word_similarity(${text}, lower(name))`];
+      if (parsed.tsquery) {
+        const tsquery = `to_tsquery('simple', ${bind(parsed.tsquery)})`;
+        match.unshift(`search_vector @@ ${tsquery}`);
+        rank.unshift(`ts_rank_cd(search_vector, ${tsquery})`);
+      }
+      rank.push(`CASE WHEN name_acronym = ${acronym} THEN 1 ELSE 0 END`, `CASE WHEN lower(name) = ${text} THEN 2 ELSE 0 END`);
+      where.push(`(${match.join(" OR ")})`);
+      // Rounded so a cursor can carry the score as text and compare exactly.
+      score = `round((${rank.join(" + ")})::numeric, 6)`;
+    }
+    for (const facet of searchFacets) {
+      const selected = params.filters[facet];
+      if (facet === exclude || !selected.length) continue;
+      const { column, array } = facetColumns[facet];
+      where.push(array ? `${column} && ${bind(selected)}::text[]` : `${column} = ANY(${bind(selected)}::text[])`);
+    }
+    return { values, bind, score, where: where.length ? where.join(" AND ") : "TRUE" };
+  };
+
+  const page = async (params: SearchParams) => {
+    const sort = effectiveSort(params.sort, params.q);
+    const { values, bind, score, where } = build(params);
+    const order = {
+      relevance: { key: "score", direction: "DESC", cast: "numeric" },
+      name: { key: "sort_name", direction: "ASC", cast: "text" },
+      newest: { key: "sort_created", direction: "DESC", cast: "timestamptz" },
+    }[sort];
+    let keyset = "TRUE";
+    if (params.after) {
+      const value = `${bind(params.after.value)}::${order.cast}`;
+      const appId = bind(params.after.appId);
+      const past = order.direction === "DESC" ? "<" : ">";
+      keyset = `(${order.key} ${past} ${value} OR (${order.key} = ${value} AND app_id > ${appId}))`;
+    }
+    const res = await pool.query(
+      `SELECT * FROM (
+         SELECT ${columns}, ${score} AS score, lower(name) AS sort_name, created_at AS sort_created,
+                created_at::text AS created_text
+         FROM game_metadata WHERE ${where}
+       ) ranked
+       WHERE ${keyset}
+       ORDER BY ${order.key} ${order.direction}, app_id
+       LIMIT ${bind(params.limit + 1)}`,
+      values,
+    );
+    const rows = res.rows.slice(0, params.limit);
+    const last = rows[rows.length - 1];
+    const cursorValue = (row: any) =>
+      sort === "relevance" ? String(row.score) : sort === "name" ? row.sort_name : row.created_text;
+    return {
+      sort,
+      items: rows.map(mapGame),
+      nextCursor:
+        res.rows.length > params.limit && last ? encodeCursor({ sort, value: cursorValue(last), appId: last.app_id }) : null,
+    };
+  };
+
+  const total = async (params: SearchParams) => {
+    const { values, where } = build(params);
+    const res = await pool.query(`SELECT count(*)::int AS total FROM game_metadata WHERE ${where}`, values);
+    return res.rows[0].total as number;
+  };
+
+  const facetCounts = async (params: SearchParams, facet: SearchFacet): Promise<FacetCount[]> => {
+    const { values, bind, where } = build(params, facet);
+    const { column, array } = facetColumns[facet];
+    const source = array
+      ? `game_metadata, unnest(${column}) AS value WHERE ${where}`
+      : `(SELECT ${column} AS value FROM game_metadata WHERE ${where}) matched WHERE value <> ''`;
+    const res = await pool.query(
+      `SELECT value, count(*)::int AS count FROM ${source}
+       GROUP BY value ORDER BY count DESC, value LIMIT ${bind(facetLimit)}`,
+      values,
+    );
+    return res.rows.map((row) => ({ value: row.value, count: row.count }));
+  };
+
+  return {
+    async search(params: SearchParams) {
+      const [result, matched, genres, tags, developers, publishers] = await Promise.all([
+        page(params),
+        total(params),
+        facetCounts(params, "genre"),
+        facetCounts(params, "tag"),
+        facetCounts(params, "developer"),
+        facetCounts(params, "publisher"),
+      ]);
+      return { ...result, total: matched, facets: { genres, tags, developers, publishers } };
+    },
+  };
+}
+
+export type SearchEngine = ReturnType<typeof createSearchEngine>;
@@ -0,0 +1,122 @@
+import type { GameMetadata } from "../data/games";
+import { detailsFromAppDetails } from "./gameDetails";
+import { PriceObservation, priceFromAppDetails } from "./prices";
+
+// Store country (prices, availability) and language (names, genres) for Steam store calls.
+export interface StoreLocale {
+  cc: string;
+  language: string;
+}
+
+export const defaultStoreLocale: StoreLocale = { cc: "US", language: "english" };
+
+/**
+ * Reads the locale the gateway resolved from the caller's `cc`/`l` parameters or preferences
+ * (X-Store-Country / X-Store-Language); anything missing or malformed falls back to US English.
+ */
+export function storeLocaleFrom(headers: Record<string, string | string[] | undefined>): StoreLocale {
+  const country = headers["x-store-country"];
+  const language = headers["x-store-language"];
+  return {
+    cc: typeof country === "string" && /^[A-Z]{2}$/.test(country) ? country : defaultStoreLocale.cc,
+    language: typeof language === "string" && /^[a-z]+$/.test(language) ? language : defaultStoreLocale.language,
+  };
+}
+
+export const storeQuery = (locale: StoreLocale) => `cc=${locale.cc}&l=${locale.language}`;
+
+// Steam's "Early Access" genre; it is dropped from the app once the game leaves early access.
+const earlyAccessGenreId = "70";
+
+export interface ReleaseStatus {
+  comingSoon: boolean;
+  // Free text as the store shows it ("Q3 2026", "12 Mar, 2025"), in the requested language.
+  date: string | null;
+  earlyAccess: boolean;
+}
+
+export type AppDetailsResult =
+  // `price` is null for free games and those without a store price yet.
+  | { status: "ok"; game: GameMetadata; price: PriceObservation | null; release: ReleaseStatus }
+  // Steam answered but has no store page for the app (delisted, region-locked or not a game).
+  | { status: "not_found" }
+  // appdetails allows roughly 200 requests per 5 minutes per IP and answers 429 beyond that.
+  | { status: "rate_limited" };
+
+/** Looks an app up in the Steam store's appdetails API; other HTTP failures throw. */
+export async function fetchAppDetails(appId: string, locale: StoreLocale): Promise<AppDetailsResult> {
+  const resp = await fetch(`https://store.steampowered.com/api/appdetails?appids=${appId}&${storeQuery(locale)}`);
+  if (resp.status === 429) return { status: "rate_limited" };
+  if (!resp.ok) throw new Error(`appdetails failed ${resp.status}`);
+  const json = (await resp.json()) as any;
+  const entry = json?.[appId];
+  if (!entry?.success || !entry.data) return { status: "not_found" };
+  const data = entry.data;
+  return {
+    status: "ok",
+    game: {
+      appId,
+      name: data.name,
+      genres: (data.genres || []).map((g: any) => g.description),
+      developer: (data.developers || [])[0] || "",
+      publisher: (data.publishers || [])[0] || "",
+      icon: data.header_image || "",
+      tags: (data.categories || []).map((c: any) => c.description),
+      details: detailsFromAppDetails(data),
+    },
+    price: priceFromAppDetails(appId, locale.cc, data.price_overview),
+    release: {
+      comingSoon: Boolean(data.release_date?.coming_soon),
+      date: data.release_date?.date || null,
+      earlyAccess: (data.genres || []).some((g: any) => String(g.id) === earlyAccessGenreId),
+    },
+  };
+}
+
+export interface AppListPage {
+  apps: { appId: string; name: string; lastModified: number }[];
+  haveMore: boolean;
+  lastAppId: number;
+}
+
+/**
+ * One page of IStoreService/GetAppList: games only, ordered by app id, starting after
+ * `lastAppId` and limited to apps changed since `modifiedSince` (epoch seconds, 0 for all).
+ */
+export async function fetchAppListPage(
+  apiKey: string,
+  options: { lastAppId: number; modifiedSince: number; pageSize: number },
+): Promise<AppListPage> {
+  const url = new URL("https://api.steampowered.com/IStoreService/GetAppList/v1/");
+  url.searchParams.set("key", apiKey);
+  url.searchParams.set("include_games", "true");
+  url.searchParams.set("last_appid", String(options.lastAppId));
+  url.searchParams.set("max_results", String(options.pageSize));
+  if (options.modifiedSince) url.searchParams.set("if_modified_since", String(options.modifiedSince));
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`GetAppList failed ${resp.status}`);
+  const json = (await resp.json()) as any;
+  const apps = (json?.response?.apps || []).map((app: any) => ({
+    appId: String(app.appid),
+    name: String(app.name || ""),
+    lastModified: Number(app.last_modified) || 0,
+  }));
+  return {
+    apps,
+    haveMore: Boolean(json?.response?.have_more_results),
+    lastAppId: Number(json?.response?.last_appid) || options.lastAppId,
+  };
+}
+
+/** Players in game right now (ISteamUserStats/GetNumberOfCurrentPlayers); null when Steam has no count. */
+export async function fetchCurrentPlayers(apiKey: string, appId: string): Promise<number | null> {
+  const url = new URL("https://api.steampowered.com/ISteamUserStats/GetNumberOfCurrentPlayers/v1/");
+  if (apiKey) url.searchParams.set("key", apiKey);
+  url.searchParams.set("appid", appId);
+  const resp = await fetch(url);
+  // 404 for apps Steam keeps no count for (unreleased, tools, delisted).
+  if (resp.status === 404) return null;
+  if (!resp.ok) throw new Error(`GetNumberOfCurrentPlayers failed ${resp.status}`);
+  const json = (await resp.json()) as any;
+  return typeof json?.response?.player_count === "number" ? json.response.player_count : null;
+}
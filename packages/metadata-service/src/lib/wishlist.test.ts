@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { defaultWishlistSettings, WishlistObservation, wishlistAlerts, WishlistSettings, WishlistState } from "./wishlist";
+
+const unseen: WishlistState = { finalCents: null, currency: null, comingSoon: null, earlyAccess: null, alertedCents: null };
+const onSale = (finalCents: number, currency = "USD"): WishlistObservation => ({ finalCents, currency, comingSoon: false, earlyAccess: false });
+const withTarget: WishlistSettings = { ...defaultWishlistSettings, targetCents: 1000, targetCurrency: "USD" };
+
+// Feeds observations through in order, carrying the state, and returns the alert kinds per look.
+const run = (settings: WishlistSettings, looks: WishlistObservation[], state = unseen) =>
+  looks.map((observed) => {
+    const result = wishlistAlerts(settings, state, observed);
+    state = result.state;
+    return result.alerts.map((alert) => alert.kind);
+  });
+
+describe("wishlistAlerts", () => {
+  it("fires when the price first reaches the target", () => {
+    const { alerts, state } = wishlistAlerts(withTarget, { ...unseen, finalCents: 1500, currency: "USD" }, onSale(999));
+    expect(alerts).toEqual([{ kind: "price_below", finalCents: 999, currency: "USD", targetCents: 1000 }]);
+    expect(state.alertedCents).toBe(999);
+  });
+
+  it("alerts again only when the price drops further", () => {
+    expect(run(withTarget, [onSale(900), onSale(900), onSale(950), onSale(800)])).toEqual([["price_below"], [], [], ["price_below"]]);
+  });
+
+  it("resets once the price goes back above the target", () => {
+    expect(run(withTarget, [onSale(900), onSale(1200), onSale(900)])).toEqual([["price_below"], [], ["price_below"]]);
+  });
+
+  it("ignores prices in another currency than the target's", () => {
+    const { alerts, state } = wishlistAlerts(withTarget, unseen, onSale(500, "EUR"));
+    expect(alerts).toEqual([]);
+    expect(state.alertedCents).toBeNull();
+    expect(run({ ...withTarget, targetCurrency: null }, [onSale(500, "EUR")])).toEqual([["price_below"]]);
+  });
+
+  it("sends no release or early-access alert on the first look", () => {
+    const settings = { ...defaultWishlistSettings, notifyEarlyAccess: true };
+    expect(run(settings, [onSale(1999)])).toEqual([[]]);
+    expect(wishlistAlerts(withTarget, unseen, { finalCents: null, currency: null, comingSoon: true, earlyAccess: false }).alerts).toEqual([]);
+  });
+
+  it("fires on release and on leaving early access", () => {
+    const settings = { ...defaultWishlistSettings, notifyEarlyAccess: true };
+    const comingSoon = { finalCents: null, currency: null, comingSoon: true, earlyAccess: false };
+    const earlyAccess = { ...onSale(1999), earlyAccess: true };
+    expect(run(settings, [comingSoon, earlyAccess, onSale(1999)])).toEqual([[], ["released"], ["left_early_access"]]);
+    expect(run({ ...settings, notifyRelease: false, notifyEarlyAccess: false }, [comingSoon, earlyAccess, onSale(1999)])).toEqual([[], [], []]);
+  });
+});
@@ -0,0 +1,255 @@
+import type { Pool, PoolClient } from "pg";
+
+// Keeps one account from turning the checker into a crawler of its own.
+export const maxWishlistItems = 500;
+
+export interface WishlistSettings {
+  // Alert once the price is at or below this (minor units); null for no price alert.
+  targetCents: number | null;
+  // Currency the target is in; null matches whatever the item's store country charges.
+  targetCurrency: string | null;
+  // Alert when a game that was "coming soon" comes out.
+  notifyRelease: boolean;
+  // Alert when a game leaves early access.
+  notifyEarlyAccess: boolean;
+}
+
+// What the checker saw on its last look; alerts fire on changes from it.
+export interface WishlistState {
+  finalCents: number | null;
+  currency: string | null;
+  comingSoon: boolean | null;
+  earlyAccess: boolean | null;
+  // The price a price alert was last sent for, cleared once the price goes back above target.
+  alertedCents: number | null;
+}
+
+export interface WishlistObservation {
+  finalCents: number | null;
+  currency: string | null;
+  comingSoon: boolean;
+  earlyAccess: boolean;
+}
+
+export type WishlistAlert =
+  | { kind: "price_below"; finalCents: number; currency: string; targetCents: number }
+  | { kind: "released" }
+  | { kind: "left_early_access" };
+
+export interface WishlistItem extends WishlistSettings {
+  appId: string;
+  // Store country the item is checked in: the caller's when it was added.
+  cc: string;
+  name: string | null;
+  icon: string | null;
+  addedAt: string;
+  checkedAt: string | null;
+  finalCents: number | null;
+  currency: string | null;
+  comingSoon: boolean | null;
+  earlyAccess: boolean | null;
+}
+
+export const defaultWishlistSettings: WishlistSettings = {
+  targetCents: null,
+  targetCurrency: null,
+  notifyRelease: true,
+  notifyEarlyAccess: false,
+};
+
+/**
+ * Compares a fresh look at a game with the item's last state. A price alert fires when the
+ * price first reaches the target and again only if it drops further; release and early-access
+ * alerts fire on the transition, so nothing fires on the first look (there is no "before").
+ */
+export function wishlistAlerts(settings: WishlistSettings, state: WishlistState, observed: WishlistObservation) {
+  const alerts: WishlistAlert[] = [];
+  let alertedCents = state.alertedCents;
+  const priced = observed.finalCents !== null && observed.currency !== null;
+  if (settings.targetCents !== null && priced && (!settings.targetCurrency || settings.targetCurrency === observed.currency)) {
+    if (observed.finalCents! <= settings.targetCents) {
+      if (alertedCents === null || observed.finalCents! < alertedCents) {
+        alerts.push({ kind: "price_below", finalCents: observed.finalCents!, currency: observed.currency!, targetCents: settings.targetCents });
+        alertedCents = observed.finalCents;
+      }
+    } else {
+      alertedCents = null;
+    }
+  }
+  if (settings.notifyRelease && state.comingSoon === true && !observed.comingSoon) {
+    alerts.push({ kind: "released" });
+  }
+  if (settings.notifyEarlyAccess && state.earlyAccess === true && !observed.earlyAccess && !observed.comingSoon) {
+    alerts.push({ kind: "left_early_access" });
+  }
+  const next: WishlistState = {
+    finalCents: observed.finalCents,
+    currency: observed.currency,
+    comingSoon: observed.comingSoon,
+    earlyAccess: observed.earlyAccess,
+    alertedCents,
+  };
+  return { alerts, state: next };
+}
+
+const mapItem = (row: any): WishlistItem => ({
+  appId: row.app_id,
+  cc: row.cc,
+  name: row.name ?? null,
+  icon: row.icon || null,
+  targetCents: row.target_cents,
+  targetCurrency: row.target_currency,
+  notifyRelease: row.notify_release,
+  notifyEarlyAccess: row.notify_early_access,
+  addedAt: new Date(row.added_at).toISOString(),
+  checkedAt: row.checked_at ? new Date(row.checked_at).toISOString() : null,
+  finalCents: row.final_cents,
+  currency: row.currency,
+  comingSoon: row.coming_soon,
+  earlyAccess: row.early_access,
+});
+
+const itemColumns = `w.app_id, w.cc, g.name, g.icon, w.target_cents, w.target_currency, w.notify_release, w.notify_early_access,
+  w.added_at, w.checked_at, w.final_cents, w.currency, w.coming_soon, w.early_access`;
+
+/**
+ * Wishlists in `wishlist_items`, one row per user and game. Names and icons come from the
+ * catalog when it has the game. The checker's state lives on the same row.
+ */
+export function createWishlistStore(pool: Pool) {
+  const get = async (steamId: string, appId: string) => {
+    const res = await pool.query(
+      `SELECT ${itemColumns} FROM wishlist_items w LEFT JOIN game_metadata g ON g.app_id = w.app_id
+       WHERE w.steam_id = $1 AND w.app_id = $2`,
+      [steamId, appId],
+    );
+    return res.rowCount ? mapItem(res.rows[0]) : null;
+  };
+
+  return {
+    get,
+
+    async list(steamId: string) {
+      const res = await pool.query(
+        `SELECT ${itemColumns} FROM wishlist_items w LEFT JOIN game_metadata g ON g.app_id = w.app_id
+         WHERE w.steam_id = $1 ORDER BY w.added_at DESC, w.app_id`,
+        [steamId],
+      );
+      return res.rows.map(mapItem);
+    },
+
+    async add(steamId: string, appId: string, cc: string, settings: WishlistSettings) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        // Serialises adds per user so two tabs cannot push the list past the limit.
+        await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`wishlist:${steamId}`]);
+        const count = await client.query(
+          `SELECT count(*)::int AS n, COALESCE(bool_or(app_id = $2), false) AS present FROM wishlist_items WHERE steam_id = $1`,
+          [steamId, appId],
+        );
+        if (!count.rows[0].present && count.rows[0].n >= maxWishlistItems) {
+          await client.query("ROLLBACK");
+          return { status: "full" as const };
+        }
+        const inserted = await client.query(
+          `INSERT INTO wishlist_items (steam_id, app_id, cc, target_cents, target_currency, notify_release, notify_early_access)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           ON CONFLICT (steam_id, app_id) DO NOTHING`,
+          [steamId, appId, cc, settings.targetCents, settings.targetCurrency, settings.notifyRelease, settings.notifyEarlyAccess],
+        );
+        await client.query("COMMIT");
+        return { status: inserted.rowCount ? ("created" as const) : ("exists" as const), item: (await get(steamId, appId))! };
+      } catch (err) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+
+    // A changed target can alert again, so the record of the last price alert is cleared.
+    async update(steamId: string, appId: string, patch: Partial<WishlistSettings>) {
+      const current = await get(steamId, appId);
+      if (!current) return null;
+      const next = { ...current, ...patch };
+      const targetChanged = next.targetCents !== current.targetCents || next.targetCurrency !== current.targetCurrency;
+      await pool.query(
+        `UPDATE wishlist_items
+         SET target_cents = $3, target_currency = $4, notify_release = $5, notify_early_access = $6,
+             alerted_cents = CASE WHEN $7::boolean THEN NULL ELSE alerted_cents END
+         WHERE steam_id = $1 AND app_id = $2`,
+        [steamId, appId, next.targetCents, next.targetCurrency, next.notifyRelease, next.notifyEarlyAccess, targetChanged],
+      );
+      return get(steamId, appId);
+    },
+
+    async remove(steamId: string, appId: string) {
+      const res = await pool.query(`DELETE FROM wishlist_items WHERE steam_id = $1 AND app_id = $2`, [steamId, appId]);
+      return Boolean(res.rowCount);
+    },
+
+    /**
+     * Games (per store country) with at least one item not checked in `recheckMinutes`,
+     * never-checked first. One appdetails lookup serves every user wishing for the game there.
+     */
+    async due(limit: number, recheckMinutes: number): Promise<{ appId: string; cc: string }[]> {
+      const res = await pool.query(
+        `SELECT app_id, cc FROM wishlist_items
+         GROUP BY app_id, cc
+         HAVING bool_or(checked_at IS NULL OR checked_at < now() - make_interval(mins => $1))
+         ORDER BY min(checked_at) NULLS FIRST, app_id
+         LIMIT $2`,
+        [recheckMinutes, limit],
+      );
+      return res.rows.map((row) => ({ appId: row.app_id, cc: row.cc }));
+    },
+
+    async watchers(appId: string, cc: string, db: Pool | PoolClient = pool) {
+      const res = await db.query(
+        `SELECT steam_id, target_cents, target_currency, notify_release, notify_early_access,
+                final_cents, currency, coming_soon, early_access, alerted_cents
+         FROM wishlist_items WHERE app_id = $1 AND cc = $2
+         FOR UPDATE`,
+        [appId, cc],
+      );
+      return res.rows.map((row) => ({
+        steamId: row.steam_id as string,
+        settings: {
+          targetCents: row.target_cents,
+          targetCurrency: row.target_currency,
+          notifyRelease: row.notify_release,
+          notifyEarlyAccess: row.notify_early_access,
+        } as WishlistSettings,
+        state: {
+          finalCents: row.final_cents,
+          currency: row.currency,
+          comingSoon: row.coming_soon,
+          earlyAccess: row.early_access,
+          alertedCents: row.alerted_cents,
+        } as WishlistState,
+      }));
+    },
+
+    async saveState(steamId: string, appId: string, state: WishlistState, db: Pool | PoolClient = pool) {
+      await db.query(
+        `UPDATE wishlist_items
+         SET checked_at = now(), final_cents = $3, currency = $4, coming_soon = $5, early_access = $6, alerted_cents = $7
+         WHERE steam_id = $1 AND app_id = $2`,
+        [steamId, appId, state.finalCents, state.currency, state.comingSoon, state.earlyAccess, state.alertedCents],
+      );
+    },
+
+    // For lookups that taught nothing (no store page, or an error): checked, state unchanged.
+    async markChecked(appId: string, cc: string) {
+      await pool.query(`UPDATE wishlist_items SET checked_at = now() WHERE app_id = $1 AND cc = $2`, [appId, cc]);
+    },
+
+    async deleteFor(steamId: string) {
+      const res = await pool.query(`DELETE FROM wishlist_items WHERE steam_id = $1`, [steamId]);
+      return res.rowCount ?? 0;
+    },
+  };
+}
+
+export type WishlistStore = ReturnType<typeof createWishlistStore>;
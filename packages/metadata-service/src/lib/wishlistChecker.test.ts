@@ -0,0 +1,50 @@
+import type { Pool } from "pg";
+import { describe, expect, it, vi } from "vitest";
+import type { CatalogSync } from "./catalogSync";
+import { createWishlistChecker } from "./wishlistChecker";
+
+type Lookup = Awaited<ReturnType<CatalogSync["lookup"]>>;
+
+// Holds the advisory lock for every tick and hands out three due games, answering lookups in order.
+function setup(...answers: Lookup[]) {
+  const client = { query: vi.fn(async () => ({ rows: [{ ok: true }] })), release: vi.fn() };
+  const pool = { connect: async () => client, query: vi.fn() } as unknown as Pool;
+  const stores = {
+    wishlist: {
+      due: vi.fn(async () => ["10", "20", "30"].map((appId) => ({ appId, cc: "US" }))),
+      markChecked: vi.fn(async () => undefined),
+    },
+    notifications: {},
+    prices: {},
+  } as any;
+  const lookup = vi.fn(async () => answers.shift() ?? { status: "not_found" as const });
+  const checked = vi.fn();
+  const checker = createWishlistChecker(pool, stores, { lookup }, { intervalMs: 1000, checksPerTick: 3, recheckMinutes: 60 }, { checked });
+  return { checker, pool, stores, lookup, checked };
+}
+
+describe("wishlist checker", () => {
+  it("looks games up through the catalog sync in each item's store country", async () => {
+    const { checker, stores, lookup, checked } = setup();
+    expect(await checker.runOnce()).toEqual({ checked: 3, alerts: 0 });
+    expect(lookup).toHaveBeenCalledWith("20", { cc: "US", language: "english" });
+    expect(stores.wishlist.markChecked).toHaveBeenCalledTimes(3);
+    expect(checked).toHaveBeenCalledWith("not_found");
+  });
+
+  it("ends the tick when the shared budget or cooldown defers a lookup", async () => {
+    const { checker, stores, lookup, checked } = setup({ status: "not_found" }, { status: "deferred" });
+    expect(await checker.runOnce()).toEqual({ checked: 1, alerts: 0 });
+    expect(lookup).toHaveBeenCalledTimes(2);
+    expect(stores.wishlist.markChecked).toHaveBeenCalledTimes(1);
+    expect(checked).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops at a 429 and leaves the cooldown to the catalog sync", async () => {
+    const { checker, pool, lookup, checked } = setup({ status: "rate_limited" });
+    expect(await checker.runOnce()).toEqual({ checked: 0, alerts: 0 });
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(checked).toHaveBeenCalledWith("rate_limited");
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+import type { Pool } from "pg";
+import type { CatalogSync } from "./catalogSync";
+import type { NewNotification, NotificationKind, NotificationStore } from "./notifications";
+import type { PriceStore } from "./prices";
+import { WishlistAlert, wishlistAlerts, WishlistObservation, WishlistStore } from "./wishlist";
+
+export interface WishlistCheckerOptions {
+  intervalMs: number;
+  // appdetails lookups per tick; each covers one game in one store country for every watcher.
+  checksPerTick: number;
+  // How long a game goes unchecked before it is due again.
+  recheckMinutes: number;
+}
+
+export type WishlistCheckResult = "ok" | "not_found" | "failed" | "rate_limited";
+
+export interface WishlistCheckerHooks {
+  checked?: (result: WishlistCheckResult) => void;
+  alerted?: (kind: NotificationKind) => void;
+}
+
+const formatCents = (cents: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+const notificationFor = (steamId: string, appId: string, name: string, cc: string, alert: WishlistAlert): NewNotification => {
+  switch (alert.kind) {
+    case "price_below":
+      return {
+        steamId,
+        kind: alert.kind,
+        appId,
+        title: `${name} is ${formatCents(alert.finalCents, alert.currency)}`,
+        body: `At or below your target of ${formatCents(alert.targetCents, alert.currency)} in the ${cc} store.`,
+        data: { cc, finalCents: alert.finalCents, currency: alert.currency, targetCents: alert.targetCents },
+      };
+    case "released":
+      return { steamId, kind: alert.kind, appId, title: `${name} is out`, body: "A game on your wishlist has been released.", data: { cc } };
+    case "left_early_access":
+      return {
+        steamId,
+        kind: alert.kind,
+        appId,
+        title: `${name} left early access`,
+        body: "A game on your wishlist is now a full release.",
+        data: { cc },
+      };
+  }
+};
+
+/**
+ * Looks at wishlisted games in the background and writes alerts to the inbox. Each tick takes
+ * the games due for a check, makes one appdetails lookup per game and store country, records
+ * the price into the history, and compares it with every watcher's thresholds. Lookups go
+ * through the catalog sync, so they spend its appdetails budget and stop under its 429
+ * cooldown; a tick ends early when either rules a call out. Replicas take turns via an
+ * advisory lock.
+ */
+export function createWishlistChecker(
+  pool: Pool,
+  stores: { wishlist: WishlistStore; notifications: NotificationStore; prices: PriceStore },
+  catalogSync: Pick<CatalogSync, "lookup">,
+  options: WishlistCheckerOptions,
+  hooks: WishlistCheckerHooks = {},
+) {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  // Alerts and the new state commit together, so a crash between them cannot alert twice.
+  const evaluate = async (appId: string, cc: string, name: string, observed: WishlistObservation) => {
+    const client = await pool.connect();
+    const sent: NotificationKind[] = [];
+    try {
+      await client.query("BEGIN");
+      for (const watcher of await stores.wishlist.watchers(appId, cc, client)) {
+        const { alerts, state } = wishlistAlerts(watcher.settings, watcher.state, observed);
+        for (const alert of alerts) {
+          await stores.notifications.add(notificationFor(watcher.steamId, appId, name, cc, alert), client);
+        }
+        await stores.wishlist.saveState(watcher.steamId, appId, state, client);
+        sent.push(...alerts.map((alert) => alert.kind));
+      }
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw err;
+    } finally {
+      client.release();
+    }
+    sent.forEach((kind) => hooks.alerted?.(kind));
+    return sent.length;
+  };
+
+  // Returns how many games were checked and alerts sent, or null when another tick holds the lock.
+  const runOnce = async (): Promise<{ checked: number; alerts: number } | null> => {
+    if (running) return null;
+    running = true;
+    const lock = await pool.connect();
+    try {
+      const acquired = await lock.query("SELECT pg_try_advisory_lock(hashtext('metadata-service:wishlist-check')) AS ok");
+      if (!acquired.rows[0].ok) return null;
+      try {
+        const summary = { checked: 0, alerts: 0 };
+        for (const { appId, cc } of await stores.wishlist.due(options.checksPerTick, options.recheckMinutes)) {
+          let result: WishlistCheckResult;
+          try {
+            // English for the notification text; the price for the item's store country.
+            const details = await catalogSync.lookup(appId, { cc, language: "english" });
+            // Out of budget or cooling down: the rest stay due for the next tick.
+            if (details.status === "deferred") break;
+            if (details.status === "ok") {
+              if (details.price) await stores.prices.record(details.price);
+              summary.alerts += await evaluate(appId, cc, details.game.name, {
+                finalCents: details.price?.finalCents ?? null,
+                currency: details.price?.currency ?? null,
+                comingSoon: details.release.comingSoon,
+                earlyAccess: details.release.earlyAccess,
+              });
+            } else if (details.status === "not_found") {
+              await stores.wishlist.markChecked(appId, cc);
+            }
+            result = details.status;
+          } catch (err) {
+            console.error(`[wishlist-check] app ${appId} (${cc}) failed`, err);
+            // Retried at the next recheck rather than holding the front of the queue.
+            await stores.wishlist.markChecked(appId, cc).catch(() => undefined);
+            result = "failed";
+          }
+          hooks.checked?.(result);
+          // lookup has started the shared cooldown.
+          if (result === "rate_limited") break;
+          summary.checked++;
+        }
+        return summary;
+      } finally {
+        await lock.query("SELECT pg_advisory_unlock(hashtext('metadata-service:wishlist-check'))");
+      }
+    } finally {
+      lock.release();
+      running = false;
+    }
+  };
+
+  return {
+    runOnce,
+
+    start() {
+      if (timer) return;
+      const tick = () => runOnce().catch((err) => console.error("[wishlist-check] tick failed", err));
+      timer = setInterval(tick, options.intervalMs);
+      timer.unref();
+    },
+  };
+}
+
+export type WishlistChecker = ReturnType<typeof createWishlistChecker>;
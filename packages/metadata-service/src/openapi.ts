@@ -0,0 +1,758 @@
+import { gameDetailsVersion } from "./data/games";
+import { errorResponse, errorSchema, jsonResponse, OpenApiDocument, OpenApiParameter, ref } from "shared";
+import { notificationKinds } from "./lib/notifications";
+import { searchFacets, searchSorts } from "./lib/search";
+
+const gameList = {
+  type: "object",
+  required: ["count", "items"],
+  properties: { count: { type: "integer" }, items: { type: "array", items: ref("GameMetadata") } },
+};
+
+// Set by the gateway from the caller's `cc`/`l` parameters or preferences; US English without them.
+const localeParams: OpenApiParameter[] = [
+  {
+    name: "X-Store-Country",
+    in: "header",
+    description: "ISO 3166 country the store prices for, e.g. DE.",
+    schema: { type: "string", pattern: "^[A-Z]{2}$" },
+  },
+  {
+    name: "X-Store-Language",
+    in: "header",
+    description: "Steam store language name, e.g. german.",
+    schema: { type: "string", pattern: "^[a-z]+$" },
+  },
+];
+
+const localeProperties = {
+  cc: { type: "string", description: "Store country the results were fetched for." },
+  language: { type: "string" },
+  currency: { type: "string", nullable: true, description: "Currency the store priced the results in." },
+};
+
+const featuredList = {
+  type: "object",
+  required: ["count", "items", "cc", "language", "currency"],
+  properties: {
+    count: { type: "integer" },
+    cached: {
+      type: "integer",
+      description: "How many of the items were new to the catalog (only English results are stored).",
+    },
+    ...localeProperties,
+    items: { type: "array", items: ref("GameMetadata") },
+  },
+};
+
+const featuredParams: OpenApiParameter[] = [
+  ...localeParams,
+  { name: "limit", in: "query", description: "Defaults to 12.", schema: { type: "integer", minimum: 1, maximum: 100 } },
+  {
+    name: "cache",
+    in: "query",
+    description: 'Pass "false" to skip adding the items to the catalog.',
+    schema: { type: "string", enum: ["true", "false"] },
+  },
+];
+
+const syncStatus = jsonResponse("Sync state", { type: "object", required: ["item"], properties: { item: ref("CatalogSyncStatus") } });
+
+// Every sync control answers the same way when the caller cannot manage the catalog.
+const syncAuthErrors = {
+  "401": errorResponse("Missing or invalid token"),
+  "403": errorResponse("Token lacks catalog:manage"),
+  "500": errorResponse("Sync state could not be read or changed"),
+};
+
+const syncControl = (summary: string) => ({
+  post: { tags: ["sync"], summary, responses: { "200": syncStatus, ...syncAuthErrors } },
+});
+
+const userErrors = {
+  "401": errorResponse("Missing or invalid token, or a token without a SteamID"),
+};
+
+const wishlistSettings = {
+  targetCents: {
+    type: "integer",
+    minimum: 1,
+    nullable: true,
+    description: "Alert when the price is at or below this, in the currency's minor unit. Null for no price alert.",
+  },
+  targetCurrency: {
+    type: "string",
+    pattern: "^[A-Z]{3}$",
+    nullable: true,
+    description: "Currency of the target; null for whatever the item's store country charges.",
+  },
+  notifyRelease: { type: "boolean", description: "Alert when an upcoming game is released (default true)." },
+  notifyEarlyAccess: { type: "boolean", description: "Alert when the game leaves early access (default false)." },
+};
+
+const item = (schema: Record<string, unknown>) => ({ type: "object", required: ["item"], properties: { item: schema } });
+
+const wishlistWrite = {
+  type: "object",
+  required: ["item", "created"],
+  properties: { item: ref("WishlistItem"), created: { type: "boolean" } },
+};
+
+const wishlistAppIdParam: OpenApiParameter = { name: "appId", in: "path", required: true, schema: ref("AppId") };
+
+const recommendationParams: OpenApiParameter[] = [
+  { name: "limit", in: "query", description: "Defaults to 12.", schema: { type: "integer", minimum: 1, maximum: 50 } },
+  {
+    name: "boost",
+    in: "query",
+    description: 'Pass "players" to favour games with many current players (up to +25% on the score).',
+    schema: { type: "string", enum: ["players"] },
+  },
+];
+
+const searchQuery: OpenApiParameter = {
+  name: "q",
+  in: "query",
+  required: true,
+  schema: { type: "string", minLength: 1, maxLength: 200 },
+};
+
+export const openApiDocument: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "metadata-service",
+    version: "0.1.0",
+    description: "Game catalog, Steam store search, featured lists and the Steam app list sync.",
+  },
+  paths: {
+    "/games": {
+      get: {
+        tags: ["catalog"],
+        summary: "List the catalog, optionally filtered by name or genre",
+        description: "In name order, one page at a time; use /search for ranked results.",
+        parameters: [
+          { name: "q", in: "query", schema: { type: "string", maxLength: 200 } },
+          { name: "limit", in: "query", description: "Defaults to 200.", schema: { type: "integer", minimum: 1, maximum: 1000 } },
+          { name: "offset", in: "query", schema: { type: "integer", minimum: 0 } },
+        ],
+        responses: { "200": jsonResponse("Catalog entries", gameList), "500": errorResponse("Catalog query failed") },
+      },
+    },
+    "/games/{appId}": {
+      get: {
+        tags: ["catalog"],
+        summary: "One catalog entry with its store page details",
+        description:
+          "`details` holds release date, Metacritic score, review count, media, languages, PC requirements, DLC " +
+          "and age ratings from appdetails (English, US store). When the entry has none at the current " +
+          "`details.version`, one appdetails lookup is made first (at most hourly per game); `details` is null " +
+          "if that fails.",
+        parameters: [{ name: "appId", in: "path", required: true, schema: ref("AppId") }],
+        responses: {
+          "200": jsonResponse("Catalog entry", { type: "object", required: ["item"], properties: { item: ref("GameMetadata") } }),
+          "400": errorResponse("Invalid appId"),
+          "404": errorResponse("Not in the catalog"),
+          "500": errorResponse("Catalog query failed"),
+        },
+      },
+    },
+    "/games/{appId}/similar": {
+      get: {
+        tags: ["recommendations"],
+        summary: "Catalog games most like this one",
+        description:
+          "Ranked by cosine similarity of tags, genres, developer and publisher. Shared developers weigh most, then " +
+          "genres; features most of the catalog shares (e.g. Single-player) count for little.",
+        parameters: [{ name: "appId", in: "path", required: true, schema: ref("AppId") }, ...recommendationParams],
+        responses: {
+          "200": jsonResponse("Similar games, best first", {
+            type: "object",
+            required: ["count", "items"],
+            properties: { count: { type: "integer" }, items: { type: "array", items: ref("Recommendation") } },
+          }),
+          "400": errorResponse("Invalid appId or parameters"),
+          "404": errorResponse("Not in the catalog"),
+          "500": errorResponse("Recommendation query failed"),
+        },
+      },
+    },
+    "/games/{appId}/prices": {
+      get: {
+        tags: ["prices"],
+        summary: "Price history with the current price and all-time and 90-day lows",
+        description:
+          "Prices are recorded from the featured lists and appdetails lookups, per store country (X-Store-Country). " +
+          "Consecutive identical observations form one run (`firstSeenAt` to `lastSeenAt`). With no history yet, " +
+          "one appdetails lookup is made. Amounts are in the currency's minor unit.",
+        parameters: [
+          { name: "appId", in: "path", required: true, schema: ref("AppId") },
+          localeParams[0],
+          {
+            name: "currency",
+            in: "query",
+            description: "ISO 4217 code; defaults to the most recently observed currency.",
+            schema: { type: "string", pattern: "^[A-Za-z]{3}$" },
+          },
+          {
+            name: "days",
+            in: "query",
+            description: "Timeline window; defaults to 365. The lows always use the full history.",
+            schema: { type: "integer", minimum: 1, maximum: 3650 },
+          },
+        ],
+        responses: {
+          "200": jsonResponse("Price history", { type: "object", required: ["item"], properties: { item: ref("PriceHistory") } }),
+          "400": errorResponse("Invalid appId or parameters"),
+          "500": errorResponse("Price query failed"),
+        },
+      },
+    },
+    "/games/cache": {
+      post: {
+        tags: ["catalog"],
+        summary: "Add an app to the catalog from Steam appdetails",
+        description:
+          "The appId may be sent in the JSON body or as a query parameter. Catalog fields are stored in English; " +
+          "the price is recorded for the caller's store country. While the catalog sync's appdetails cooldown or " +
+          "budget rules out a call, the app is queued for the sync instead (202).",
+        parameters: [{ name: "appId", in: "query", schema: ref("AppId") }, localeParams[0]],
+        requestBody: {
+          content: {
+            "application/json": { schema: { type: "object", properties: { appId: ref("AppId") } } },
+          },
+        },
+        responses: {
+          "200": jsonResponse("Catalog entry and whether it was already cached", {
+            type: "object",
+            properties: { item: ref("GameMetadata"), cached: { type: "boolean" } },
+          }),
+          "202": jsonResponse("Queued for the catalog sync; Steam cannot be asked right now", {
+            type: "object",
+            properties: { item: { type: "object", nullable: true }, cached: { type: "boolean" }, queued: { type: "boolean" } },
+          }),
+          "400": errorResponse("Missing or invalid appId"),
+          "500": errorResponse("Steam lookup failed or app not found"),
+        },
+      },
+    },
+    "/search": {
+      get: {
+        tags: ["search"],
+        summary: "Ranked, typo-tolerant catalog search with facets",
+        description:
+          "Matches name, developer, publisher, genres and tags by word prefix, names by trigram similarity, and " +
+          'name acronyms ("cs2"). Without `q` it browses the catalog. Facet filters combine with AND across ' +
+          "facets and OR within one; facet counts ignore the facet's own filter. Pass `nextCursor` back as " +
+          "`cursor`, with the same query, filters and sort, for the next page.",
+        parameters: [
+          { ...searchQuery, required: false },
+          ...searchFacets.map(
+            (facet): OpenApiParameter => ({
+              name: facet,
+              in: "query",
+              description: "Repeat to match any of several values.",
+              schema: { type: "array", maxItems: 20, items: { type: "string", maxLength: 200 } },
+            }),
+          ),
+          {
+            name: "sort",
+            in: "query",
+            description: 'Defaults to "relevance", which is "name" when there is no `q`.',
+            schema: { type: "string", enum: [...searchSorts] },
+          },
+          { name: "limit", in: "query", description: "Defaults to 24.", schema: { type: "integer", minimum: 1, maximum: 100 } },
+          { name: "cursor", in: "query", schema: { type: "string", maxLength: 1000 } },
+        ],
+        responses: {
+          "200": jsonResponse("One page of matches", ref("SearchResults")),
+          "400": errorResponse("Invalid parameters or cursor"),
+          "500": errorResponse("Catalog query failed"),
+        },
+      },
+    },
+    "/search/live": {
+      get: {
+        tags: ["search"],
+        summary: "Search the Steam store",
+        parameters: [searchQuery, ...localeParams],
+        responses: {
+          "200": jsonResponse("Store matches", {
+            ...gameList,
+            required: [...gameList.required, "cc", "language", "currency"],
+            properties: { ...gameList.properties, ...localeProperties },
+          }),
+          "400": errorResponse("Missing query"),
+          "500": errorResponse("Steam search failed"),
+        },
+      },
+    },
+    "/admin/catalog-sync": {
+      get: {
+        tags: ["sync"],
+        summary: "Steam app list sync progress, backlog and budget (needs catalog:manage)",
+        responses: { "200": syncStatus, ...syncAuthErrors },
+      },
+    },
+    "/admin/catalog-sync/run": {
+      post: {
+        tags: ["sync"],
+        summary: "Run one sync tick now, even while paused (needs catalog:manage)",
+        responses: {
+          "200": jsonResponse("What the tick did", {
+            type: "object",
+            properties: {
+              item: {
+                type: "object",
+                properties: {
+                  listed: { type: "integer" },
+                  added: { type: "integer" },
+                  enqueuedStale: { type: "integer" },
+                  enriched: { type: "object", additionalProperties: { type: "integer" } },
+                },
+              },
+              status: ref("CatalogSyncStatus"),
+            },
+          }),
+          "409": errorResponse("Another tick is running"),
+          ...syncAuthErrors,
+        },
+      },
+    },
+    "/admin/catalog-sync/pause": syncControl("Stop scheduled ticks until resumed (needs catalog:manage)"),
+    "/admin/catalog-sync/resume": syncControl("Resume scheduled ticks (needs catalog:manage)"),
+    "/admin/catalog-sync/relist": syncControl("Start a full pass over the Steam app list on the next tick (needs catalog:manage)"),
+    "/admin/catalog-sync/enqueue": {
+      post: {
+        tags: ["sync"],
+        summary: "Queue apps for appdetails ahead of everything else (needs catalog:manage)",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["appIds"],
+                properties: { appIds: { type: "array", minItems: 1, maxItems: 500, items: ref("AppId") } },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": jsonResponse("Queued", {
+            type: "object",
+            properties: { queued: { type: "integer" }, status: ref("CatalogSyncStatus") },
+          }),
+          "400": errorResponse("Missing or invalid appIds"),
+          ...syncAuthErrors,
+        },
+      },
+    },
+    "/recommendations/me": {
+      get: {
+        tags: ["recommendations"],
+        summary: "Catalog games for the caller, from the playtime in their library",
+        description:
+          "The caller's owned games (from game-stats, with their token) form a taste profile weighted by hours " +
+          "played, with the last two weeks counting extra. Owned games are never recommended. The library is " +
+          "reused for 10 minutes.",
+        parameters: recommendationParams,
+        responses: {
+          "200": jsonResponse("Recommendations, best first", {
+            type: "object",
+            required: ["count", "basedOn", "items"],
+            properties: {
+              count: { type: "integer" },
+              basedOn: {
+                type: "array",
+                description: "The owned games that weigh most in the profile.",
+                items: {
+                  type: "object",
+                  required: ["appId", "name"],
+                  properties: { appId: { type: "string" }, name: { type: "string" } },
+                },
+              },
+              items: { type: "array", items: ref("Recommendation") },
+            },
+          }),
+          "400": errorResponse("Invalid parameters"),
+          ...userErrors,
+          "403": errorResponse("Token lacks stats:read, or game-stats refused the library"),
+          "500": errorResponse("Recommendation query failed"),
+          "502": errorResponse("Owned games could not be loaded from game-stats"),
+        },
+      },
+    },
+    "/wishlist": {
+      get: {
+        tags: ["wishlist"],
+        summary: "The caller's wishlist, newest first",
+        responses: {
+          "200": jsonResponse("Wishlist", {
+            type: "object",
+            required: ["count", "items"],
+            properties: { count: { type: "integer" }, items: { type: "array", items: ref("WishlistItem") } },
+          }),
+          ...userErrors,
+        },
+      },
+      post: {
+        tags: ["wishlist"],
+        summary: "Add a game to the caller's wishlist",
+        description:
+          "The game is checked in the caller's store country (X-Store-Country) as of now. Adding a game that is " +
+          "already on the list returns it unchanged with 200.",
+        parameters: [localeParams[0]],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["appId"],
+                additionalProperties: false,
+                properties: { appId: ref("AppId"), ...wishlistSettings },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": jsonResponse("Added", wishlistWrite),
+          "200": jsonResponse("Already on the wishlist", wishlistWrite),
+          "400": errorResponse("Invalid body"),
+          ...userErrors,
+          "409": errorResponse("Wishlist is full"),
+        },
+      },
+    },
+    "/wishlist/{appId}": {
+      patch: {
+        tags: ["wishlist"],
+        summary: "Change an item's alert settings",
+        description: "Changing the price target lets the price alert fire again.",
+        parameters: [wishlistAppIdParam],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { type: "object", minProperties: 1, additionalProperties: false, properties: wishlistSettings },
+            },
+          },
+        },
+        responses: {
+          "200": jsonResponse("Updated item", item(ref("WishlistItem"))),
+          "400": errorResponse("Invalid body"),
+          ...userErrors,
+          "404": errorResponse("Not on the wishlist"),
+        },
+      },
+      delete: {
+        tags: ["wishlist"],
+        summary: "Remove a game from the caller's wishlist",
+        parameters: [wishlistAppIdParam],
+        responses: { "204": { description: "Removed" }, ...userErrors, "404": errorResponse("Not on the wishlist") },
+      },
+    },
+    "/notifications": {
+      get: {
+        tags: ["notifications"],
+        summary: "The caller's notification inbox, newest first",
+        description: "Pass `nextBefore` from one page as `before` to get the next.",
+        parameters: [
+          { name: "unread", in: "query", description: "Only unread notifications.", schema: { type: "boolean" } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100, default: 20 } },
+          { name: "before", in: "query", schema: { type: "string", pattern: "^[0-9]{1,18}$" } },
+        ],
+        responses: {
+          "200": jsonResponse("Notifications", {
+            type: "object",
+            required: ["count", "unread", "items", "nextBefore"],
+            properties: {
+              count: { type: "integer" },
+              unread: { type: "integer", description: "Unread notifications in the whole inbox." },
+              items: { type: "array", items: ref("Notification") },
+              nextBefore: { type: "string", nullable: true },
+            },
+          }),
+          ...userErrors,
+        },
+      },
+    },
+    "/notifications/read-all": {
+      post: {
+        tags: ["notifications"],
+        summary: "Mark every notification read",
+        responses: {
+          "200": jsonResponse("How many were unread", { type: "object", properties: { updated: { type: "integer" } } }),
+          ...userErrors,
+        },
+      },
+    },
+    "/notifications/{id}/read": {
+      post: {
+        tags: ["notifications"],
+        summary: "Mark one notification read",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string", pattern: "^[0-9]{1,18}$" } }],
+        responses: { "204": { description: "Marked read" }, ...userErrors, "404": errorResponse("No such notification") },
+      },
+    },
+    "/featured/free": {
+      get: {
+        tags: ["featured"],
+        summary: "Top free games from the Steam store front page",
+        parameters: featuredParams,
+        responses: { "200": jsonResponse("Free games", featuredList), "500": errorResponse("Steam lookup failed") },
+      },
+    },
+    "/featured/discounts": {
+      get: {
+        tags: ["featured"],
+        summary: "Discounted specials from the Steam store front page",
+        parameters: featuredParams,
+        responses: { "200": jsonResponse("Discounted games", featuredList), "500": errorResponse("Steam lookup failed") },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: errorSchema,
+      AppId: { type: "string", pattern: "^[0-9]{1,10}$", example: "570" },
+      GameMetadata: {
+        type: "object",
+        required: ["appId", "name", "genres", "developer", "publisher", "icon"],
+        properties: {
+          appId: { type: "string" },
+          name: { type: "string" },
+          genres: { type: "array", items: { type: "string" } },
+          developer: { type: "string" },
+          publisher: { type: "string" },
+          icon: { type: "string" },
+          tags: { type: "array", items: { type: "string" } },
+          details: {
+            allOf: [ref("GameDetails")],
+            nullable: true,
+            description: "Only on single-game reads; lists and search results leave it out.",
+          },
+        },
+      },
+      GameDetails: {
+        type: "object",
+        required: [
+          "version",
+          "fetchedAt",
+          "releaseDate",
+          "metacritic",
+          "reviewCount",
+          "screenshots",
+          "movies",
+          "supportedLanguages",
+          "pcRequirements",
+          "dlc",
+          "requiredAge",
+          "ageRatings",
+        ],
+        properties: {
+          version: { type: "integer", description: `Shape of this object; currently ${gameDetailsVersion}.` },
+          fetchedAt: { type: "string", format: "date-time" },
+          releaseDate: {
+            type: "object",
+            required: ["comingSoon", "date"],
+            properties: {
+              comingSoon: { type: "boolean" },
+              date: { type: "string", nullable: true, description: 'As the store shows it, e.g. "12 Mar, 2025" or "Q3 2026".' },
+            },
+          },
+          metacritic: {
+            type: "object",
+            nullable: true,
+            required: ["score", "url"],
+            properties: { score: { type: "integer" }, url: { type: "string", nullable: true } },
+          },
+          reviewCount: { type: "integer", nullable: true, description: "Steam user reviews written for the game." },
+          screenshots: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["id", "thumbnail", "full"],
+              properties: { id: { type: "integer" }, thumbnail: { type: "string" }, full: { type: "string" } },
+            },
+          },
+          movies: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["id", "name", "thumbnail", "webm", "mp4", "hls"],
+              properties: {
+                id: { type: "integer" },
+                name: { type: "string" },
+                thumbnail: { type: "string" },
+                webm: { type: "string", nullable: true },
+                mp4: { type: "string", nullable: true },
+                hls: { type: "string", nullable: true, description: "HLS playlist; the only format of some newer trailers." },
+              },
+            },
+          },
+          supportedLanguages: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["name", "fullAudio"],
+              properties: { name: { type: "string" }, fullAudio: { type: "boolean" } },
+            },
+          },
+          pcRequirements: {
+            type: "object",
+            required: ["minimum", "recommended"],
+            description: "Plain text, one requirement per line.",
+            properties: { minimum: { type: "string", nullable: true }, recommended: { type: "string", nullable: true } },
+          },
+          dlc: { type: "array", items: { type: "string" }, description: "App ids of the game's DLC." },
+          requiredAge: { type: "integer", description: "Age gate on the store page; 0 for none." },
+          ageRatings: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["board", "rating", "descriptors"],
+              properties: {
+                board: { type: "string", example: "esrb" },
+                rating: { type: "string", example: "m" },
+                descriptors: { type: "string", nullable: true },
+              },
+            },
+          },
+        },
+      },
+      Recommendation: {
+        allOf: [
+          ref("GameMetadata"),
+          {
+            type: "object",
+            required: ["score", "reasons"],
+            properties: {
+              score: { type: "number", description: "Similarity from 0 to 1, times the player boost when asked for." },
+              reasons: {
+                type: "array",
+                items: { type: "string" },
+                description: 'Shared features that counted most, e.g. "developer: Valve".',
+              },
+              currentPlayers: { type: "integer", nullable: true, description: "Only with boost=players." },
+            },
+          },
+        ],
+      },
+      PricePoint: {
+        type: "object",
+        required: ["firstSeenAt", "lastSeenAt", "initialCents", "finalCents", "discountPercent", "source"],
+        properties: {
+          firstSeenAt: { type: "string", format: "date-time" },
+          lastSeenAt: { type: "string", format: "date-time" },
+          initialCents: { type: "integer" },
+          finalCents: { type: "integer" },
+          discountPercent: { type: "integer" },
+          source: { type: "string", enum: ["featured", "appdetails"] },
+        },
+      },
+      PriceLow: {
+        type: "object",
+        nullable: true,
+        properties: {
+          finalCents: { type: "integer" },
+          discountPercent: { type: "integer" },
+          seenAt: { type: "string", format: "date-time", description: "When the low was last seen." },
+        },
+      },
+      PriceHistory: {
+        type: "object",
+        required: ["appId", "cc", "currency", "current", "allTimeLow", "low90d", "timeline", "currencies"],
+        properties: {
+          appId: { type: "string" },
+          cc: { type: "string", description: "Store country the history is for." },
+          currency: { type: "string", nullable: true },
+          current: { allOf: [ref("PricePoint")], nullable: true },
+          allTimeLow: ref("PriceLow"),
+          low90d: ref("PriceLow"),
+          timeline: { type: "array", items: ref("PricePoint") },
+          currencies: { type: "array", items: { type: "string" }, description: "Currencies with recorded history." },
+        },
+      },
+      CatalogSyncStatus: {
+        type: "object",
+        properties: {
+          enabled: { type: "boolean" },
+          paused: { type: "boolean" },
+          running: { type: "boolean" },
+          listCursor: { type: "integer", description: "Last app id read in the current pass over the app list." },
+          listPassStartedAt: { type: "string", format: "date-time", nullable: true },
+          lastPassCompletedAt: { type: "string", format: "date-time", nullable: true },
+          lastRunAt: { type: "string", format: "date-time", nullable: true },
+          lastSuccessAt: { type: "string", format: "date-time", nullable: true },
+          lastError: { type: "string", nullable: true },
+          rateLimitedUntil: { type: "string", format: "date-time", nullable: true },
+          catalogSize: { type: "integer" },
+          staleEntries: { type: "integer" },
+          backlog: {
+            type: "object",
+            description: "Apps waiting for appdetails, by why they were queued.",
+            properties: Object.fromEntries(["manual", "new", "modified", "stale"].map((key) => [key, { type: "integer" }])),
+          },
+          enrichPerMinute: { type: "integer" },
+          listPageSize: { type: "integer" },
+          intervalMs: { type: "integer" },
+        },
+      },
+      WishlistItem: {
+        type: "object",
+        required: ["appId", "cc", "targetCents", "targetCurrency", "notifyRelease", "notifyEarlyAccess", "addedAt"],
+        properties: {
+          appId: { type: "string" },
+          cc: { type: "string", description: "Store country the item is checked in." },
+          name: { type: "string", nullable: true, description: "From the catalog; null until the game is in it." },
+          icon: { type: "string", nullable: true },
+          ...wishlistSettings,
+          addedAt: { type: "string", format: "date-time" },
+          checkedAt: { type: "string", format: "date-time", nullable: true, description: "Last look by the wishlist checker." },
+          finalCents: { type: "integer", nullable: true, description: "Price at the last check." },
+          currency: { type: "string", nullable: true },
+          comingSoon: { type: "boolean", nullable: true },
+          earlyAccess: { type: "boolean", nullable: true },
+        },
+      },
+      Notification: {
+        type: "object",
+        required: ["id", "kind", "appId", "title", "body", "data", "createdAt", "readAt"],
+        properties: {
+          id: { type: "string" },
+          kind: { type: "string", enum: [...notificationKinds] },
+          appId: { type: "string", nullable: true },
+          title: { type: "string" },
+          body: { type: "string" },
+          data: { type: "object", additionalProperties: true, description: "What triggered it, e.g. prices and the target." },
+          createdAt: { type: "string", format: "date-time" },
+          readAt: { type: "string", format: "date-time", nullable: true },
+        },
+      },
+      FacetCount: {
+        type: "object",
+        required: ["value", "count"],
+        properties: { value: { type: "string" }, count: { type: "integer" } },
+      },
+      SearchResults: {
+        type: "object",
+        required: ["count", "total", "sort", "items", "facets", "nextCursor"],
+        properties: {
+          count: { type: "integer", description: "Items on this page." },
+          total: { type: "integer", description: "Matches across all pages." },
+          sort: { type: "string", enum: [...searchSorts], description: "The order actually applied." },
+          items: { type: "array", items: ref("GameMetadata") },
+          facets: {
+            type: "object",
+            description: "Top 20 values per facet among the matches.",
+            properties: Object.fromEntries(
+              ["genres", "tags", "developers", "publishers"].map((key) => [key, { type: "array", items: ref("FacetCount") }]),
+            ),
+          },
+          nextCursor: { type: "string", nullable: true },
+        },
+      },
+    },
+  },
+};
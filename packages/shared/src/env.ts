@@ -0,0 +1,13 @@
+/**
+ * Reads a secret that has no safe default. A missing value stops the service at startup unless
+ * NODE_ENV=development (as `npm run dev` sets), where `devValue` stands in so local runs need no .env.
+ */
+export function requiredSecret(name: string, devValue: string): string {
+  const value = process.env[name];
+  if (value) return value;
+  if (process.env.NODE_ENV !== "development") {
+    throw new Error(`${name} must be set; only NODE_ENV=development falls back to a built-in value`);
+  }
+  console.warn(`[config] ${name} is not set; using the development value`);
+  return devValue;
+}
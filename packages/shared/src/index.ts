@@ -0,0 +1,3 @@
+export * from "./env";
+export * from "./openapi";
+export * from "./tracing";
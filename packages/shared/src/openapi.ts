@@ -0,0 +1,163 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import type express from "express";
+
+type Schema = Record<string, unknown>;
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required?: boolean;
+  description?: string;
+  schema: Schema;
+}
+
+export interface OpenApiOperation {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  security?: Record<string, string[]>[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content: Record<string, { schema: Schema }> };
+  responses: Record<string, unknown>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Partial<Record<Method, OpenApiOperation>>>;
+  components?: { schemas?: Record<string, Schema>; [key: string]: unknown };
+}
+
+export interface ValidationIssue {
+  in: "path" | "query" | "body";
+  name: string;
+  message: string;
+}
+
+interface CompiledOperation {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  path: ValidateFunction | null;
+  query: ValidateFunction | null;
+  body: ValidateFunction | null;
+  bodyRequired: boolean;
+}
+
+// Shorthands for the error and JSON responses every service documents.
+export const jsonResponse = (description: string, schema: Schema) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+export const errorResponse = (description: string) => jsonResponse(description, { $ref: "#/components/schemas/Error" });
+export const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+export const errorSchema: Schema = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    requestId: { type: "string" },
+  },
+};
+
+function toIssues(location: ValidationIssue["in"], errors: ErrorObject[] | null | undefined): ValidationIssue[] {
+  return (errors || []).map((err) => {
+    const missing = err.keyword === "required" ? String(err.params.missingProperty) : "";
+    const name = missing || err.instancePath.split("/").filter(Boolean).join(".") || location;
+    return { in: location, name, message: `${name} ${err.message}` };
+  });
+}
+
+/**
+ * Checks path/query parameters and JSON bodies against the service's OpenAPI document before
+ * the handler runs, so malformed ids get a 400 here rather than a failed Steam call.
+ * Values are validated on copies; handlers keep reading req.params/req.query as before.
+ * Per-service behaviour goes through `options`.
+ */
+export function createRequestValidator(
+  document: OpenApiDocument,
+  // "array" also wraps a single ?genre=x into the array a repeatable parameter declares.
+  options: { coerceTypes?: true | "array" } = {},
+) {
+  const ajv = new Ajv({ strict: false, allErrors: true, coerceTypes: options.coerceTypes ?? true });
+  // Carry the components along so local "#/components/schemas/..." refs resolve.
+  const compile = (schema: Schema) => ajv.compile({ ...schema, components: document.components || {} });
+  const parameterSchema = (parameters: OpenApiParameter[], location: "path" | "query") => {
+    const selected = parameters.filter((p) => p.in === location);
+    if (!selected.length) return null;
+    return compile({
+      type: "object",
+      properties: Object.fromEntries(selected.map((p) => [p.name, p.schema])),
+      required: selected.filter((p) => p.required || location === "path").map((p) => p.name),
+    });
+  };
+
+  const operations: CompiledOperation[] = [];
+  for (const [path, item] of Object.entries(document.paths)) {
+    const keys: string[] = [];
+    const source = path
+      .split(/(\{[^}]+\})/)
+      .map((part) => {
+        const param = /^\{([^}]+)\}$/.exec(part);
+        if (!param) return part.replace(/[.*+?^$()|[\]\\]/g, "\\$&");
+        keys.push(param[1]);
+        return "([^/]+)";
+      })
+      .join("");
+    for (const [method, operation] of Object.entries(item) as [Method, OpenApiOperation][]) {
+      const bodySchema = operation.requestBody?.content["application/json"]?.schema;
+      operations.push({
+        method: method.toUpperCase(),
+        pattern: new RegExp(`^${source}/?$`),
+        keys,
+        path: parameterSchema(operation.parameters || [], "path"),
+        query: parameterSchema(operation.parameters || [], "query"),
+        body: bodySchema ? compile(bodySchema) : null,
+        bodyRequired: Boolean(operation.requestBody?.required),
+      });
+    }
+  }
+  // Literal segments win over templated ones (/spotlight/owned before /spotlight/{appId}).
+  operations.sort((a, b) => a.keys.length - b.keys.length);
+
+  const validate = (operation: CompiledOperation, match: RegExpExecArray, req: express.Request): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (operation.path) {
+      const values: Record<string, string> = {};
+      try {
+        operation.keys.forEach((key, i) => (values[key] = decodeURIComponent(match[i + 1])));
+      } catch {
+        return [{ in: "path", name: "path", message: "path is not valid URI encoding" }];
+      }
+      if (!operation.path(values)) issues.push(...toIssues("path", operation.path.errors));
+    }
+    if (operation.query && !operation.query({ ...req.query })) {
+      issues.push(...toIssues("query", operation.query.errors));
+    }
+    if (operation.body) {
+      const hasBody = req.body !== undefined && !(typeof req.body === "object" && !Object.keys(req.body).length);
+      // Validate a copy so type coercion never rewrites what the handler reads.
+      if ((hasBody || operation.bodyRequired) && !operation.body(structuredClone(req.body))) {
+        issues.push(...toIssues("body", operation.body.errors));
+      }
+    }
+    return issues;
+  };
+
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    for (const operation of operations) {
+      if (operation.method !== req.method) continue;
+      const match = operation.pattern.exec(req.path);
+      if (!match) continue;
+      const issues = validate(operation, match, req);
+      if (issues.length) {
+        return res.status(400).json({ error: "invalid_request", message: issues[0].message, details: issues });
+      }
+      break;
+    }
+    next();
+  };
+}
@@ -0,0 +1,81 @@
+import { randomUUID } from "crypto";
+import type { IncomingMessage } from "http";
+import dotenv from "dotenv";
+import type express from "express";
+import morgan from "morgan";
+import { trace } from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { Instrumentation, registerInstrumentations } from "@opentelemetry/instrumentation";
+import { ExpressInstrumentation } from "@opentelemetry/instrumentation-express";
+import { HttpInstrumentation } from "@opentelemetry/instrumentation-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import { BatchSpanProcessor, ConsoleSpanExporter, NodeTracerProvider, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-node";
+
+const requestIdHeader = "x-request-id";
+
+export const logFormat = "[:request-id] :method :url :status :response-time ms - :res[content-length]";
+morgan.token("request-id", (req: IncomingMessage) => String(req.headers[requestIdHeader] || "-"));
+
+// Reuses a sane incoming id (from Caddy, the gateway or a client) or mints one, and writes it back
+// onto the request headers so the gateway's proxy forwards it to the upstream service.
+function ensureRequestId(req: IncomingMessage): string {
+  const incoming = req.headers[requestIdHeader];
+  const requestId = typeof incoming === "string" && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+  req.headers[requestIdHeader] = requestId;
+  return requestId;
+}
+
+/**
+ * Starts the tracer provider and patches http and express, plus whatever the service passes in
+ * `instrumentations` (pg, redis). Call before those modules are loaded. OTEL_TRACES_EXPORTER
+ * picks the exporter: "otlp" (to OTEL_EXPORTER_OTLP_ENDPOINT), "console" for local runs, or
+ * "none"; it defaults to otlp when an endpoint is configured.
+ */
+export function startTracing(serviceName: string, instrumentations: Instrumentation[] = []) {
+  // Runs ahead of the service's own dotenv.config(), so load .env here for local runs.
+  dotenv.config();
+  const exporterName = process.env.OTEL_TRACES_EXPORTER || (process.env.OTEL_EXPORTER_OTLP_ENDPOINT ? "otlp" : "none");
+  if (exporterName === "none") return;
+  const spanProcessor =
+    exporterName === "console" ? new SimpleSpanProcessor(new ConsoleSpanExporter()) : new BatchSpanProcessor(new OTLPTraceExporter());
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ "service.name": process.env.OTEL_SERVICE_NAME || serviceName }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+  registerInstrumentations({
+    instrumentations: [
+      new HttpInstrumentation({
+        requestHook: (span, request) => {
+          // Server side only; outgoing ClientRequests already carry the forwarded header.
+          if (!("setHeader" in request)) {
+            span.setAttribute("http.request_id", ensureRequestId(request as IncomingMessage));
+          }
+        },
+      }),
+      new ExpressInstrumentation(),
+      ...instrumentations,
+    ],
+  });
+  // Flush buffered spans before exiting; registering these handlers replaces the default exit.
+  const shutdown = () => {
+    provider
+      .shutdown()
+      .catch((err) => console.error("[tracing] shutdown failed", err))
+      .finally(() => process.exit(0));
+  };
+  process.once("SIGTERM", shutdown);
+  process.once("SIGINT", shutdown);
+}
+
+// Exposes the request id on the response and on every JSON error body.
+export function requestContext(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const requestId = ensureRequestId(req);
+  res.locals.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  trace.getActiveSpan()?.setAttribute("http.request_id", requestId);
+  const json = res.json.bind(res);
+  res.json = (body?: any) =>
+    json(res.statusCode >= 400 && body && typeof body === "object" && !Array.isArray(body) ? { ...body, requestId } : body);
+  next();
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+
+interface Props {
+  token: string;
+  apiBase: string;
+  steamId: string;
+  onDeleted: () => void;
+}
+
+// Saves a fetched response through a temporary link so the auth header can be sent.
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AccountDataPanel = ({ token, apiBase, steamId, onDeleted }: Props) => {
+  const [exporting, setExporting] = useState<"json" | "zip" | null>(null);
+  const [confirmation, setConfirmation] = useState("");
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async (format: "json" | "zip") => {
+    setExporting(format);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBase}/auth/me/export?format=${format}`, { headers: { Authorization: `Bearer ${token}` } });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.message || json?.error || `Export failed (${res.status})`);
+      }
+      saveBlob(await res.blob(), `steam-dashboard-export-${steamId}.${format}`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const deleteAccount = async () => {
+    setDeleting(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBase}/auth/me`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ confirmSteamId: confirmation.trim() }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.message || json?.error || `Delete failed (${res.status})`);
+      onDeleted();
+    } catch (err) {
+      setError((err as Error).message);
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Your data</p>
+          <h2>Export or delete your account</h2>
+          <p className="meta">The export collects what every service keeps about you: profile, preferences, sessions, stats snapshots and usage.</p>
+        </div>
+        <div className="inline">
+          <button className="ghost" onClick={() => download("json")} disabled={exporting !== null}>
+            {exporting === "json" ? "Preparing..." : "Download JSON"}
+          </button>
+          <button className="ghost" onClick={() => download("zip")} disabled={exporting !== null}>
+            {exporting === "zip" ? "Preparing..." : "Download ZIP"}
+          </button>
+        </div>
+      </div>
+      {error ? <div className="status error">{error}</div> : null}
+      <div className="panel-body">
+        <h4>Delete my account</h4>
+        <p className="meta">
+          Signs you out everywhere and removes your data from every service. This cannot be undone. Type your SteamID ({steamId}) to
+          confirm.
+        </p>
+        <div className="inline">
+          <input className="compact" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="SteamID64" />
+          <button onClick={deleteAccount} disabled={deleting || confirmation.trim() !== steamId}>
+            {deleting ? "Deleting..." : "Delete my account"}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default AccountDataPanel;
@@ -0,0 +1,82 @@
+import { Link } from "react-router-dom";
+import { GameDetails } from "../types";
+
+// Metacritic's own bands: green from 75, red below 50.
+const metacriticClass = (score: number) => (score >= 75 ? "chip chip-ok" : score >= 50 ? "chip" : "chip chip-warn");
+
+/** Release, scores, age ratings, languages, PC requirements and DLC from the catalog's store data. */
+const GameFacts = ({ details }: { details: GameDetails }) => {
+  const { releaseDate, metacritic, pcRequirements } = details;
+  const audio = details.supportedLanguages.filter((language) => language.fullAudio).length;
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Store page</p>
+          <h2>About this game</h2>
+          <p className="meta">From the US Steam store, read {new Date(details.fetchedAt).toLocaleDateString()}.</p>
+        </div>
+      </div>
+      <div className="chip-row">
+        <span className="chip">
+          {releaseDate.comingSoon ? "Coming soon" : "Released"}
+          {releaseDate.date ? `: ${releaseDate.date}` : ""}
+        </span>
+        {metacritic ? (
+          metacritic.url ? (
+            <a className={metacriticClass(metacritic.score)} href={metacritic.url} target="_blank" rel="noreferrer">
+              Metacritic {metacritic.score}
+            </a>
+          ) : (
+            <span className={metacriticClass(metacritic.score)}>Metacritic {metacritic.score}</span>
+          )
+        ) : null}
+        {details.reviewCount !== null ? <span className="chip">{details.reviewCount.toLocaleString()} Steam reviews</span> : null}
+        {details.requiredAge > 0 ? <span className="chip">{details.requiredAge}+</span> : null}
+        {details.ageRatings.map((rating) => (
+          <span key={rating.board} className="chip" title={rating.descriptors || undefined}>
+            {rating.board.replace(/_/g, " ").toUpperCase()} {rating.rating.toUpperCase()}
+          </span>
+        ))}
+      </div>
+      <div className="facts-grid">
+        {details.supportedLanguages.length ? (
+          <div>
+            <h3>Languages</h3>
+            <p className="meta">
+              {details.supportedLanguages.map((language) => `${language.name}${language.fullAudio ? " *" : ""}`).join(", ")}
+            </p>
+            {audio ? <p className="hint">* with full audio</p> : null}
+          </div>
+        ) : null}
+        {pcRequirements.minimum ? (
+          <div>
+            <h3>Minimum requirements</h3>
+            <p className="meta requirements">{pcRequirements.minimum}</p>
+          </div>
+        ) : null}
+        {pcRequirements.recommended ? (
+          <div>
+            <h3>Recommended requirements</h3>
+            <p className="meta requirements">{pcRequirements.recommended}</p>
+          </div>
+        ) : null}
+        {details.dlc.length ? (
+          <div>
+            <h3>DLC ({details.dlc.length})</h3>
+            <div className="tags">
+              {details.dlc.map((id) => (
+                <Link key={id} to={`/games/${id}`} className="tag subtle">
+                  App {id}
+                </Link>
+              ))}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </section>
+  );
+};
+
+export default GameFacts;
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { GameMovie, GameScreenshot } from "../types";
+
+interface Props {
+  screenshots: GameScreenshot[];
+  movies: GameMovie[];
+}
+
+type Media = { kind: "movie"; movie: GameMovie } | { kind: "screenshot"; shot: GameScreenshot };
+
+const mediaKey = (media: Media) => (media.kind === "movie" ? `movie-${media.movie.id}` : `shot-${media.shot.id}`);
+
+/** Trailers first, then screenshots: one large viewer and a strip of thumbnails. */
+const MediaGallery = ({ screenshots, movies }: Props) => {
+  const media: Media[] = [
+    ...movies.map((movie) => ({ kind: "movie" as const, movie })),
+    ...screenshots.map((shot) => ({ kind: "screenshot" as const, shot })),
+  ];
+  const [index, setIndex] = useState(0);
+
+  // A different game brings a different list.
+  useEffect(() => setIndex(0), [screenshots, movies]);
+
+  if (!media.length) return null;
+  const current = media[Math.min(index, media.length - 1)];
+  const step = (delta: number) => setIndex((i) => (i + delta + media.length) % media.length);
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Media</p>
+          <h2>Trailers and screenshots</h2>
+        </div>
+        <div className="inline gap">
+          <button className="ghost" onClick={() => step(-1)} aria-label="Previous">
+            ‹
+          </button>
+          <span className="meta">
+            {index + 1} / {media.length}
+          </span>
+          <button className="ghost" onClick={() => step(1)} aria-label="Next">
+            ›
+          </button>
+        </div>
+      </div>
+      <div className="gallery-viewer">
+        {current.kind === "movie" ? (
+          // Keyed so switching trailers loads the new sources instead of keeping the old ones.
+          <video key={current.movie.id} controls poster={current.movie.thumbnail} preload="none">
+            {current.movie.webm ? <source src={current.movie.webm} type="video/webm" /> : null}
+            {current.movie.mp4 ? <source src={current.movie.mp4} type="video/mp4" /> : null}
+            {current.movie.hls ? <source src={current.movie.hls} type="application/vnd.apple.mpegurl" /> : null}
+          </video>
+        ) : (
+          <a href={current.shot.full} target="_blank" rel="noreferrer">
+            <img src={current.shot.full} alt={`Screenshot ${index + 1}`} />
+          </a>
+        )}
+      </div>
+      <div className="gallery-strip">
+        {media.map((item, i) => (
+          <button
+            key={mediaKey(item)}
+            className={i === index ? "gallery-thumb active" : "gallery-thumb"}
+            onClick={() => setIndex(i)}
+            aria-label={item.kind === "movie" ? item.movie.name : `Screenshot ${i + 1}`}
+          >
+            <img src={item.kind === "movie" ? item.movie.thumbnail : item.shot.thumbnail} alt="" />
+            {item.kind === "movie" ? <span className="gallery-play">▶</span> : null}
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default MediaGallery;
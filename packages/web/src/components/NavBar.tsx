@@ -1,12 +1,31 @@
 import { Link, useLocation } from "react-router-dom";
+import { useNotifications } from "./NotificationsProvider";
 
 interface Props {
+  // Permissions from the access token; links to pages that need one the user lacks are hidden.
+  scopes: string[];
   onLogout: () => void;
 }
 
-const NavBar = ({ onLogout }: Props) => {
+// `scope` mirrors what the page's API calls need at the gateway; the APIs still enforce it.
+const links: { to: string; label: string; scope?: string; also?: string[] }[] = [
+  { to: "/home", label: "Home" },
+  { to: "/discover", label: "Discover" },
+  { to: "/live-search", label: "Live Search" },
+  { to: "/featured", label: "Featured" },
+  { to: "/wishlist", label: "Wishlist" },
+  { to: "/dota-live", label: "Dota Live", scope: "stats:read" },
+  { to: "/spotlight", label: "Game Spotlight", scope: "stats:read" },
+  { to: "/usage", label: "Usage", scope: "usage:read" },
+  { to: "/users", label: "Users", scope: "users:manage" },
+  { to: "/profile", label: "Profile", also: ["/players"] },
+  { to: "/news", label: "News", scope: "stats:read" },
+];
+
+const NavBar = ({ scopes, onLogout }: Props) => {
   const location = useLocation();
   const isActive = (path: string) => (location.pathname === path ? "active" : "");
+  const { unread } = useNotifications();
 
   return (
     <nav className="navbar">
@@ -18,32 +37,18 @@ const NavBar = ({ onLogout }: Props) => {
         </div>
       </div>
       <div className="nav-links">
-        <Link className={isActive("/discover")} to="/discover">
-          Discover
-        </Link>
-        <Link className={isActive("/live-search")} to="/live-search">
-          Live Search
-        </Link>
-        <Link className={isActive("/featured")} to="/featured">
-          Featured
-        </Link>
-        <Link className={isActive("/dota-live")} to="/dota-live">
-          Dota Live
-        </Link>
-        <Link className={isActive("/spotlight")} to="/spotlight">
-          Game Spotlight
-        </Link>
-        <Link className={isActive("/usage")} to="/usage">
-          Usage
-        </Link>
-        <Link className={isActive("/profile") || isActive("/players")} to="/profile">
-          Profile
-        </Link>
-        <Link className={isActive("/news")} to="/news">
-          News
-        </Link>
+        {links
+          .filter((link) => !link.scope || scopes.includes(link.scope))
+          .map((link) => (
+            <Link key={link.to} className={[link.to, ...(link.also || [])].map(isActive).find(Boolean) || ""} to={link.to}>
+              {link.label}
+            </Link>
+          ))}
       </div>
       <div className="chip-row">
+        <Link className={`chip ${isActive("/inbox")}`} to="/inbox" aria-label={`Inbox, ${unread} unread`}>
+          Inbox{unread ? <span className="nav-badge">{unread > 99 ? "99+" : unread}</span> : null}
+        </Link>
         <span className="chip chip-ok">Signed in</span>
         <button className="ghost" onClick={onLogout}>
           Sign out
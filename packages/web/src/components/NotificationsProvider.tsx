@@ -0,0 +1,46 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+
+// How often the unread count is refreshed; the wishlist checker itself runs every few minutes.
+const POLL_MS = 60_000;
+
+interface NotificationsState {
+  unread: number;
+  refresh: () => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsState>({ unread: 0, refresh: async () => undefined });
+
+interface Props {
+  token: string;
+  apiBase: string;
+  children: ReactNode;
+}
+
+/** Keeps the inbox's unread count for the nav badge; the Inbox page refreshes it after changes. */
+export const NotificationsProvider = ({ token, apiBase, children }: Props) => {
+  const [unread, setUnread] = useState(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch(`${apiBase}/metadata/notifications?unread=true&limit=1`, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      const json = await res.json();
+      setUnread(Number(json.unread) || 0);
+    } catch {
+      // The badge is a hint; a missed poll is retried on the next one.
+    }
+  }, [apiBase, token]);
+
+  useEffect(() => {
+    refresh();
+    const id = setInterval(refresh, POLL_MS);
+    return () => clearInterval(id);
+  }, [refresh]);
+
+  return <NotificationsContext.Provider value={{ unread, refresh }}>{children}</NotificationsContext.Provider>;
+};
+
+export const useNotifications = () => useContext(NotificationsContext);
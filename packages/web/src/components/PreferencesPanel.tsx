@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { usePreferences } from "./PreferencesProvider";
+
+const landingPages = [
+  { path: "/home", label: "Home" },
+  { path: "/discover", label: "Discover" },
+  { path: "/live-search", label: "Live Search" },
+  { path: "/featured", label: "Featured" },
+  { path: "/dota-live", label: "Dota Live" },
+  { path: "/spotlight", label: "Game Spotlight" },
+  { path: "/profile", label: "Profile" },
+  { path: "/news", label: "News" },
+  { path: "/usage", label: "Usage" },
+  { path: "/users", label: "Users" },
+];
+
+// Blank inputs save as null, which means "use the default".
+const orNull = (value: string) => value.trim() || null;
+
+const PreferencesPanel = () => {
+  const { preferences, loaded, error, update } = usePreferences();
+  const [currency, setCurrency] = useState(preferences.currency || "");
+  const [region, setRegion] = useState(preferences.region || "");
+  const [language, setLanguage] = useState(preferences.language || "");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrency(preferences.currency || "");
+    setRegion(preferences.region || "");
+    setLanguage(preferences.language || "");
+  }, [preferences.currency, preferences.region, preferences.language]);
+
+  const saveLocale = async () => {
+    setSaving(true);
+    await update({ currency: orNull(currency.toUpperCase()), region: orNull(region.toUpperCase()), language: orNull(language) });
+    setSaving(false);
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Preferences</p>
+          <h2>Your settings</h2>
+          <p className="meta">Saved to your account, so they follow you to other devices.</p>
+        </div>
+      </div>
+      {error ? <div className="status error">{error}</div> : null}
+      {!loaded ? <p className="meta">Loading preferences...</p> : null}
+      <div className="panel-body two-col">
+        <div>
+          <h4>Start page</h4>
+          <select value={preferences.landingPage} onChange={(e) => update({ landingPage: e.target.value })} disabled={!loaded}>
+            {landingPages.map((p) => (
+              <option key={p.path} value={p.path}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+
+          <h4>Region and language</h4>
+          <div className="inline wrap gap">
+            <input className="compact" value={currency} onChange={(e) => setCurrency(e.target.value)} placeholder="Currency (e.g. EUR)" maxLength={3} />
+            <input className="compact" value={region} onChange={(e) => setRegion(e.target.value)} placeholder="Region (e.g. DE)" maxLength={2} />
+            <input className="compact" value={language} onChange={(e) => setLanguage(e.target.value)} placeholder="Language (e.g. en)" maxLength={6} />
+            <button className="ghost" onClick={saveLocale} disabled={!loaded || saving}>
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+        <div>
+          <h4>Favorite games</h4>
+          {preferences.favoriteAppIds.length ? (
+            <ul className="list">
+              {preferences.favoriteAppIds.map((appId) => (
+                <li key={appId}>
+                  <Link to={`/games/${appId}`}>AppID {appId}</Link>
+                  <button
+                    className="ghost small"
+                    onClick={() => update({ favoriteAppIds: preferences.favoriteAppIds.filter((id) => id !== appId) })}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="meta">No favorites yet. Use "Add to favorites" on a game's page.</p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default PreferencesPanel;
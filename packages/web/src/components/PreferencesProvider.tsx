@@ -0,0 +1,116 @@
+import { createContext, ReactNode, useContext, useEffect, useMemo, useState } from "react";
+import { Preferences } from "../types";
+
+// Mirrors the server defaults so pages can render before the stored document arrives.
+export const defaultPreferences: Preferences = {
+  version: 1,
+  landingPage: "/discover",
+  favoriteAppIds: [],
+  currency: null,
+  region: null,
+  language: null,
+  pages: {
+    spotlight: { achievementFilter: "all" },
+    profile: { inventoryAppId: "730" },
+    dotaLive: { selectedMatchId: null },
+  },
+};
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends any[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K] };
+export type PreferencesPatch = DeepPartial<Preferences>;
+
+interface PreferencesState {
+  preferences: Preferences;
+  // False until the stored preferences have loaded (or failed to).
+  loaded: boolean;
+  error: string | null;
+  update: (patch: PreferencesPatch) => Promise<void>;
+}
+
+const PreferencesContext = createContext<PreferencesState>({
+  preferences: defaultPreferences,
+  loaded: false,
+  error: null,
+  update: async () => undefined,
+});
+
+// Same merge the server applies to a PATCH, minus null handling (the client never sends nulls
+// for nested objects).
+const merge = (target: any, patch: any): any => {
+  if (typeof patch !== "object" || patch === null || Array.isArray(patch)) return patch;
+  const result = { ...target };
+  for (const [key, value] of Object.entries(patch)) result[key] = merge(target?.[key], value);
+  return result;
+};
+
+interface Props {
+  token: string;
+  apiBase: string;
+  children: ReactNode;
+}
+
+/**
+ * Loads the signed-in user's preferences from auth-service and saves changes back with PATCH,
+ * so settings follow the user across reloads and devices. Changes apply locally at once.
+ */
+export const PreferencesProvider = ({ token, apiBase, children }: Props) => {
+  const [preferences, setPreferences] = useState<Preferences>(defaultPreferences);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`${apiBase}/auth/me/preferences`, { headers: { Authorization: `Bearer ${token}` }, cache: "no-store" });
+        const json = await res.json().catch(() => null);
+        if (!res.ok || !json?.preferences) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+        if (!cancelled) setPreferences(json.preferences);
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      } finally {
+        if (!cancelled) setLoaded(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Only the signed-in user matters; a refreshed token for the same user needs no reload.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiBase, Boolean(token)]);
+
+  const update = async (patch: PreferencesPatch) => {
+    setPreferences((prev) => merge(prev, patch));
+    try {
+      const res = await fetch(`${apiBase}/auth/me/preferences`, {
+        method: "PATCH",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.preferences) throw new Error(json?.message || json?.error || `Save failed (${res.status})`);
+      setPreferences(json.preferences);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return <PreferencesContext.Provider value={{ preferences, loaded, error, update }}>{children}</PreferencesContext.Provider>;
+};
+
+export const usePreferences = () => useContext(PreferencesContext);
+
+/**
+ * Headers that price store lookups for the user's region and language. The gateway maps them
+ * to Steam's `cc`/`l` (a `cc` or `l` query parameter still wins) and rejects values it cannot map.
+ */
+export const useStoreHeaders = (): Record<string, string> => {
+  const { region, language } = usePreferences().preferences;
+  return useMemo(() => {
+    const headers: Record<string, string> = {};
+    if (region) headers["X-Store-Country"] = region;
+    if (language) headers["X-Store-Language"] = language;
+    return headers;
+  }, [region, language]);
+};
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { PriceHistory, PricePoint } from "../types";
+import { useStoreHeaders } from "./PreferencesProvider";
+
+interface Props {
+  token: string;
+  apiBase: string;
+  appId: string;
+}
+
+const formatPrice = (cents: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+const PriceHistoryPanel = ({ token, apiBase, appId }: Props) => {
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const storeHeaders = useStoreHeaders();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const url = new URL(`/metadata/games/${appId}/prices`, apiBase);
+    if (currency) url.searchParams.set("currency", currency);
+    setLoading(true);
+    setError(null);
+    fetch(url.toString(), { signal: controller.signal, headers: { ...storeHeaders, Authorization: `Bearer ${token}` } })
+      .then(async (res) => {
+        const json = await res.json().catch(() => null);
+        if (!res.ok || !json) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+        setHistory(json.item);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError((err as Error).message);
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [appId, apiBase, token, currency, storeHeaders]);
+
+  const current = history?.current;
+  const code = history?.currency || "USD";
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Prices</p>
+          <h2>Price history</h2>
+          <p className="meta">
+            Recorded from the Steam store's featured lists and store page lookups{history ? ` in the ${history.cc} store` : ""}.
+          </p>
+        </div>
+        {history && history.currencies.length > 1 ? (
+          <select value={code} onChange={(e) => setCurrency(e.target.value)} aria-label="Currency">
+            {history.currencies.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+      {error ? <div className="status error">{error}</div> : null}
+      {loading ? (
+        <div className="placeholder" style={{ height: 120 }} />
+      ) : current && history ? (
+        <div className="panel-body">
+          <div className="price-stats">
+            <div>
+              <p className="eyebrow">Now</p>
+              <p className="price-now">
+                {formatPrice(current.finalCents, code)}
+                {current.discountPercent ? <span className="chip chip-ok">-{current.discountPercent}%</span> : null}
+              </p>
+              {current.discountPercent ? <p className="meta strike">{formatPrice(current.initialCents, code)}</p> : null}
+              <p className="meta">Seen {formatDate(current.lastSeenAt)}</p>
+            </div>
+            {history.low90d ? (
+              <div>
+                <p className="eyebrow">90-day low</p>
+                <p className="price-now">{formatPrice(history.low90d.finalCents, code)}</p>
+                <p className="meta">Last seen {formatDate(history.low90d.seenAt)}</p>
+              </div>
+            ) : null}
+            {history.allTimeLow ? (
+              <div>
+                <p className="eyebrow">All-time low</p>
+                <p className="price-now">{formatPrice(history.allTimeLow.finalCents, code)}</p>
+                <p className="meta">Last seen {formatDate(history.allTimeLow.seenAt)}</p>
+              </div>
+            ) : null}
+          </div>
+          <PriceChart points={history.timeline} lowCents={history.allTimeLow?.finalCents ?? null} currency={code} />
+        </div>
+      ) : !error ? (
+        <div className="empty">No price recorded for this game. Free games have none.</div>
+      ) : null}
+    </section>
+  );
+};
+
+// Step chart of the final price: each run is flat from when it was first seen to the next run.
+const PriceChart = ({ points, lowCents, currency }: { points: PricePoint[]; lowCents: number | null; currency: string }) => {
+  if (!points.length) return <div className="empty">No price changes in the last year.</div>;
+  const width = 520;
+  const height = 140;
+  const start = Date.parse(points[0].firstSeenAt);
+  const end = Math.max(Date.parse(points[points.length - 1].lastSeenAt), start + 1);
+  const max = Math.max(...points.map((p) => Math.max(p.initialCents, p.finalCents)), 1);
+  const x = (t: number) => ((t - start) / (end - start)) * width;
+  const y = (cents: number) => height - 4 - (cents / max) * (height - 8);
+  const path = points
+    .map((p, i) => {
+      const from = x(Date.parse(p.firstSeenAt));
+      const to = i + 1 < points.length ? x(Date.parse(points[i + 1].firstSeenAt)) : x(Date.parse(p.lastSeenAt));
+      const level = y(p.finalCents).toFixed(2);
+      return `${i === 0 ? "M" : "L"} ${from.toFixed(2)} ${level} L ${to.toFixed(2)} ${level}`;
+    })
+    .join(" ");
+  return (
+    <div>
+      <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" role="img" aria-label="Price history">
+        {lowCents !== null ? (
+          <line x1={0} x2={width} y1={y(lowCents)} y2={y(lowCents)} stroke="#fde68a" strokeDasharray="4 4" strokeWidth={1} />
+        ) : null}
+        <path d={path} fill="none" stroke="#5eead4" strokeWidth={2} />
+      </svg>
+      <div className="inline price-axis">
+        <span className="meta">{formatDate(points[0].firstSeenAt)}</span>
+        <span className="meta">
+          Max {formatPrice(max, currency)}
+          {lowCents !== null ? ` · dashed: all-time low ${formatPrice(lowCents, currency)}` : ""}
+        </span>
+        <span className="meta">{formatDate(points[points.length - 1].lastSeenAt)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceHistoryPanel;
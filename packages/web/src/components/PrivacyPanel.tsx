@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { PrivacySettings, PrivacyVisibility } from "../types";
+
+interface Props {
+  token: string;
+  apiBase: string;
+}
+
+const visibilityOptions: { value: PrivacyVisibility; label: string }[] = [
+  { value: "public", label: "Anyone signed in" },
+  { value: "friends", label: "Steam friends only" },
+  { value: "private", label: "Only me" },
+];
+
+const sectionOptions: { key: keyof PrivacySettings["sections"]; label: string }[] = [
+  { key: "stats", label: "Stats and playtime" },
+  { key: "friends", label: "Friend list" },
+  { key: "inventory", label: "Inventory" },
+];
+
+const PrivacyPanel = ({ token, apiBase }: Props) => {
+  const [settings, setSettings] = useState<PrivacySettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`${apiBase}/stats/players/me/privacy`, { headers: { Authorization: `Bearer ${token}` }, cache: "no-store" })
+      .then(async (res) => {
+        const json = await res.json().catch(() => null);
+        if (!res.ok || !json) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+        setSettings(json.item);
+      })
+      .catch((err) => setError((err as Error).message));
+  }, [token, apiBase]);
+
+  const change = (next: PrivacySettings) => {
+    setSettings(next);
+    setSaved(false);
+  };
+
+  const save = async () => {
+    if (!settings) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBase}/stats/players/me/privacy`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(settings),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json) throw new Error(json?.message || json?.error || `Save failed (${res.status})`);
+      setSettings(json.item);
+      setSaved(true);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Privacy</p>
+          <h2>Who can look you up</h2>
+          <p className="meta">Applies to lookups of your SteamID through this dashboard. Steam's own profile privacy still applies on top.</p>
+        </div>
+        <div className="inline">
+          {saved ? <span className="chip chip-ok">Saved</span> : null}
+          <button onClick={save} disabled={!settings || saving}>
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+      {error ? <div className="status error">{error}</div> : null}
+      {settings ? (
+        <div className="panel-body two-col">
+          <div>
+            <h4>Visible to</h4>
+            <select value={settings.visibility} onChange={(e) => change({ ...settings, visibility: e.target.value as PrivacyVisibility })}>
+              {visibilityOptions.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <h4>History</h4>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={settings.keepSnapshots}
+                onChange={(e) => change({ ...settings, keepSnapshots: e.target.checked })}
+              />
+              Keep snapshots of my stats over time (turning this off deletes them)
+            </label>
+          </div>
+          <div>
+            <h4>Shared sections</h4>
+            <div className="list">
+              {sectionOptions.map((o) => (
+                <label key={o.key} className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={settings.sections[o.key]}
+                    disabled={settings.visibility === "private"}
+                    onChange={(e) => change({ ...settings, sections: { ...settings.sections, [o.key]: e.target.checked } })}
+                  />
+                  {o.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : !error ? (
+        <p className="meta">Loading privacy settings...</p>
+      ) : null}
+    </section>
+  );
+};
+
+export default PrivacyPanel;
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Recommendation } from "../types";
+import WishlistButton from "./WishlistButton";
+
+interface Props {
+  token: string;
+  apiBase: string;
+  // "/metadata/recommendations/me" or "/metadata/games/:appId/similar".
+  path: string;
+  subhead: string;
+}
+
+const RAIL_SIZE = 12;
+
+/** "You might like" row for Home (from the library) and Game Details (similar games). */
+const RecommendationRail = ({ token, apiBase, path, subhead }: Props) => {
+  const [items, setItems] = useState<Recommendation[]>([]);
+  const [basedOn, setBasedOn] = useState<string[]>([]);
+  const [boost, setBoost] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const url = new URL(path, apiBase);
+    url.searchParams.set("limit", String(RAIL_SIZE));
+    if (boost) url.searchParams.set("boost", "players");
+    setLoading(true);
+    setError(null);
+    fetch(url.toString(), { signal: controller.signal, headers: { Authorization: `Bearer ${token}` } })
+      .then(async (res) => {
+        const json = await res.json().catch(() => null);
+        // A game that is not in the catalog yet has nothing to compare against.
+        if (res.status === 404) return { items: [] };
+        if (!res.ok || !json) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+        return json;
+      })
+      .then((json) => {
+        setItems(json.items);
+        setBasedOn((json.basedOn || []).map((g: { name: string }) => g.name));
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError((err as Error).message);
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [path, apiBase, token, boost]);
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Recommendations</p>
+          <h2>You might like</h2>
+          <p className="subhead">
+            {subhead}
+            {basedOn.length ? ` Mostly from ${basedOn.slice(0, 3).join(", ")}.` : ""}
+          </p>
+        </div>
+        <label className="toggle">
+          <input type="checkbox" checked={boost} onChange={(e) => setBoost(e.target.checked)} />
+          Favour games people are playing now
+        </label>
+      </div>
+      {error ? <div className="status error">{error}</div> : null}
+      {loading ? (
+        <p className="meta">Finding games...</p>
+      ) : !items.length && !error ? (
+        <div className="empty">Nothing to suggest yet. The catalog fills in as the Steam app list sync runs.</div>
+      ) : (
+        <div className="rail">
+          {items.map((game) => (
+            <article key={game.appId} className="card">
+              {game.icon ? <img src={game.icon} alt={game.name} /> : null}
+              <div className="card-body">
+                <div className="card-header">
+                  <h3>{game.name}</h3>
+                </div>
+                <div className="tags">
+                  {game.reasons.map((reason) => (
+                    <span key={reason} className="tag subtle">
+                      {reason}
+                    </span>
+                  ))}
+                </div>
+                {game.currentPlayers != null ? <p className="meta">{game.currentPlayers.toLocaleString()} playing now</p> : null}
+                <div className="quick-actions">
+                  <Link to={`/games/${game.appId}`}>
+                    <button className="ghost">Details</button>
+                  </Link>
+                  <WishlistButton appId={game.appId} />
+                </div>
+              </div>
+            </article>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RecommendationRail;
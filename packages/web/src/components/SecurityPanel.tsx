@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { SessionInfo } from "../types";
+
+interface Props {
+  token: string;
+  apiBase: string;
+}
+
+// Rough device label from the user agent; the raw string is shown on hover.
+const describeAgent = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Browser";
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad/.test(userAgent)
+        ? "iOS"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "";
+  return os ? `${browser} on ${os}` : browser;
+};
+
+const SecurityPanel = ({ token, apiBase }: Props) => {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBase}/auth/me/sessions`, { headers: { Authorization: `Bearer ${token}` }, cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+      setSessions(json.items || []);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revoke = async (ids: string[]) => {
+    setPending(ids.length === 1 ? ids[0] : "others");
+    setError(null);
+    try {
+      for (const id of ids) {
+        const res = await fetch(`${apiBase}/auth/me/sessions/${id}`, {
+          method: "DELETE",
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        // 404: already signed out elsewhere, which is what we wanted.
+        if (!res.ok && res.status !== 404) {
+          const json = await res.json().catch(() => null);
+          throw new Error(json?.message || json?.error || `Sign out failed (${res.status})`);
+        }
+      }
+      setSessions((prev) => prev.filter((s) => !ids.includes(s.id)));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const others = sessions.filter((s) => !s.current);
+
+  return (
+    <section className="panel">
+      <div className="panel-head">
+        <div>
+          <p className="eyebrow">Security</p>
+          <h2>Where you're signed in</h2>
+          <p className="meta">Each Steam sign-in is a session. Signing one out ends it on that device within a minute.</p>
+        </div>
+        <div className="inline">
+          <button className="ghost" onClick={load} disabled={loading}>
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+          <button onClick={() => revoke(others.map((s) => s.id))} disabled={!others.length || pending !== null}>
+            {pending === "others" ? "Signing out..." : "Sign out other devices"}
+          </button>
+        </div>
+      </div>
+      {error ? <div className="status error">{error}</div> : null}
+      {!loading && !sessions.length ? <p className="meta">No active sessions found.</p> : null}
+      <ul className="list">
+        {sessions.map((s) => (
+          <li key={s.id}>
+            <span title={s.userAgent || undefined}>
+              {describeAgent(s.userAgent)}
+              {s.current ? <span className="chip chip-ok">This device</span> : null}
+            </span>
+            <span className="meta">
+              {s.ip || "unknown IP"} · signed in {new Date(s.createdAt).toLocaleString()} · last active{" "}
+              {new Date(s.lastRefreshedAt).toLocaleString()}
+            </span>
+            {s.current ? null : (
+              <button className="ghost small" onClick={() => revoke([s.id])} disabled={pending !== null}>
+                {pending === s.id ? "Signing out..." : "Sign out"}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default SecurityPanel;
@@ -0,0 +1,23 @@
+import { useState } from "react";
+import { useWishlist } from "./WishlistProvider";
+
+// Adds or removes one game; alert settings are edited on the Wishlist page.
+const WishlistButton = ({ appId }: { appId: string }) => {
+  const { has, add, remove, loaded } = useWishlist();
+  const [busy, setBusy] = useState(false);
+  const listed = has(appId);
+
+  const toggle = async () => {
+    setBusy(true);
+    await (listed ? remove(appId) : add(appId));
+    setBusy(false);
+  };
+
+  return (
+    <button className={listed ? "ghost wishlisted" : "ghost"} onClick={toggle} disabled={!loaded || busy} aria-pressed={listed}>
+      {listed ? "♥ Wishlisted" : "♡ Wishlist"}
+    </button>
+  );
+};
+
+export default WishlistButton;
@@ -0,0 +1,109 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { WishlistItem, WishlistSettings } from "../types";
+import { useStoreHeaders } from "./PreferencesProvider";
+
+interface WishlistState {
+  items: WishlistItem[];
+  loaded: boolean;
+  error: string | null;
+  has: (appId: string) => boolean;
+  add: (appId: string) => Promise<void>;
+  update: (appId: string, patch: Partial<WishlistSettings>) => Promise<void>;
+  remove: (appId: string) => Promise<void>;
+}
+
+const WishlistContext = createContext<WishlistState>({
+  items: [],
+  loaded: false,
+  error: null,
+  has: () => false,
+  add: async () => undefined,
+  update: async () => undefined,
+  remove: async () => undefined,
+});
+
+interface Props {
+  token: string;
+  apiBase: string;
+  children: ReactNode;
+}
+
+const failure = async (res: Response) => {
+  const json = await res.json().catch(() => null);
+  return new Error(json?.message || json?.error || `Failed (${res.status})`);
+};
+
+/**
+ * The signed-in user's wishlist from metadata-service, loaded once and shared so every page's
+ * wishlist button agrees. Items are added in the store country from the user's preferences.
+ */
+export const WishlistProvider = ({ token, apiBase, children }: Props) => {
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const storeHeaders = useStoreHeaders();
+  const headers = { ...storeHeaders, Authorization: `Bearer ${token}` };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${apiBase}/metadata/wishlist`, { headers: { Authorization: `Bearer ${token}` }, cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw await failure(res);
+        const json = await res.json();
+        if (!cancelled) setItems(json.items || []);
+      })
+      .catch((err) => !cancelled && setError((err as Error).message))
+      .finally(() => !cancelled && setLoaded(true));
+    return () => {
+      cancelled = true;
+    };
+    // Only the signed-in user matters; a refreshed token for the same user needs no reload.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiBase, Boolean(token)]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const add = (appId: string) =>
+    run(async () => {
+      const res = await fetch(`${apiBase}/metadata/wishlist`, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ appId }),
+      });
+      if (!res.ok) throw await failure(res);
+      const { item } = await res.json();
+      setItems((prev) => [item, ...prev.filter((i) => i.appId !== appId)]);
+    });
+
+  const update = (appId: string, patch: Partial<WishlistSettings>) =>
+    run(async () => {
+      const res = await fetch(`${apiBase}/metadata/wishlist/${appId}`, {
+        method: "PATCH",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      if (!res.ok) throw await failure(res);
+      const { item } = await res.json();
+      setItems((prev) => prev.map((i) => (i.appId === appId ? item : i)));
+    });
+
+  const remove = (appId: string) =>
+    run(async () => {
+      const res = await fetch(`${apiBase}/metadata/wishlist/${appId}`, { method: "DELETE", headers });
+      if (!res.ok && res.status !== 404) throw await failure(res);
+      setItems((prev) => prev.filter((i) => i.appId !== appId));
+    });
+
+  const has = (appId: string) => items.some((i) => i.appId === appId);
+
+  return <WishlistContext.Provider value={{ items, loaded, error, has, add, update, remove }}>{children}</WishlistContext.Provider>;
+};
+
+export const useWishlist = () => useContext(WishlistContext);
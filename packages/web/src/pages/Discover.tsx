@@ -1,6 +1,8 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
-import { GameMetadata } from "../types";
+import { useStoreHeaders } from "../components/PreferencesProvider";
+import WishlistButton from "../components/WishlistButton";
+import { FacetCount, GameMetadata, SearchFacet, SearchResults, SearchSort } from "../types";
 
 type CountState = { loading?: boolean; value?: number | null; error?: string };
 
@@ -9,49 +11,106 @@ interface Props {
   apiBase: string;
 }
 
+const facetGroups: { facet: SearchFacet; key: keyof SearchResults["facets"]; label: string }[] = [
+  { facet: "genre", key: "genres", label: "Genres" },
+  { facet: "tag", key: "tags", label: "Tags" },
+  { facet: "developer", key: "developers", label: "Developers" },
+  { facet: "publisher", key: "publishers", label: "Publishers" },
+];
+
+const emptyFilters: Record<SearchFacet, string[]> = { genre: [], tag: [], developer: [], publisher: [] };
+
 const DiscoverPage = ({ token, apiBase }: Props) => {
+  const storeHeaders = useStoreHeaders();
   const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState(emptyFilters);
+  const [sort, setSort] = useState<SearchSort>("relevance");
   const [items, setItems] = useState<GameMetadata[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<SearchResults["facets"] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [counts, setCounts] = useState<Record<string, CountState>>({});
   const [statusMsg, setStatusMsg] = useState<string | null>(null);
 
   const endpoint = useMemo(() => {
     const trimmed = query.trim();
-    const url = new URL("/metadata/games", apiBase);
+    const url = new URL("/metadata/search", apiBase);
     if (trimmed.length) url.searchParams.append("q", trimmed);
+    for (const group of facetGroups) {
+      for (const value of filters[group.facet]) url.searchParams.append(group.facet, value);
+    }
+    url.searchParams.append("sort", sort);
     return url.toString();
-  }, [query, apiBase]);
+  }, [query, filters, sort, apiBase]);
+
+  const fetchPage = async (url: string, signal?: AbortSignal) => {
+    const res = await fetch(url, { signal, headers: { Authorization: `Bearer ${token}` } });
+    const payload = await res.json().catch(() => null);
+    if (!res.ok || !payload) throw new Error(payload?.message || `Request failed: ${res.status}`);
+    return payload as SearchResults;
+  };
 
   useEffect(() => {
     const controller = new AbortController();
     setLoading(true);
     setError(null);
-    fetch(endpoint, {
-      signal: controller.signal,
-      headers: { Authorization: `Bearer ${token}` },
-    })
-      .then(async (res) => {
-        if (!res.ok) throw new Error(`Request failed: ${res.status}`);
-        const payload = await res.json();
+    fetchPage(endpoint, controller.signal)
+      .then((payload) => {
         setItems(payload.items || []);
+        setTotal(payload.total);
+        setFacets(payload.facets);
+        setNextCursor(payload.nextCursor);
         setLoading(false);
       })
       .catch((err) => {
         if (controller.signal.aborted) return;
         setError((err as Error).message);
         setItems([]);
+        setNextCursor(null);
         setLoading(false);
       });
     return () => controller.abort();
   }, [endpoint, token]);
 
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const url = new URL(endpoint);
+      url.searchParams.append("cursor", nextCursor);
+      const payload = await fetchPage(url.toString());
+      setItems((prev) => [...prev, ...(payload.items || [])]);
+      setNextCursor(payload.nextCursor);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const toggleFilter = (facet: SearchFacet, value: string) => {
+    setFilters((prev) => {
+      const selected = prev[facet];
+      return { ...prev, [facet]: selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value] };
+    });
+  };
+
+  // Keep selected values listed even when they drop out of the top counts.
+  const facetOptions = (facet: SearchFacet, counted: FacetCount[]) => [
+    ...counted,
+    ...filters[facet].filter((value) => !counted.some((c) => c.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+
+  const hasFilters = facetGroups.some((group) => filters[group.facet].length > 0);
+
   const fetchCount = async (appId: string) => {
     setCounts((prev) => ({ ...prev, [appId]: { loading: true } }));
     try {
       const res = await fetch(`${apiBase}/stats/games/${appId}/summary`, {
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { ...storeHeaders, Authorization: `Bearer ${token}` },
       });
       const json = await res.json();
       if (!res.ok) throw new Error(json?.message || "Failed to load count");
@@ -67,10 +126,10 @@ const DiscoverPage = ({ token, apiBase }: Props) => {
         <div>
           <p className="eyebrow">Discover</p>
           <h1>Browse cached Steam games</h1>
-          <p className="subhead">Quickly browse popular titles from the cached metadata service and load live player counts.</p>
+          <p className="subhead">Search the catalog by name, studio, genre or tag, narrow it down with filters and load live player counts.</p>
           <div className="search">
             <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search cached games..." aria-label="Search cached games" />
-            <span className="hint">Powered by metadata-service (cached)</span>
+            <span className="hint">Ranked and typo-tolerant: try "cs2" or "dota"</span>
           </div>
           <div className="quick-actions">
             <button className="ghost" onClick={() => setQuery("open world")}>
@@ -86,8 +145,8 @@ const DiscoverPage = ({ token, apiBase }: Props) => {
         </div>
         <div className="hero-card">
           <div className="pill">Cached catalog</div>
-          <h3>Low-latency search</h3>
-          <p>Game metadata is cached to avoid hammering the Steam API and render instant lists.</p>
+          <h3>Ranked search</h3>
+          <p>Full-text and fuzzy matching over the cached catalog, with filters by genre, tag, developer and publisher.</p>
         </div>
       </header>
 
@@ -98,82 +157,126 @@ const DiscoverPage = ({ token, apiBase }: Props) => {
             <p className="meta">From metadata-service cache</p>
           </div>
           <div className="inline gap">
-            {loading ? <span className="status">Loading…</span> : <span className="status">Found {items.length}</span>}
+            <select value={sort} onChange={(e) => setSort(e.target.value as SearchSort)} aria-label="Sort results">
+              <option value="relevance">Most relevant</option>
+              <option value="name">Name</option>
+              <option value="newest">Recently added</option>
+            </select>
+            {loading ? <span className="status">Loading…</span> : <span className="status">Found {total}</span>}
             {error ? <span className="status error">{error}</span> : null}
           </div>
         </div>
-        <div className="grid">
-          {items.map((game) => {
-            const countState = counts[game.appId];
-            return (
-              <article key={game.appId} className="card">
-                <img src={game.icon} alt={game.name} />
-                <div className="card-body">
-                  <div className="card-header">
-                    <h3>{game.name}</h3>
-                    <span className="app-id">AppID {game.appId}</span>
-                  </div>
-                  <p className="meta">
-                    {game.developer} • {game.publisher}
-                  </p>
-                  <div className="tags">
-                    {game.genres.map((genre) => (
-                      <span key={genre} className="tag">
-                        {genre}
-                      </span>
-                    ))}
-                    {(game.tags || []).map((tag) => (
-                      <span key={tag} className="tag subtle">
-                        {tag}
-                      </span>
-                    ))}
-                  </div>
-          <div className="count-row inline wrap">
-            {countState?.loading ? (
-              <span className="status">Loading count…</span>
-            ) : typeof countState?.value === "number" ? (
-              <span className="status">Current players: {countState.value.toLocaleString()}</span>
-            ) : countState?.error ? (
-              <span className="status error">Count failed</span>
-            ) : (
-              <button className="ghost" onClick={() => fetchCount(game.appId)}>
-                Load player count
+        <div className="browse">
+          <aside className="facets">
+            {hasFilters ? (
+              <button className="ghost" onClick={() => setFilters(emptyFilters)}>
+                Clear filters
               </button>
-            )}
-            <Link className="ghost" to={`/games/${game.appId}`}>
-              View details
-            </Link>
-            <button
-              className="ghost"
-              onClick={async () => {
-                setStatusMsg(null);
-                try {
-                  const res = await fetch(`${apiBase}/metadata/games/cache`, {
-                    method: "POST",
-                    headers: {
-                      "Content-Type": "application/json",
-                      Authorization: `Bearer ${token}`,
-                    },
-                    body: JSON.stringify({ appId: game.appId }),
-                  });
-                  const json = await res.json();
-                  if (!res.ok) throw new Error(json?.message || "Cache add failed");
-                  setStatusMsg(`Cached ${json.item?.name || game.appId}`);
-                } catch (err) {
-                  setStatusMsg((err as Error).message);
-                }
-              }}
-            >
-              Add to cache
-            </button>
+            ) : null}
+            {facetGroups.map((group) => {
+              const options = facetOptions(group.facet, facets?.[group.key] || []);
+              if (!options.length) return null;
+              return (
+                <div key={group.facet} className="facet">
+                  <h4>{group.label}</h4>
+                  {options.map((option) => (
+                    <label key={option.value} className="toggle">
+                      <input
+                        type="checkbox"
+                        checked={filters[group.facet].includes(option.value)}
+                        onChange={() => toggleFilter(group.facet, option.value)}
+                      />
+                      <span className="facet-value">{option.value}</span>
+                      <span className="facet-count">{option.count}</span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+          </aside>
+          <div>
+            <div className="grid">
+              {items.map((game) => {
+                const countState = counts[game.appId];
+                return (
+                  <article key={game.appId} className="card">
+                    <img src={game.icon} alt={game.name} />
+                    <div className="card-body">
+                      <div className="card-header">
+                        <h3>{game.name}</h3>
+                        <span className="app-id">AppID {game.appId}</span>
+                      </div>
+                      <p className="meta">
+                        {game.developer} • {game.publisher}
+                      </p>
+                      <div className="tags">
+                        {game.genres.map((genre) => (
+                          <span key={genre} className="tag">
+                            {genre}
+                          </span>
+                        ))}
+                        {(game.tags || []).map((tag) => (
+                          <span key={tag} className="tag subtle">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="count-row inline wrap">
+                        {countState?.loading ? (
+                          <span className="status">Loading count…</span>
+                        ) : typeof countState?.value === "number" ? (
+                          <span className="status">Current players: {countState.value.toLocaleString()}</span>
+                        ) : countState?.error ? (
+                          <span className="status error">Count failed</span>
+                        ) : (
+                          <button className="ghost" onClick={() => fetchCount(game.appId)}>
+                            Load player count
+                          </button>
+                        )}
+                        <Link className="ghost" to={`/games/${game.appId}`}>
+                          View details
+                        </Link>
+                        <WishlistButton appId={game.appId} />
+                        <button
+                          className="ghost"
+                          onClick={async () => {
+                            setStatusMsg(null);
+                            try {
+                              const res = await fetch(`${apiBase}/metadata/games/cache`, {
+                                method: "POST",
+                                headers: {
+                                  "Content-Type": "application/json",
+                                  Authorization: `Bearer ${token}`,
+                                },
+                                body: JSON.stringify({ appId: game.appId }),
+                              });
+                              const json = await res.json();
+                              if (!res.ok) throw new Error(json?.message || "Cache add failed");
+                              setStatusMsg(json.queued ? `Queued ${game.name} for the catalog sync` : `Cached ${json.item?.name || game.appId}`);
+                            } catch (err) {
+                              setStatusMsg((err as Error).message);
+                            }
+                          }}
+                        >
+                          Add to cache
+                        </button>
+                      </div>
+                    </div>
+                  </article>
+                );
+              })}
+              {!loading && !items.length && !error ? <p className="empty">No games matched your search.</p> : null}
+              {statusMsg ? <p className="status">{statusMsg}</p> : null}
+            </div>
+            {nextCursor ? (
+              <div className="inline load-more">
+                <button className="ghost" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? "Loading…" : `Load more (${items.length} of ${total})`}
+                </button>
+              </div>
+            ) : null}
           </div>
         </div>
-      </article>
-    );
-  })}
-          {!loading && !items.length && !error ? <p className="empty">No games matched your search.</p> : null}
-          {statusMsg ? <p className="status">{statusMsg}</p> : null}
-        </div>
       </section>
     </>
   );
@@ -1,5 +1,7 @@
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
+import { useStoreHeaders } from "../components/PreferencesProvider";
+import WishlistButton from "../components/WishlistButton";
 import { GameMetadata } from "../types";
 
 interface Props {
@@ -13,12 +15,15 @@ const FeaturedPage = ({ token, apiBase }: Props) => {
   const [status, setStatus] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  // Store country and currency the lists were priced in, as reported by the service.
+  const [pricedIn, setPricedIn] = useState<string | null>(null);
+  const storeHeaders = useStoreHeaders();
 
   const load = async () => {
     setLoading(true);
     setStatus(null);
     try {
-      const headers = { Authorization: `Bearer ${token}` };
+      const headers = { ...storeHeaders, Authorization: `Bearer ${token}` };
       const [freeRes, discountRes] = await Promise.all([
         fetch(new URL("/metadata/featured/free?limit=24", apiBase).toString(), { headers }),
         fetch(new URL("/metadata/featured/discounts?limit=24", apiBase).toString(), { headers }),
@@ -29,6 +34,8 @@ const FeaturedPage = ({ token, apiBase }: Props) => {
       const discountJson = await discountRes.json();
       setFreeGames(freeJson.items || []);
       setDiscounts(discountJson.items || []);
+      const currency = discountJson.currency || freeJson.currency;
+      setPricedIn(discountJson.cc ? `${discountJson.cc} store${currency ? `, ${currency}` : ""}` : null);
       setStatus(`Cached ${Number(freeJson.cached || 0) + Number(discountJson.cached || 0)} new titles.`);
       setLastUpdated(new Date().toLocaleTimeString());
     } catch (e: any) {
@@ -43,7 +50,7 @@ const FeaturedPage = ({ token, apiBase }: Props) => {
     const id = setInterval(() => load(), 60000); // refresh every minute
     return () => clearInterval(id);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [apiBase, token]);
+  }, [apiBase, token, storeHeaders]);
 
   const renderGrid = (items: GameMetadata[]) => (
     <div className="grid">
@@ -70,6 +77,7 @@ const FeaturedPage = ({ token, apiBase }: Props) => {
               <Link to="/news">
                 <button className="ghost">News</button>
               </Link>
+              <WishlistButton appId={g.appId} />
             </div>
           </div>
         </div>
@@ -97,6 +105,7 @@ const FeaturedPage = ({ token, apiBase }: Props) => {
           </div>
           {status && <div className="callout">{status}</div>}
           {lastUpdated && <div className="hint">Last updated: {lastUpdated}</div>}
+          {pricedIn && <div className="hint">Priced in: {pricedIn}</div>}
         </div>
         <div className="hero-card">
           <span className="eyebrow">Tip</span>
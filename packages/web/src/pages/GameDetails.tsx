@@ -1,6 +1,12 @@
 import { useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
-import { GameSummary, NewsItem } from "../types";
+import GameFacts from "../components/GameFacts";
+import MediaGallery from "../components/MediaGallery";
+import { usePreferences, useStoreHeaders } from "../components/PreferencesProvider";
+import PriceHistoryPanel from "../components/PriceHistoryPanel";
+import RecommendationRail from "../components/RecommendationRail";
+import WishlistButton from "../components/WishlistButton";
+import { GameDetails, GameSummary, NewsItem } from "../types";
 
 interface Props {
   token: string;
@@ -8,9 +14,12 @@ interface Props {
 }
 
 const GameDetailsPage = ({ token, apiBase }: Props) => {
+  const { preferences, loaded: preferencesLoaded, update: updatePreferences } = usePreferences();
+  const storeHeaders = useStoreHeaders();
   const { appId } = useParams();
   const [summary, setSummary] = useState<GameSummary | null>(null);
   const [news, setNews] = useState<NewsItem[]>([]);
+  const [details, setDetails] = useState<GameDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -19,9 +28,10 @@ const GameDetailsPage = ({ token, apiBase }: Props) => {
     const load = async () => {
       setLoading(true);
       setError(null);
+      setDetails(null);
       try {
         const res = await fetch(`${apiBase}/stats/games/${appId}/summary`, {
-          headers: { Authorization: `Bearer ${token}` },
+          headers: { ...storeHeaders, Authorization: `Bearer ${token}` },
         });
         const json = await res.json();
         if (!res.ok) throw new Error(json?.message || "Summary fetch failed");
@@ -32,6 +42,7 @@ const GameDetailsPage = ({ token, apiBase }: Props) => {
           headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
           body: JSON.stringify({ appId }),
         }).catch(() => undefined);
+        await fetchDetails(appId);
       } catch (err) {
         setError((err as Error).message);
         setSummary(null);
@@ -41,7 +52,19 @@ const GameDetailsPage = ({ token, apiBase }: Props) => {
       }
     };
     load();
-  }, [appId, apiBase, token]);
+  }, [appId, apiBase, token, storeHeaders]);
+
+  // Store page data from the catalog; the page works without it.
+  const fetchDetails = async (id: string) => {
+    try {
+      const res = await fetch(`${apiBase}/metadata/games/${id}`, { headers: { Authorization: `Bearer ${token}` } });
+      if (!res.ok) return;
+      const json = await res.json();
+      setDetails(json.item?.details || null);
+    } catch {
+      setDetails(null);
+    }
+  };
 
   const fetchNews = async (id: string) => {
     try {
@@ -58,12 +81,22 @@ const GameDetailsPage = ({ token, apiBase }: Props) => {
 
   if (!appId) return <div className="status error">Missing appId</div>;
 
+  const favorite = preferences.favoriteAppIds.includes(appId);
+  const toggleFavorite = () =>
+    updatePreferences({
+      favoriteAppIds: favorite ? preferences.favoriteAppIds.filter((id) => id !== appId) : [...preferences.favoriteAppIds, appId],
+    });
+
   return (
     <>
       <header className="hero">
         <div>
           <p className="eyebrow">Game Details</p>
           <h1>{summary?.name || `AppID ${appId}`}</h1>
+          <button className="ghost small" onClick={toggleFavorite} disabled={!preferencesLoaded} aria-pressed={favorite}>
+            {favorite ? "★ Favorite" : "☆ Add to favorites"}
+          </button>
+          {appId ? <WishlistButton appId={appId} /> : null}
           {summary ? (
             <>
               <p className="meta">
@@ -93,6 +126,19 @@ const GameDetailsPage = ({ token, apiBase }: Props) => {
         ) : null}
       </header>
 
+      {details ? <MediaGallery screenshots={details.screenshots} movies={details.movies} /> : null}
+
+      {details ? <GameFacts details={details} /> : null}
+
+      <PriceHistoryPanel token={token} apiBase={apiBase} appId={appId} />
+
+      <RecommendationRail
+        token={token}
+        apiBase={apiBase}
+        path={`/metadata/games/${appId}/similar`}
+        subhead="Games that share this one's tags, genres, developer or publisher."
+      />
+
       <section className="panel">
         <div className="panel-head">
           <div>
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
-import { SpotlightPayload, SpotlightAchievement, GameMetadata } from "../types";
+import { usePreferences } from "../components/PreferencesProvider";
+import { AchievementFilter, SpotlightPayload, SpotlightAchievement, GameMetadata } from "../types";
 
 interface Props {
   token: string;
@@ -54,7 +55,9 @@ const GameSpotlightPage = ({ token, apiBase }: Props) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [spotlight, setSpotlight] = useState<SpotlightVM | null>(null);
-  const [achFilter, setAchFilter] = useState<"all" | "unlocked" | "locked">("all");
+  const { preferences, update: updatePreferences } = usePreferences();
+  const achFilter = preferences.pages.spotlight.achievementFilter;
+  const setAchFilter = (achievementFilter: AchievementFilter) => updatePreferences({ pages: { spotlight: { achievementFilter } } });
 
   useEffect(() => {
     const loadOwned = async () => {
@@ -248,8 +251,8 @@ const AchievementsPanel = ({
   loading,
 }: {
   spot: SpotlightVM | null;
-  filter: "all" | "unlocked" | "locked";
-  onFilter: (f: "all" | "unlocked" | "locked") => void;
+  filter: AchievementFilter;
+  onFilter: (f: AchievementFilter) => void;
   loading: boolean;
 }) => {
   const list = spot?.achievements?.list || [];
@@ -1,5 +1,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
+import { useStoreHeaders } from "../components/PreferencesProvider";
+import RecommendationRail from "../components/RecommendationRail";
 import { GameMetadata } from "../types";
 
 interface Props {
@@ -15,6 +17,7 @@ type Spotlight = {
 };
 
 const HomePage = ({ token, apiBase }: Props) => {
+  const storeHeaders = useStoreHeaders();
   const [games, setGames] = useState<GameMetadata[]>([]);
   const [status, setStatus] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -59,7 +62,7 @@ const HomePage = ({ token, apiBase }: Props) => {
       setSpotlight({ game: pickSpotlight, loading: true });
       try {
         const res = await fetch(new URL(`/stats/games/${pickSpotlight.appId}/summary`, apiBase).toString(), {
-          headers: { Authorization: `Bearer ${token}` },
+          headers: { ...storeHeaders, Authorization: `Bearer ${token}` },
           signal: controller.signal,
         });
         if (!res.ok) throw new Error(`Failed (${res.status})`);
@@ -71,7 +74,7 @@ const HomePage = ({ token, apiBase }: Props) => {
     };
     load();
     return () => controller.abort();
-  }, [pickSpotlight, apiBase, token]);
+  }, [pickSpotlight, apiBase, token, storeHeaders]);
 
   return (
     <div className="page">
@@ -132,6 +135,13 @@ const HomePage = ({ token, apiBase }: Props) => {
         </div>
       </div>
 
+      <RecommendationRail
+        token={token}
+        apiBase={apiBase}
+        path="/metadata/recommendations/me"
+        subhead="Picked from the tags, genres and studios of the games you play most. Games you own are left out."
+      />
+
       <div className="panel">
         <div className="panel-head">
           <div>
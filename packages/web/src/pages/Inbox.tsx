@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useNotifications } from "../components/NotificationsProvider";
+import { AppNotification } from "../types";
+
+interface Props {
+  token: string;
+  apiBase: string;
+}
+
+const PAGE_SIZE = 20;
+
+const InboxPage = ({ token, apiBase }: Props) => {
+  const { unread, refresh } = useNotifications();
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const load = async (before: string | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const url = new URL("/metadata/notifications", apiBase);
+      url.searchParams.set("limit", String(PAGE_SIZE));
+      if (unreadOnly) url.searchParams.set("unread", "true");
+      if (before) url.searchParams.set("before", before);
+      const res = await fetch(url.toString(), { headers, cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+      setItems((prev) => (before ? [...prev, ...json.items] : json.items));
+      setNextBefore(json.nextBefore);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiBase, token, unreadOnly]);
+
+  const markRead = async (id: string) => {
+    const res = await fetch(`${apiBase}/metadata/notifications/${id}/read`, { method: "POST", headers }).catch(() => null);
+    if (!res?.ok) return;
+    setItems((prev) => prev.map((n) => (n.id === id ? { ...n, readAt: n.readAt || new Date().toISOString() } : n)));
+    refresh();
+  };
+
+  const markAllRead = async () => {
+    const res = await fetch(`${apiBase}/metadata/notifications/read-all`, { method: "POST", headers }).catch(() => null);
+    if (!res?.ok) return;
+    const now = new Date().toISOString();
+    setItems((prev) => prev.map((n) => ({ ...n, readAt: n.readAt || now })));
+    refresh();
+  };
+
+  return (
+    <>
+      <header className="hero">
+        <div>
+          <p className="eyebrow">Inbox</p>
+          <h1>Notifications</h1>
+          <p className="subhead">
+            Price drops and releases for games on your <Link to="/wishlist">wishlist</Link>.
+          </p>
+        </div>
+      </header>
+      <section className="panel">
+        <div className="panel-head">
+          <label className="toggle">
+            <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} />
+            Unread only
+          </label>
+          <button className="ghost" onClick={markAllRead} disabled={!unread}>
+            Mark all read
+          </button>
+        </div>
+        {error ? <div className="status error">{error}</div> : null}
+        {items.length ? (
+          <ul className="list">
+            {items.map((n) => (
+              <li key={n.id} className={n.readAt ? "notification" : "notification unread"}>
+                <div>
+                  <strong>{n.appId ? <Link to={`/games/${n.appId}`}>{n.title}</Link> : n.title}</strong>
+                  <p className="meta">{n.body}</p>
+                  <p className="meta">{new Date(n.createdAt).toLocaleString()}</p>
+                </div>
+                {!n.readAt ? (
+                  <button className="ghost" onClick={() => markRead(n.id)}>
+                    Mark read
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        ) : !loading ? (
+          <div className="empty">{unreadOnly ? "No unread notifications." : "No notifications yet."}</div>
+        ) : null}
+        {nextBefore ? (
+          <button className="ghost" onClick={() => load(nextBefore)} disabled={loading}>
+            {loading ? "Loading..." : "Older"}
+          </button>
+        ) : null}
+      </section>
+    </>
+  );
+};
+
+export default InboxPage;
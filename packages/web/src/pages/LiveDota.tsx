@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
+import { usePreferences } from "../components/PreferencesProvider";
 
 export interface LivePlayer {
   accountId: number;
@@ -105,7 +106,12 @@ const LiveDotaPage = ({ token, apiBase }: Props) => {
   const [games, setGames] = useState<LiveMatchVM[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedId, setSelectedId] = useState<number | null>(null);
+  // The featured match is remembered across reloads and devices while it is still live.
+  const { preferences, loaded, update: updatePreferences } = usePreferences();
+  const selectedId = preferences.pages.dotaLive.selectedMatchId;
+  const setSelectedId = (selectedMatchId: number | null) => {
+    if (selectedMatchId !== selectedId) updatePreferences({ pages: { dotaLive: { selectedMatchId } } });
+  };
 
   const fetchLive = async () => {
     setLoading(true);
@@ -117,7 +123,6 @@ const LiveDotaPage = ({ token, apiBase }: Props) => {
       const normalized = normalizeLiveGames(json.items || []);
       const sorted = [...normalized].sort((a, b) => b.listSortKey - a.listSortKey);
       setGames(sorted);
-      setSelectedId((prev) => (prev && sorted.some((g) => g.id === prev) ? prev : sorted[0]?.id ?? null));
     } catch (err) {
       setError((err as Error).message);
       setGames([]);
@@ -135,6 +140,12 @@ const LiveDotaPage = ({ token, apiBase }: Props) => {
 
   const featured = useMemo(() => games.find((g) => g.id === selectedId) || games[0], [games, selectedId]);
 
+  // Forget a saved match once it drops off the live list.
+  useEffect(() => {
+    if (loaded && games.length && selectedId !== null && !games.some((g) => g.id === selectedId)) setSelectedId(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded, games, selectedId]);
+
   return (
     <>
       <header className="hero">
@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
+import { useStoreHeaders } from "../components/PreferencesProvider";
+import WishlistButton from "../components/WishlistButton";
 import { GameMetadata } from "../types";
 
 interface Props {
@@ -8,6 +10,7 @@ interface Props {
 }
 
 const LiveSearchPage = ({ token, apiBase }: Props) => {
+  const storeHeaders = useStoreHeaders();
   const [liveQuery, setLiveQuery] = useState("");
   const [results, setResults] = useState<GameMetadata[]>([]);
   const [loading, setLoading] = useState(false);
@@ -22,7 +25,7 @@ const LiveSearchPage = ({ token, apiBase }: Props) => {
     setError(null);
     try {
       const res = await fetch(`${apiBase}/metadata/search/live?q=${encodeURIComponent(q)}`, {
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { ...storeHeaders, Authorization: `Bearer ${token}` },
       });
       const json = await res.json();
       if (!res.ok) throw new Error(json?.message || "Live search failed");
@@ -39,7 +42,7 @@ const LiveSearchPage = ({ token, apiBase }: Props) => {
     setCounts((prev) => ({ ...prev, [appId]: { loading: true } }));
     try {
       const res = await fetch(`${apiBase}/stats/games/${appId}/summary`, {
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { ...storeHeaders, Authorization: `Bearer ${token}` },
       });
       const json = await res.json();
       if (!res.ok) throw new Error(json?.message || "Failed to load count");
@@ -59,7 +62,7 @@ const LiveSearchPage = ({ token, apiBase }: Props) => {
       });
       const json = await res.json().catch(() => ({}));
       if (!res.ok) throw new Error(json?.message || `Failed (${res.status})`);
-      setCacheStatus((prev) => ({ ...prev, [appId]: json?.cached ? "Already cached" : "Cached" }));
+      setCacheStatus((prev) => ({ ...prev, [appId]: json?.queued ? "Queued" : json?.cached ? "Already cached" : "Cached" }));
     } catch (e: any) {
       setCacheStatus((prev) => ({ ...prev, [appId]: e?.message || "Cache failed" }));
     }
@@ -124,6 +127,7 @@ const LiveSearchPage = ({ token, apiBase }: Props) => {
                     <button className="ghost" onClick={() => addToCache(game.appId)}>
                       Add to cache
                     </button>
+                    <WishlistButton appId={game.appId} />
                     {cacheStatus[game.appId] ? <span className="status">{cacheStatus[game.appId]}</span> : null}
                   </div>
                 </div>
@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { useStoreHeaders } from "../components/PreferencesProvider";
 import { GameSummary, NewsItem, GameMetadata } from "../types";
 
 interface Props {
@@ -7,6 +8,7 @@ interface Props {
 }
 
 const NewsPage = ({ token, apiBase }: Props) => {
+  const storeHeaders = useStoreHeaders();
   const [appId, setAppId] = useState("");
   const [summary, setSummary] = useState<GameSummary | null>(null);
   const [news, setNews] = useState<NewsItem[]>([]);
@@ -41,7 +43,7 @@ const NewsPage = ({ token, apiBase }: Props) => {
     setError(null);
     try {
       const res = await fetch(`${apiBase}/stats/games/${targetId}/summary`, {
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { ...storeHeaders, Authorization: `Bearer ${token}` },
       });
       const json = await res.json();
       if (!res.ok) throw new Error(json?.message || "Summary fetch failed");
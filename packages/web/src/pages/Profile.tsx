@@ -1,4 +1,9 @@
 import { useEffect, useState } from "react";
+import AccountDataPanel from "../components/AccountDataPanel";
+import PreferencesPanel from "../components/PreferencesPanel";
+import { usePreferences } from "../components/PreferencesProvider";
+import PrivacyPanel from "../components/PrivacyPanel";
+import SecurityPanel from "../components/SecurityPanel";
 import { Friend, InventoryItem, PlayerStats } from "../types";
 
 interface Props {
@@ -6,27 +11,41 @@ interface Props {
   apiBase: string;
   steamId?: string;
   personaName?: string;
+  onAccountDeleted: () => void;
 }
 
-const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName }: Props) => {
-  const [steamId] = useState(steamIdProp || "");
-  const [playerState, setPlayerState] = useState<{ loading: boolean; error: string | null; data: PlayerStats | null }>({
+// `profile_private` is the player's choice rather than a failure, so it renders as a notice.
+type LoadError = { message: string; private: boolean };
+
+const loadError = (payload: any, fallback: string): LoadError => ({
+  message: payload?.message || fallback,
+  private: payload?.error === "profile_private",
+});
+
+const ErrorNotice = ({ error }: { error: LoadError | null }) =>
+  error ? <div className={`status ${error.private ? "private" : "error"}`}>{error.message}</div> : null;
+
+const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName, onAccountDeleted }: Props) => {
+  const [steamId, setSteamId] = useState(steamIdProp || "");
+  const [lookupId, setLookupId] = useState(steamIdProp || "");
+  const [playerState, setPlayerState] = useState<{ loading: boolean; error: LoadError | null; data: PlayerStats | null }>({
     loading: false,
     error: null,
     data: null,
   });
   const [friends, setFriends] = useState<Friend[]>([]);
   const [friendsLoading, setFriendsLoading] = useState(false);
-  const [friendsError, setFriendsError] = useState<string | null>(null);
+  const [friendsError, setFriendsError] = useState<LoadError | null>(null);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [invLoading, setInvLoading] = useState(false);
-  const [invError, setInvError] = useState<string | null>(null);
-  const [appIdInv, setAppIdInv] = useState("730");
+  const [invError, setInvError] = useState<LoadError | null>(null);
+  const { preferences, loaded: preferencesLoaded, update: updatePreferences } = usePreferences();
+  const [appIdInv, setAppIdInv] = useState(preferences.pages.profile.inventoryAppId);
 
   const fetchPlayerStats = async () => {
     const id = steamId.trim();
     if (!id) {
-      setPlayerState((prev) => ({ ...prev, error: "Enter a SteamID64 to query stats." }));
+      setPlayerState((prev) => ({ ...prev, error: { message: "Enter a SteamID64 to query stats.", private: false } }));
       return;
     }
     setPlayerState({ loading: true, error: null, data: null });
@@ -35,17 +54,20 @@ const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName }: Prop
         headers: { Authorization: `Bearer ${token}` },
       });
       const payload = await res.json();
-      if (!res.ok) throw new Error(payload?.message || "Request failed");
+      if (!res.ok) {
+        setPlayerState({ loading: false, error: loadError(payload, "Request failed"), data: null });
+        return;
+      }
       setPlayerState({ loading: false, error: null, data: payload.item });
     } catch (err) {
-      setPlayerState({ loading: false, error: (err as Error).message, data: null });
+      setPlayerState({ loading: false, error: { message: (err as Error).message, private: false }, data: null });
     }
   };
 
   const fetchFriends = async () => {
     const id = steamId.trim();
     if (!id) {
-      setFriendsError("Enter a SteamID64 to load friends.");
+      setFriendsError({ message: "Enter a SteamID64 to load friends.", private: false });
       return;
     }
     setFriendsLoading(true);
@@ -55,56 +77,95 @@ const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName }: Prop
         headers: { Authorization: `Bearer ${token}` },
       });
       const json = await res.json();
-      if (!res.ok) throw new Error(json?.message || "Friends fetch failed");
+      if (!res.ok) {
+        setFriendsError(loadError(json, "Friends fetch failed"));
+        setFriends([]);
+        return;
+      }
       setFriends(json.items || []);
     } catch (err) {
-      setFriendsError((err as Error).message);
+      setFriendsError({ message: (err as Error).message, private: false });
       setFriends([]);
     } finally {
       setFriendsLoading(false);
     }
   };
 
-  const fetchInventory = async () => {
+  const fetchInventory = async (appId = appIdInv) => {
     const id = steamId.trim();
     if (!id) {
-      setInvError("Enter a SteamID64 to load inventory.");
+      setInvError({ message: "Enter a SteamID64 to load inventory.", private: false });
       return;
     }
     setInvLoading(true);
     setInvError(null);
     try {
-      const res = await fetch(`${apiBase}/stats/players/${id}/inventory?appId=${appIdInv}`, {
+      const res = await fetch(`${apiBase}/stats/players/${id}/inventory?appId=${appId}`, {
         headers: { Authorization: `Bearer ${token}` },
       });
       const json = await res.json();
-      if (!res.ok) throw new Error(json?.message || "Inventory fetch failed");
+      if (!res.ok) {
+        setInvError(loadError(json, "Inventory fetch failed"));
+        setInventory([]);
+        return;
+      }
       setInventory(json.items || []);
     } catch (err) {
-      setInvError((err as Error).message);
+      setInvError({ message: (err as Error).message, private: false });
       setInventory([]);
     } finally {
       setInvLoading(false);
     }
   };
 
+  // Loading an AppID's inventory remembers it as the one to open next time.
+  const loadInventory = () => {
+    fetchInventory();
+    if (appIdInv !== preferences.pages.profile.inventoryAppId) {
+      updatePreferences({ pages: { profile: { inventoryAppId: appIdInv } } });
+    }
+  };
+
+  const lookUp = () => {
+    const id = lookupId.trim();
+    if (id && id !== steamId) setSteamId(id);
+  };
+
   useEffect(() => {
     if (steamId) {
       fetchPlayerStats();
       fetchFriends();
-      fetchInventory();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [steamId]);
 
+  // The inventory waits for preferences so it opens on the saved AppID.
+  useEffect(() => {
+    if (steamId && preferencesLoaded) {
+      setAppIdInv(preferences.pages.profile.inventoryAppId);
+      fetchInventory(preferences.pages.profile.inventoryAppId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [steamId, preferencesLoaded]);
+
   return (
     <>
       <header className="hero">
         <div>
           <p className="eyebrow">Profile</p>
-          <h1>{personaName ? `${personaName}'s profile` : "Steam profile view"}</h1>
+          <h1>{personaName && steamId === steamIdProp ? `${personaName}'s profile` : "Steam profile view"}</h1>
           <p className="subhead">View player stats, friends, and inventory from the Steam Web APIs.</p>
           <div className="inline">
+            <input
+              className="compact"
+              value={lookupId}
+              onChange={(e) => setLookupId(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && lookUp()}
+              placeholder="SteamID64"
+            />
+            <button className="ghost" onClick={lookUp}>
+              Look up
+            </button>
             <button onClick={fetchPlayerStats} disabled={playerState.loading}>
               {playerState.loading ? "Loading..." : "Refresh stats"}
             </button>
@@ -112,7 +173,7 @@ const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName }: Prop
               {friendsLoading ? "Loading friends..." : "Refresh friends"}
             </button>
           </div>
-          {playerState.error ? <div className="status error">{playerState.error}</div> : null}
+          <ErrorNotice error={playerState.error} />
         </div>
       </header>
 
@@ -162,7 +223,7 @@ const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName }: Prop
             <h2>Live friend statuses</h2>
           </div>
         </div>
-        {friendsError ? <div className="status error">{friendsError}</div> : null}
+        <ErrorNotice error={friendsError} />
         {!friendsLoading && !friends.length ? <p className="meta">No friends loaded yet.</p> : null}
         <div className="list friends">
           {friends.map((f) => (
@@ -194,12 +255,12 @@ const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName }: Prop
           </div>
           <div className="inline">
             <input className="compact" value={appIdInv} onChange={(e) => setAppIdInv(e.target.value)} placeholder="AppID (e.g. 730)" />
-            <button className="ghost" onClick={fetchInventory} disabled={invLoading}>
+            <button className="ghost" onClick={loadInventory} disabled={invLoading}>
               {invLoading ? "Loading..." : "Load inventory"}
             </button>
           </div>
         </div>
-        {invError ? <div className="status error">{invError}</div> : null}
+        <ErrorNotice error={invError} />
         <div className="grid">
           {inventory.map((item) => (
             <article key={item.assetId} className="card">
@@ -216,6 +277,14 @@ const ProfilePage = ({ token, apiBase, steamId: steamIdProp, personaName }: Prop
           {!invLoading && !inventory.length ? <p className="meta">No items loaded yet.</p> : null}
         </div>
       </section>
+
+      <PreferencesPanel />
+
+      <PrivacyPanel token={token} apiBase={apiBase} />
+
+      <SecurityPanel token={token} apiBase={apiBase} />
+
+      {steamIdProp ? <AccountDataPanel token={token} apiBase={apiBase} steamId={steamIdProp} onDeleted={onAccountDeleted} /> : null}
     </>
   );
 };
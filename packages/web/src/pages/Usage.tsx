@@ -1,66 +1,94 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
+import { UsageReport, UsageStats } from "../types";
 
 interface Props {
   token: string;
   apiBase: string;
-  roles: string[];
+  scopes: string[];
 }
 
-const UsagePage = ({ token, apiBase, roles }: Props) => {
-  const [metrics, setMetrics] = useState<string>("");
+const ranges: Record<string, number> = {
+  "1h": 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+const formatLatency = (value: number | null) => (value == null ? "—" : `${value.toLocaleString()} ms`);
+
+const UsagePage = ({ token, apiBase, scopes }: Props) => {
+  const [report, setReport] = useState<UsageReport | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [htmlWarning, setHtmlWarning] = useState(false);
+  const [range, setRange] = useState("24h");
+  const [route, setRoute] = useState("");
+  const [steamId, setSteamId] = useState("");
+  const [statusClass, setStatusClass] = useState("");
 
   const grafanaUrl =
     typeof window !== "undefined"
       ? `${window.location.origin}/grafana/d/usage-overview`
       : "http://localhost:3000/d/usage-overview";
 
-  const isAdmin = roles.includes("admin");
+  const canRead = scopes.includes("usage:read");
 
   const load = async () => {
     setLoading(true);
     setError(null);
-    setHtmlWarning(false);
     try {
       // Try stats-scoped path to ensure it goes through gateway proxy
-      const url = new URL("/stats/admin/usage", apiBase).toString();
-      const res = await fetch(url, {
+      const url = new URL("/stats/admin/usage", apiBase);
+      url.searchParams.set("from", String(Date.now() - ranges[range]));
+      url.searchParams.set("top", "15");
+      if (route.trim()) url.searchParams.set("route", route.trim());
+      if (steamId.trim()) url.searchParams.set("steamId", steamId.trim());
+      if (statusClass) url.searchParams.set("statusClass", statusClass);
+      const res = await fetch(url.toString(), {
         headers: { Authorization: `Bearer ${token}` },
         cache: "no-store",
       });
-      const text = await res.text();
-      if (!res.ok) throw new Error(text || `Failed (${res.status})`);
-      if (text.toLowerCase().includes("<!doctype html")) {
-        setHtmlWarning(true);
-      }
-      setMetrics(text);
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+      setReport(json as UsageReport);
     } catch (e: any) {
-      setError(e?.message || "Failed to load metrics");
-      setMetrics("");
+      setError(e?.message || "Failed to load usage");
+      setReport(null);
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    if (isAdmin) load();
+    if (canRead) load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAdmin]);
+  }, [canRead, range, statusClass]);
 
-  if (!isAdmin) {
+  if (!canRead) {
     return (
       <div className="page">
         <h1>Usage</h1>
-        <p className="subhead">You need admin access to view usage metrics.</p>
+        <p className="subhead">You need the usage:read permission to view usage metrics.</p>
       </div>
     );
   }
 
-  const parsed = useMemo(() => parsePrometheus(metrics), [metrics]);
-  const serviceStatus = useMemo(() => summarizeServices(parsed), [parsed]);
-  const endpointUsage = useMemo(() => summarizeEndpoints(parsed), [parsed]);
+  const renderStatsCells = (stats: UsageStats) => (
+    <>
+      <td>{stats.requests.toLocaleString()}</td>
+      <td>{stats.errors.toLocaleString()}</td>
+      <td>{formatLatency(stats.avgLatencyMs)}</td>
+      <td>{formatLatency(stats.maxLatencyMs)}</td>
+    </>
+  );
+
+  const statsHead = (
+    <>
+      <th>Requests</th>
+      <th>5xx</th>
+      <th>Avg latency</th>
+      <th>Max latency</th>
+    </>
+  );
 
   return (
     <div className="page">
@@ -68,8 +96,8 @@ const UsagePage = ({ token, apiBase, roles }: Props) => {
         <div className="panel-head">
           <div>
             <p className="eyebrow">Admin</p>
-            <h2>Usage metrics</h2>
-            <p className="subhead">Prometheus-format metrics for all services.</p>
+            <h2>API usage</h2>
+            <p className="subhead">Proxied gateway calls rolled up hourly by route, user and status.</p>
           </div>
           <div className="inline gap">
             <a className="ghost" href={grafanaUrl} target="_blank" rel="noreferrer">
@@ -80,181 +108,147 @@ const UsagePage = ({ token, apiBase, roles }: Props) => {
             </button>
           </div>
         </div>
+        <div className="inline wrap gap" style={{ marginTop: 12 }}>
+          <select value={range} onChange={(e) => setRange(e.target.value)}>
+            {Object.keys(ranges).map((key) => (
+              <option key={key} value={key}>
+                Last {key}
+              </option>
+            ))}
+          </select>
+          <select value={statusClass} onChange={(e) => setStatusClass(e.target.value)}>
+            <option value="">All statuses</option>
+            <option value="2">2xx</option>
+            <option value="3">3xx</option>
+            <option value="4">4xx</option>
+            <option value="5">5xx</option>
+          </select>
+          <input className="compact" value={route} onChange={(e) => setRoute(e.target.value)} placeholder="Route, e.g. stats /stats/spotlight/:id" />
+          <input className="compact" value={steamId} onChange={(e) => setSteamId(e.target.value)} placeholder="SteamID64" />
+          <button className="ghost" onClick={load} disabled={loading}>
+            Apply filters
+          </button>
+        </div>
         {error ? <div className="callout warn">{error}</div> : null}
-        {htmlWarning ? (
-          <div className="callout warn">
-            Metrics response looks like HTML (probably the SPA). Ensure Caddy is proxying /admin/* to the gateway and retry. Showing raw
-            response below.
-          </div>
-        ) : null}
-        <div className="stack gap">
-          {serviceStatus.length ? (
+        {report ? (
+          <div className="stack gap">
+            <div className="pill-row" style={{ marginTop: 12 }}>
+              <span className="chip">Requests: {report.totals.requests.toLocaleString()}</span>
+              <span className="chip">5xx: {report.totals.errors.toLocaleString()}</span>
+              <span className="chip">Avg latency: {formatLatency(report.totals.avgLatencyMs)}</span>
+              <span className="chip">Max latency: {formatLatency(report.totals.maxLatencyMs)}</span>
+            </div>
+
             <div className="card">
               <div className="card-body">
                 <div className="card-header">
-                  <div>
-                    <h3>Service status</h3>
-                    <p className="meta">Based on Prometheus `up` metric</p>
-                  </div>
-                  <div className="inline gap">
-                    <div className="pill pill-success">
-                      Online: {serviceStatus.filter((s) => s.up).length}
-                    </div>
-                    <div className="pill pill-warn">
-                      Offline: {serviceStatus.filter((s) => !s.up).length}
-                    </div>
-                  </div>
+                  <h3>Top routes</h3>
+                  <p className="meta">Click a route to filter by it</p>
                 </div>
-                <table className="table">
-                  <thead>
-                    <tr>
-                      <th>Service</th>
-                      <th>Status</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {serviceStatus.map((s) => (
-                      <tr key={s.name}>
-                        <td>{s.name}</td>
-                        <td>
-                          <span className={`pill ${s.up ? "pill-success" : "pill-warn"}`}>
-                            {s.up ? "Online" : "Offline"}
-                          </span>
-                        </td>
+                {report.topRoutes.length ? (
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Route</th>
+                        {statsHead}
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
+                    </thead>
+                    <tbody>
+                      {report.topRoutes.map((r) => (
+                        <tr key={r.route}>
+                          <td>
+                            <button className="ghost small" onClick={() => setRoute(r.route)}>
+                              {r.route}
+                            </button>
+                          </td>
+                          {renderStatsCells(r)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="empty">No calls recorded for this range.</div>
+                )}
               </div>
             </div>
-          ) : null}
 
-          <div className="card">
-            <div className="card-body">
-              <div className="card-header">
-                <h3>Endpoint usage</h3>
-                <p className="meta">Grouped by route and status (counts from request metrics)</p>
+            <div className="two-col">
+              <div className="card">
+                <div className="card-body">
+                  <div className="card-header">
+                    <h3>Top users</h3>
+                  </div>
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>SteamID</th>
+                        {statsHead}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.topUsers.map((u) => (
+                        <tr key={u.steamId}>
+                          <td>
+                            <button className="ghost small" onClick={() => setSteamId(u.steamId)}>
+                              {u.steamId}
+                            </button>
+                          </td>
+                          {renderStatsCells(u)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
               </div>
-              {endpointUsage.length ? (
-                <table className="table">
-                  <thead>
-                    <tr>
-                      <th>Route</th>
-                      <th>Status</th>
-                      <th>Count</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {endpointUsage.slice(0, 40).map((e) => (
-                      <tr key={`${e.route}-${e.status}`}>
-                        <td>{e.route}</td>
-                        <td>{e.status}</td>
-                        <td>{e.count}</td>
+              <div className="card">
+                <div className="card-body">
+                  <div className="card-header">
+                    <h3>Status classes</h3>
+                  </div>
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Status</th>
+                        {statsHead}
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
-              ) : (
-                <div className="empty">
-                  No endpoint metrics detected. Ensure request metrics are enabled in the gateway/service (e.g., labeled with
-                  route/path/status).
+                    </thead>
+                    <tbody>
+                      {report.statusClasses.map((s) => (
+                        <tr key={s.statusClass}>
+                          <td>{s.statusClass}</td>
+                          {renderStatsCells(s)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
-              )}
+              </div>
             </div>
+
+            <details style={{ marginTop: 16 }}>
+              <summary>Hourly buckets ({report.series.length})</summary>
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Hour</th>
+                    {statsHead}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.series.map((b) => (
+                    <tr key={b.bucket}>
+                      <td>{new Date(b.bucket).toLocaleString()}</td>
+                      {renderStatsCells(b)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
           </div>
-        </div>
-        <details style={{ marginTop: 16 }}>
-          <summary>Raw metrics response</summary>
-          <pre style={{ whiteSpace: "pre-wrap", wordBreak: "break-all", background: "rgba(0,0,0,0.4)", padding: 12, borderRadius: 12 }}>
-            {metrics || "No metrics loaded yet."}
-          </pre>
-        </details>
+        ) : null}
       </div>
     </div>
   );
 };
 
 export default UsagePage;
-
-type Sample = { name: string; value: number; labels: Record<string, string>; rawLabels: string };
-
-function parsePrometheus(text: string): Sample[] {
-  if (!text || text.trim().toLowerCase().startsWith("<!doctype")) return [];
-  const lines = text
-    .split("\n")
-    .map((l) => l.trim())
-    .filter((l) => l && !l.startsWith("#"));
-
-  const items: Sample[] = [];
-  for (const line of lines) {
-    const [metricPart, valuePart] = line.split(/ (?=[^ ]+$)/);
-    if (!metricPart || valuePart === undefined) continue;
-    const match = metricPart.match(/^([^{]+){?(.*)?}?$/);
-    if (!match) continue;
-    const name = match[1];
-    const rawLabels = match[2] || "";
-    const valueNum = Number(valuePart);
-    const labels: Record<string, string> = {};
-    const labelRegex = /([\w.]+)="([^"]*)"/g;
-    let m;
-    while ((m = labelRegex.exec(rawLabels)) !== null) {
-      labels[m[1]] = m[2];
-    }
-    items.push({ name, value: valueNum, labels, rawLabels });
-  }
-  return items;
-}
-
-function summarizeServices(samples: Sample[]): Array<{ name: string; up: boolean }> {
-  const filtered = samples
-    .filter((s) => {
-      if (s.name === "up") return true;
-      if (s.name.endsWith("_up")) return true;
-      if (s.name.includes("process_start_time_seconds")) return true;
-      return false;
-    })
-    .map((s) => {
-      const svc =
-        s.labels.job ||
-        s.labels.service ||
-        s.labels.instance ||
-        s.labels.app ||
-        inferServiceName(s.name) ||
-        "unknown";
-      const up = s.name.includes("up") ? s.value === 1 : true; // presence implies alive for process metrics
-      return { name: svc, up };
-    });
-
-  const dedup = filtered.reduce((acc: Record<string, { name: string; up: boolean }>, cur) => {
-    acc[cur.name] = cur; // last wins
-    return acc;
-  }, {});
-
-  return Object.values(dedup);
-}
-
-function summarizeEndpoints(samples: Sample[]): Array<{ route: string; status: string; count: number }> {
-  const endpointLike = samples.filter((s) => {
-    const route = pickRoute(s.labels);
-    return route && /request|http|handler/i.test(s.name) && Number.isFinite(s.value);
-  });
-  const buckets: Record<string, { route: string; status: string; count: number }> = {};
-  for (const s of endpointLike) {
-    const route = pickRoute(s.labels) || inferServiceName(s.name) || "unknown";
-    const status = s.labels.status || s.labels.code || "all";
-    const key = `${route}|${status}`;
-    if (!buckets[key]) buckets[key] = { route, status, count: 0 };
-    buckets[key].count += s.value;
-  }
-  return Object.values(buckets).sort((a, b) => b.count - a.count);
-}
-
-function pickRoute(labels: Record<string, string>): string | undefined {
-  return labels.route || labels.path || labels.endpoint || labels.handler;
-}
-
-function inferServiceName(metricName: string): string | undefined {
-  const prefix = metricName.split("_")[0];
-  if (!prefix || prefix.length > 40) return undefined;
-  return prefix;
-}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { ManagedUser, RoleAuditEntry } from "../types";
+
+interface Props {
+  token: string;
+  apiBase: string;
+  scopes: string[];
+  steamId: string;
+}
+
+const PAGE_SIZE = 25;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+const UsersPage = ({ token, apiBase, scopes, steamId }: Props) => {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [audit, setAudit] = useState<RoleAuditEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [roleFilter, setRoleFilter] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const canManage = scopes.includes("users:manage");
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const res = await fetch(new URL(path, apiBase).toString(), {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json", ...(init.headers || {}) },
+      cache: "no-store",
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json) throw new Error(json?.message || json?.error || `Failed (${res.status})`);
+    return json;
+  };
+
+  const load = async (nextOffset = offset) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(nextOffset) });
+      if (query.trim()) params.set("q", query.trim());
+      if (roleFilter) params.set("role", roleFilter);
+      const [list, log] = await Promise.all([request(`/auth/admin/users?${params}`), request("/auth/admin/audit?limit=20")]);
+      setUsers(list.items);
+      setTotal(list.total);
+      setAudit(log.items);
+      setOffset(nextOffset);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (canManage) load(0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canManage, roleFilter]);
+
+  const toggleAdmin = async (user: ManagedUser) => {
+    const granting = !user.roles.includes("admin");
+    const verb = granting ? "Grant admin to" : "Revoke admin from";
+    const reason = window.prompt(`${verb} ${user.personaName}? Optional reason:`, "");
+    if (reason === null) return;
+    setPending(user.steamId);
+    setError(null);
+    setNotice(null);
+    try {
+      const json = await request(`/auth/admin/users/${user.steamId}/roles/admin`, {
+        method: granting ? "PUT" : "DELETE",
+        body: JSON.stringify(reason.trim() ? { reason: reason.trim() } : {}),
+      });
+      setUsers((prev) => prev.map((u) => (u.steamId === user.steamId ? json.user : u)));
+      // The user's current token keeps its old roles until it is refreshed.
+      setNotice(`${granting ? "Granted admin to" : "Revoked admin from"} ${user.personaName}. Takes effect on their next token refresh.`);
+      setAudit((await request("/auth/admin/audit?limit=20")).items);
+    } catch (e: any) {
+      setError(e?.message || "Role change failed");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (!canManage) {
+    return (
+      <div className="page">
+        <h1>Users</h1>
+        <p className="subhead">You need the users:manage permission to manage users.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page">
+      <div className="panel">
+        <div className="panel-head">
+          <div>
+            <p className="eyebrow">Admin</p>
+            <h2>Users</h2>
+            <p className="subhead">Search accounts by SteamID or persona name and manage their roles.</p>
+          </div>
+          <button onClick={() => load()} disabled={loading}>
+            {loading ? "Loading…" : "Refresh"}
+          </button>
+        </div>
+        <div className="inline wrap gap" style={{ marginTop: 12 }}>
+          <input
+            className="compact"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && load(0)}
+            placeholder="SteamID64 or persona name"
+          />
+          <select value={roleFilter} onChange={(e) => setRoleFilter(e.target.value)}>
+            <option value="">All roles</option>
+            <option value="admin">Admins</option>
+            <option value="user">Users</option>
+          </select>
+          <button className="ghost" onClick={() => load(0)} disabled={loading}>
+            Search
+          </button>
+        </div>
+        {error ? <div className="callout warn">{error}</div> : null}
+        {notice ? <div className="callout">{notice}</div> : null}
+
+        <div className="card" style={{ marginTop: 12 }}>
+          <div className="card-body">
+            <div className="card-header">
+              <h3>Accounts</h3>
+              <p className="meta">
+                {total ? `${offset + 1}–${offset + users.length} of ${total.toLocaleString()}` : "No matches"}
+              </p>
+            </div>
+            {users.length ? (
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>User</th>
+                    <th>SteamID</th>
+                    <th>Roles</th>
+                    <th>Last login</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((u) => (
+                    <tr key={u.steamId}>
+                      <td>{u.personaName}</td>
+                      <td>{u.steamId}</td>
+                      <td>
+                        <div className="pill-row">
+                          {u.roles.map((r) => (
+                            <span key={r} className={`chip ${r === "admin" ? "chip-warn" : ""}`}>
+                              {r}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td>{formatDate(u.lastLoginAt)}</td>
+                      <td>
+                        <button className="ghost small" onClick={() => toggleAdmin(u)} disabled={pending === u.steamId}>
+                          {u.roles.includes("admin") ? (u.steamId === steamId ? "Revoke my admin" : "Revoke admin") : "Make admin"}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="empty">{loading ? "Loading…" : "No users match."}</div>
+            )}
+            <div className="inline gap" style={{ marginTop: 12 }}>
+              <button className="ghost small" onClick={() => load(Math.max(offset - PAGE_SIZE, 0))} disabled={loading || offset === 0}>
+                Previous
+              </button>
+              <button className="ghost small" onClick={() => load(offset + PAGE_SIZE)} disabled={loading || offset + PAGE_SIZE >= total}>
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <details style={{ marginTop: 16 }} open>
+          <summary>Recent role changes ({audit.length})</summary>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>SteamID</th>
+                <th>Change</th>
+                <th>By</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {audit.map((a) => (
+                <tr key={a.id}>
+                  <td>{formatDate(a.createdAt)}</td>
+                  <td>{a.steamId}</td>
+                  <td>
+                    {a.action} {a.role}
+                  </td>
+                  <td>{a.actorSteamId || "bootstrap"}</td>
+                  <td>{a.reason || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      </div>
+    </div>
+  );
+};
+
+export default UsersPage;
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useWishlist } from "../components/WishlistProvider";
+import { WishlistItem } from "../types";
+
+const formatPrice = (cents: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+const WishlistPage = () => {
+  const { items, loaded, error } = useWishlist();
+
+  return (
+    <>
+      <header className="hero">
+        <div>
+          <p className="eyebrow">Wishlist</p>
+          <h1>Games you are waiting for</h1>
+          <p className="subhead">
+            Set a price target or ask to hear about releases. Prices are checked every few hours in the store country you added the
+            game from, and alerts land in your inbox.
+          </p>
+        </div>
+      </header>
+      {error ? <div className="status error">{error}</div> : null}
+      <section className="panel">
+        {!loaded ? (
+          <p className="meta">Loading wishlist...</p>
+        ) : items.length ? (
+          <div className="list">
+            {items.map((item) => (
+              <WishlistRow key={item.appId} item={item} />
+            ))}
+          </div>
+        ) : (
+          <div className="empty">Nothing here yet. Use the ♡ Wishlist button on Discover, Live Search, Featured or a game's page.</div>
+        )}
+      </section>
+    </>
+  );
+};
+
+const WishlistRow = ({ item }: { item: WishlistItem }) => {
+  const { update, remove } = useWishlist();
+  // The target is edited in major units ("9.99") and sent in minor units.
+  const [target, setTarget] = useState(item.targetCents !== null ? (item.targetCents / 100).toFixed(2) : "");
+  const [saving, setSaving] = useState(false);
+  const currency = item.targetCurrency || item.currency;
+
+  const saveTarget = async () => {
+    const value = target.trim() ? Math.round(Number(target) * 100) : null;
+    if (value !== null && (!Number.isFinite(value) || value <= 0)) return;
+    setSaving(true);
+    await update(item.appId, { targetCents: value, targetCurrency: value !== null ? currency : null });
+    setSaving(false);
+  };
+
+  return (
+    <div className="wishlist-row">
+      {item.icon ? <img src={item.icon} alt="" /> : null}
+      <div className="wishlist-main">
+        <div className="card-header">
+          <h3>
+            <Link to={`/games/${item.appId}`}>{item.name || `App ${item.appId}`}</Link>
+          </h3>
+          <span className="app-id">{item.cc} store</span>
+        </div>
+        <div className="chip-row">
+          {item.finalCents !== null && item.currency ? <span className="chip">{formatPrice(item.finalCents, item.currency)}</span> : null}
+          {item.comingSoon ? <span className="chip">Coming soon</span> : null}
+          {item.earlyAccess ? <span className="chip">Early access</span> : null}
+          {!item.checkedAt ? <span className="chip">Not checked yet</span> : null}
+        </div>
+        <div className="inline wrap gap">
+          <label className="toggle">
+            Alert at or below
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={target}
+              placeholder="no target"
+              onChange={(e) => setTarget(e.target.value)}
+              onBlur={saveTarget}
+              disabled={saving}
+            />
+            {currency || ""}
+          </label>
+          <label className="toggle">
+            <input type="checkbox" checked={item.notifyRelease} onChange={(e) => update(item.appId, { notifyRelease: e.target.checked })} />
+            When released
+          </label>
+          <label className="toggle">
+            <input
+              type="checkbox"
+              checked={item.notifyEarlyAccess}
+              onChange={(e) => update(item.appId, { notifyEarlyAccess: e.target.checked })}
+            />
+            When it leaves early access
+          </label>
+          <button className="ghost" onClick={() => remove(item.appId)}>
+            Remove
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WishlistPage;
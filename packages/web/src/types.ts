@@ -6,6 +6,96 @@ export interface GameMetadata {
   publisher: string;
   icon: string;
   tags?: string[];
+  // Only on /metadata/games/:appId; null until the store page has been read.
+  details?: GameDetails | null;
+}
+
+export interface GameScreenshot {
+  id: number;
+  thumbnail: string;
+  full: string;
+}
+
+export interface GameMovie {
+  id: number;
+  name: string;
+  thumbnail: string;
+  webm: string | null;
+  mp4: string | null;
+  hls: string | null;
+}
+
+export interface AgeRating {
+  board: string;
+  rating: string;
+  descriptors: string | null;
+}
+
+export interface GameDetails {
+  version: number;
+  fetchedAt: string;
+  releaseDate: { comingSoon: boolean; date: string | null };
+  metacritic: { score: number; url: string | null } | null;
+  reviewCount: number | null;
+  screenshots: GameScreenshot[];
+  movies: GameMovie[];
+  supportedLanguages: { name: string; fullAudio: boolean }[];
+  // Plain text, one requirement per line.
+  pcRequirements: { minimum: string | null; recommended: string | null };
+  dlc: string[];
+  requiredAge: number;
+  ageRatings: AgeRating[];
+}
+
+export interface Recommendation extends GameMetadata {
+  score: number;
+  // Shared features that counted most, e.g. "developer: Valve".
+  reasons: string[];
+  // Only when the rail favours games people are playing now.
+  currentPlayers?: number | null;
+}
+
+export interface PricePoint {
+  firstSeenAt: string;
+  lastSeenAt: string;
+  initialCents: number;
+  finalCents: number;
+  discountPercent: number;
+  source: "featured" | "appdetails";
+}
+
+export interface PriceLow {
+  finalCents: number;
+  discountPercent: number;
+  seenAt: string;
+}
+
+export interface PriceHistory {
+  appId: string;
+  cc: string;
+  currency: string | null;
+  current: PricePoint | null;
+  allTimeLow: PriceLow | null;
+  low90d: PriceLow | null;
+  timeline: PricePoint[];
+  currencies: string[];
+}
+
+export type SearchFacet = "genre" | "tag" | "developer" | "publisher";
+export type SearchSort = "relevance" | "name" | "newest";
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchResults {
+  count: number;
+  total: number;
+  sort: SearchSort;
+  items: GameMetadata[];
+  facets: Record<"genres" | "tags" | "developers" | "publishers", FacetCount[]>;
+  nextCursor: string | null;
 }
 
 export interface SpotlightAchievement {
@@ -76,6 +166,10 @@ export interface GameSummary {
   genres: string[];
   platforms: any;
   price: any;
+  // Store country and language the summary was fetched for; `currency` is null for free games.
+  cc: string;
+  language: string;
+  currency: string | null;
   publishers: string[];
   developers: string[];
   categories: string[];
@@ -109,3 +203,108 @@ export interface InventoryItem {
   icon?: string;
   tradable?: boolean;
 }
+
+export interface UsageStats {
+  requests: number;
+  errors: number;
+  avgLatencyMs: number | null;
+  maxLatencyMs: number | null;
+}
+
+export interface UsageReport {
+  range: { from: string; to: string };
+  filters: { route: string | null; steamId: string | null; statusClass: number | null };
+  totals: UsageStats;
+  series: Array<UsageStats & { bucket: string }>;
+  topRoutes: Array<UsageStats & { route: string }>;
+  topUsers: Array<UsageStats & { steamId: string }>;
+  statusClasses: Array<UsageStats & { statusClass: string }>;
+}
+
+export interface ManagedUser {
+  id: string;
+  steamId: string;
+  personaName: string;
+  avatarUrl: string | null;
+  roles: string[];
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+export interface RoleAuditEntry {
+  id: number;
+  steamId: string;
+  role: string;
+  action: "grant" | "revoke";
+  actorSteamId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  createdAt: string;
+  lastRefreshedAt: string;
+  expiresAt: string;
+  userAgent: string | null;
+  ip: string | null;
+  current: boolean;
+}
+
+export type AchievementFilter = "all" | "unlocked" | "locked";
+
+export interface Preferences {
+  version: number;
+  landingPage: string;
+  favoriteAppIds: string[];
+  currency: string | null;
+  region: string | null;
+  language: string | null;
+  pages: {
+    spotlight: { achievementFilter: AchievementFilter };
+    profile: { inventoryAppId: string };
+    dotaLive: { selectedMatchId: number | null };
+  };
+}
+
+export type PrivacyVisibility = "public" | "friends" | "private";
+
+export interface PrivacySettings {
+  visibility: PrivacyVisibility;
+  sections: { stats: boolean; friends: boolean; inventory: boolean };
+  keepSnapshots: boolean;
+}
+
+export interface WishlistSettings {
+  // Alert at or below this price, in minor units; null for no price alert.
+  targetCents: number | null;
+  targetCurrency: string | null;
+  notifyRelease: boolean;
+  notifyEarlyAccess: boolean;
+}
+
+export interface WishlistItem extends WishlistSettings {
+  appId: string;
+  cc: string;
+  name: string | null;
+  icon: string | null;
+  addedAt: string;
+  checkedAt: string | null;
+  finalCents: number | null;
+  currency: string | null;
+  comingSoon: boolean | null;
+  earlyAccess: boolean | null;
+}
+
+export type NotificationKind = "price_below" | "released" | "left_early_access";
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  appId: string | null;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  createdAt: string;
+  readAt: string | null;
+}